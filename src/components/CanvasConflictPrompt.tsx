@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { ConflictResolution, type CanvasConflict } from '../types/canvas-conflict';
+
+interface CanvasConflictPromptProps {
+  conflict: CanvasConflict;
+  canvasTitle: string;
+  onResolve: (canvasId: string, resolution: ConflictResolution) => Promise<boolean>;
+}
+
+const choices: { resolution: ConflictResolution; label: string; description: string }[] = [
+  {
+    resolution: ConflictResolution.KEEP_MINE,
+    label: 'Keep mine',
+    description: 'Save this device\'s version over the other one',
+  },
+  {
+    resolution: ConflictResolution.TAKE_THEIRS,
+    label: 'Take theirs',
+    description: 'Replace this device\'s version with the other one',
+  },
+  {
+    resolution: ConflictResolution.FORK,
+    label: 'Keep both',
+    description: 'Take the other version and keep this device\'s as a copy',
+  },
+];
+
+// Asks how to settle a flow edited on another device in ways that can't be merged. The flow's
+// content doesn't sync until one of the choices is made.
+export const CanvasConflictPrompt: React.FC<CanvasConflictPromptProps> = ({ conflict, canvasTitle, onResolve }) => {
+  const [isResolving, setIsResolving] = useState(false);
+
+  const handleResolve = async (resolution: ConflictResolution) => {
+    setIsResolving(true);
+    await onResolve(conflict.canvasId, resolution);
+    setIsResolving(false);
+  };
+
+  const changedAt = new Date(conflict.remote.updated_at).toLocaleString(undefined, {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+  });
+
+  return (
+    <div
+      role="alertdialog"
+      aria-labelledby="canvas-conflict-title"
+      style={{
+        position: 'fixed',
+        bottom: '24px',
+        left: '50%',
+        transform: 'translateX(-50%)',
+        zIndex: 2000,
+        width: '340px',
+        padding: '12px 16px',
+        backgroundColor: '#ffffff',
+        border: '1px solid var(--color-divider)',
+        borderRadius: '12px',
+        boxShadow: '0px 0px 2px hsl(0, 0%, 0%, 16%), 0px 2px 3px hsl(0, 0%, 0%, 24%), 0px 2px 6px hsl(0, 0%, 0%, 0.1), inset 0px 0px 0px 1px hsl(0, 0%, 100%)',
+        fontFamily: 'var(--font-system)',
+        color: '#885050',
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '8px',
+      }}
+    >
+      <span id="canvas-conflict-title" style={{ fontSize: '13px', fontWeight: 600 }}>
+        "{canvasTitle}" was changed on another device
+      </span>
+      <span style={{ fontSize: '11px', opacity: 0.8 }}>
+        {conflict.conflictingRecords} shape{conflict.conflictingRecords === 1 ? ' was' : 's were'} changed
+        differently on both devices (other version saved {changedAt}). Changes to this flow aren't synced
+        until you choose which to keep.
+      </span>
+      <div style={{ display: 'flex', gap: '6px', justifyContent: 'flex-end' }}>
+        {choices.map(({ resolution, label, description }) => (
+          <button
+            key={resolution}
+            onClick={() => handleResolve(resolution)}
+            disabled={isResolving}
+            title={description}
+            style={{
+              border: '1px solid rgba(136, 80, 80, 0.3)',
+              borderRadius: '4px',
+              backgroundColor: 'rgba(255, 255, 255, 0.6)',
+              color: '#885050',
+              fontSize: '11px',
+              padding: '3px 8px',
+              cursor: isResolving ? 'default' : 'pointer',
+              fontFamily: 'var(--font-system)',
+            }}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
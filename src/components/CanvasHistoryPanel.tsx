@@ -0,0 +1,204 @@
+import React, { useState, useEffect } from 'react';
+import { TldrawImage } from 'tldraw';
+import { customShapeUtils, customBindingUtils } from '../shapes';
+import { useCanvasContext } from '../contexts/CanvasContext';
+import { useCanvasVersions } from '../hooks/useCanvasVersions';
+import { formatVersionTime, getVersionReasonLabel } from '../utils/canvas-versions';
+import type { CanvasVersion } from '../lib/supabase';
+import type { CanvasState } from '../hooks/useCanvasState';
+
+interface CanvasHistoryPanelProps {
+  canvasId: string;
+  onClose: () => void;
+}
+
+// TldrawImage stretches its image to the container, keep the preview's proportions instead
+const previewStyles = `
+  .canvas-version-preview img {
+    object-fit: contain;
+  }
+`;
+
+const textButtonStyle: React.CSSProperties = {
+  border: '1px solid rgba(136, 80, 80, 0.3)',
+  borderRadius: '4px',
+  backgroundColor: 'rgba(255, 255, 255, 0.6)',
+  color: '#885050',
+  fontSize: '11px',
+  padding: '3px 8px',
+  cursor: 'pointer',
+  fontFamily: 'var(--font-system)',
+};
+
+// Saved versions of a canvas, shown from its settings popup: preview one read-only, then restore
+// it over the canvas or as a new canvas
+export const CanvasHistoryPanel: React.FC<CanvasHistoryPanelProps> = ({ canvasId, onClose }) => {
+  const { saveCanvasVersion, restoreCanvasVersion, restoreCanvasVersionAsNew } = useCanvasContext();
+  const { versions, isLoading, error, refresh, loadVersion } = useCanvasVersions(canvasId, true);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [selected, setSelected] = useState<CanvasVersion | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    if (!selectedId) {
+      setSelected(null);
+      return;
+    }
+
+    let cancelled = false;
+    setSelected(null);
+    setPreviewError(null);
+    loadVersion(selectedId)
+      .then((version) => {
+        if (!cancelled) setSelected(version);
+      })
+      .catch(() => {
+        if (!cancelled) setPreviewError('Could not load this version');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedId, loadVersion]);
+
+  const handleSaveNow = async () => {
+    setIsBusy(true);
+    if (await saveCanvasVersion(canvasId)) refresh();
+    setIsBusy(false);
+  };
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    if (!confirm('Replace this canvas with the selected version? Its current state is kept in the history.')) return;
+
+    setIsBusy(true);
+    const restored = await restoreCanvasVersion(canvasId, selected.id);
+    setIsBusy(false);
+    if (restored) onClose();
+  };
+
+  const handleRestoreAsNew = async () => {
+    if (!selected) return;
+
+    setIsBusy(true);
+    try {
+      await restoreCanvasVersionAsNew(canvasId, selected.id);
+      onClose();
+    } catch {
+      // The canvas manager reports the error
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const snapshot = (selected?.data as CanvasState | undefined)?.snapshot;
+
+  return (
+    <div
+      style={{
+        width: '260px',
+        padding: '8px',
+        backgroundColor: 'rgba(255, 255, 255, 0.85)',
+        backdropFilter: 'blur(10px)',
+        WebkitBackdropFilter: 'blur(10px)',
+        boxShadow: '-2px -2px 10px rgba(255, 248, 220, 0.8), 3px 3px 10px rgba(255, 69, 0, 0.3)',
+        borderRadius: '6px',
+        border: '1px solid var(--color-panel-contrast)',
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '8px',
+        fontFamily: 'var(--font-system)',
+        color: '#885050',
+      }}
+    >
+      <style>{previewStyles}</style>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <span style={{ fontSize: '12px', fontWeight: 600 }}>History</span>
+        <button onClick={handleSaveNow} disabled={isBusy} style={textButtonStyle}>
+          Save version now
+        </button>
+      </div>
+
+      <div style={{ maxHeight: '160px', overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: '2px' }}>
+        {isLoading && versions.length === 0 && (
+          <span style={{ fontSize: '11px', opacity: 0.6 }}>Loading versions…</span>
+        )}
+        {error && <span style={{ fontSize: '11px', opacity: 0.6 }}>{error}</span>}
+        {!isLoading && !error && versions.length === 0 && (
+          <span style={{ fontSize: '11px', opacity: 0.6 }}>
+            No versions yet. One is kept every few minutes while you edit.
+          </span>
+        )}
+        {versions.map((version) => (
+          <button
+            key={version.id}
+            onClick={() => setSelectedId(version.id)}
+            style={{
+              display: 'flex',
+              justifyContent: 'space-between',
+              alignItems: 'baseline',
+              gap: '8px',
+              padding: '4px 6px',
+              border: 'none',
+              borderRadius: '4px',
+              backgroundColor: version.id === selectedId ? 'rgba(136, 80, 80, 0.12)' : 'transparent',
+              color: 'inherit',
+              cursor: 'pointer',
+              textAlign: 'left',
+              fontFamily: 'inherit',
+            }}
+          >
+            <span style={{ fontSize: '11px' }}>
+              {formatVersionTime(version.created_at)}
+              <span style={{ display: 'block', fontSize: '10px', opacity: 0.6 }}>
+                {getVersionReasonLabel(version.reason)}
+              </span>
+            </span>
+            <span style={{ fontSize: '10px', opacity: 0.7, whiteSpace: 'nowrap' }}>
+              {version.shape_count} shape{version.shape_count === 1 ? '' : 's'}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      {selectedId && (
+        <>
+          <div
+            className="canvas-version-preview"
+            style={{
+              height: '140px',
+              borderRadius: '4px',
+              backgroundColor: 'white',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              overflow: 'hidden',
+            }}
+          >
+            {previewError ? (
+              <span style={{ fontSize: '11px', opacity: 0.6 }}>{previewError}</span>
+            ) : snapshot ? (
+              <TldrawImage
+                snapshot={snapshot}
+                shapeUtils={customShapeUtils}
+                bindingUtils={customBindingUtils}
+                format="svg"
+              />
+            ) : (
+              <span style={{ fontSize: '11px', opacity: 0.6 }}>{selected ? 'Empty canvas' : 'Loading preview…'}</span>
+            )}
+          </div>
+          <div style={{ display: 'flex', gap: '6px', justifyContent: 'flex-end' }}>
+            <button onClick={handleRestoreAsNew} disabled={!selected || isBusy} style={textButtonStyle}>
+              Restore as new canvas
+            </button>
+            <button onClick={handleRestore} disabled={!selected || isBusy} style={textButtonStyle}>
+              Restore
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,69 @@
+import React from 'react';
+import { useEditor, useValue } from 'tldraw';
+import { usePoseCatalog } from '../hooks/usePoseCatalog';
+import { getPoseIdFromShape } from '../utils/svg-pose-parser';
+import { getOpenDetailShape, swapPoseVariation } from '../utils/pose-details';
+import { PoseDetailCard } from './PoseDetailCard';
+import type { YogaPoseSvgShape } from '../shapes';
+
+// Detail card for a placed pose, opened from the context menu; swaps variations in place
+export const CanvasPoseDetailCard: React.FC = () => {
+  const editor = useEditor();
+  const { poses } = usePoseCatalog();
+  const openShape = getOpenDetailShape(editor);
+
+  const target = useValue('pose detail target', () => {
+    const shapeId = openShape.get();
+    if (!shapeId) return null;
+
+    const shape = editor.getShape<YogaPoseSvgShape>(shapeId);
+    const bounds = shape && editor.getShapePageBounds(shape);
+    if (!shape || !bounds) return null;
+
+    const anchor = editor.pageToViewport({ x: bounds.minX, y: bounds.maxY });
+    return {
+      shapeId,
+      poseId: getPoseIdFromShape(shape),
+      variant: shape.type === 'yoga-pose-svg' ? shape.props.variant : '',
+      x: anchor.x,
+      y: anchor.y
+    };
+  }, [editor, openShape]);
+
+  const pose = target && poses.find(p => p.id === target.poseId);
+  if (!target || !pose) return null;
+
+  const close = () => openShape.set(null);
+
+  return (
+    <div
+      className="tlui-panel"
+      style={{
+        position: 'absolute',
+        left: target.x,
+        top: target.y + 12,
+        width: '320px',
+        maxHeight: '360px',
+        display: 'flex',
+        flexDirection: 'column',
+        backgroundColor: 'var(--color-panel)',
+        borderRadius: '12px',
+        boxShadow: '0px 0px 2px hsl(0, 0%, 0%, 16%), 0px 2px 3px hsl(0, 0%, 0%, 24%), 0px 2px 6px hsl(0, 0%, 0%, 0.1)',
+        pointerEvents: 'all',
+        zIndex: 300
+      }}
+      onPointerDown={(e) => e.stopPropagation()}
+      onKeyDown={(e) => {
+        if (e.key === 'Escape') close();
+      }}
+    >
+      <PoseDetailCard
+        pose={pose}
+        activeVariant={target.variant}
+        actionLabel="Use"
+        onSelectVariation={(variation) => swapPoseVariation(editor, target.shapeId, pose, variation)}
+        onClose={close}
+      />
+    </div>
+  );
+};
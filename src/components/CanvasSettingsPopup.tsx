@@ -1,6 +1,9 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { createPortal } from 'react-dom';
+import { History, Users } from 'lucide-react';
 import { RenameIcon, DuplicateIcon, DeleteIcon } from '../assets/svg';
+import { CanvasHistoryPanel } from './CanvasHistoryPanel';
+import { useCanvasContext } from '../contexts/CanvasContext';
 
 interface IconButtonProps {
   onClick: () => void;
@@ -42,6 +45,7 @@ const IconButton: React.FC<IconButtonProps> = ({ onClick, title, children }) =>
 );
 
 interface CanvasSettingsPopupProps {
+  canvasId: string;
   isOpen: boolean;
   onClose: () => void;
   onRename: () => void;
@@ -52,6 +56,7 @@ interface CanvasSettingsPopupProps {
 }
 
 export const CanvasSettingsPopup: React.FC<CanvasSettingsPopupProps> = ({
+  canvasId,
   isOpen,
   onClose,
   onRename,
@@ -62,12 +67,19 @@ export const CanvasSettingsPopup: React.FC<CanvasSettingsPopupProps> = ({
 }) => {
   const popupRef = useRef<HTMLDivElement>(null);
   const [position, setPosition] = useState({ top: 0, left: 0 });
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const { startCollaboration } = useCanvasContext();
+
+  // The history starts closed each time the popup opens
+  useEffect(() => {
+    if (!isOpen) setIsHistoryOpen(false);
+  }, [isOpen]);
 
   // Calculate position when popup opens
   useEffect(() => {
     if (isOpen && triggerRef.current) {
       const triggerRect = triggerRef.current.getBoundingClientRect();
-      const popupWidth = 76; // 3 buttons * 20px + 2 gaps * 4px + 4px padding * 2
+      const popupWidth = 124; // 5 buttons * 20px + 4 gaps * 4px + 4px padding * 2
       const viewportWidth = window.innerWidth;
       
       // Check if popup would go off-screen to the right
@@ -101,9 +113,9 @@ export const CanvasSettingsPopup: React.FC<CanvasSettingsPopupProps> = ({
     }
   }, [isOpen, onClose, triggerRef]);
 
-  // Handle hover behavior for hover-triggered popups
+  // Handle hover behavior for hover-triggered popups; an open history stays until clicked away
   useEffect(() => {
-    if (!isHoverTriggered || !isOpen) return;
+    if (!isHoverTriggered || !isOpen || isHistoryOpen) return;
 
     let closeTimeout: NodeJS.Timeout | null = null;
 
@@ -141,7 +153,7 @@ export const CanvasSettingsPopup: React.FC<CanvasSettingsPopupProps> = ({
         }
       };
     }
-  }, [isOpen, isHoverTriggered, onClose, triggerRef]);
+  }, [isOpen, isHoverTriggered, isHistoryOpen, onClose, triggerRef]);
 
   if (!isOpen) return null;
 
@@ -157,32 +169,53 @@ export const CanvasSettingsPopup: React.FC<CanvasSettingsPopupProps> = ({
         position: 'fixed',
         top: position.top,
         left: position.left,
-        backgroundColor: 'rgba(255, 255, 255, 0.15)',
-        backdropFilter: 'blur(10px)',
-        WebkitBackdropFilter: 'blur(10px)',
-        boxShadow: '-2px -2px 10px rgba(255, 248, 220, 0.8), 3px 3px 10px rgba(255, 69, 0, 0.3)',
-        borderRadius: '6px',
-        padding: '0 4px',
-        display: 'flex',
-        flexDirection: 'row',
-        gap: '4px',
         zIndex: 1000,
-        border: '1px solid var(--color-panel-contrast)',
-        height: '36px',
-        alignItems: 'center',
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '6px',
       }}
     >
-      <IconButton onClick={() => handleAction(onRename)} title="Rename canvas">
-        <RenameIcon style={{ width: '16px', height: '16px' }} />
-      </IconButton>
-
-      <IconButton onClick={() => handleAction(onDuplicate)} title="Duplicate canvas">
-        <DuplicateIcon style={{ width: '16px', height: '16px' }} />
-      </IconButton>
-
-      <IconButton onClick={() => handleAction(onDelete)} title="Delete canvas">
-        <DeleteIcon style={{ width: '16px', height: '16px' }} />
-      </IconButton>
+      <div
+        style={{
+          alignSelf: 'flex-start',
+          backgroundColor: 'rgba(255, 255, 255, 0.15)',
+          backdropFilter: 'blur(10px)',
+          WebkitBackdropFilter: 'blur(10px)',
+          boxShadow: '-2px -2px 10px rgba(255, 248, 220, 0.8), 3px 3px 10px rgba(255, 69, 0, 0.3)',
+          borderRadius: '6px',
+          padding: '0 4px',
+          display: 'flex',
+          flexDirection: 'row',
+          gap: '4px',
+          border: '1px solid var(--color-panel-contrast)',
+          height: '36px',
+          alignItems: 'center',
+        }}
+      >
+        <IconButton onClick={() => handleAction(onRename)} title="Rename canvas">
+          <RenameIcon style={{ width: '16px', height: '16px' }} />
+        </IconButton>
+
+        <IconButton onClick={() => handleAction(onDuplicate)} title="Duplicate canvas">
+          <DuplicateIcon style={{ width: '16px', height: '16px' }} />
+        </IconButton>
+
+        <IconButton onClick={() => setIsHistoryOpen(open => !open)} title="Version history">
+          <History style={{ width: '16px', height: '16px' }} />
+        </IconButton>
+
+        {startCollaboration && (
+          <IconButton onClick={() => handleAction(() => void startCollaboration(canvasId))} title="Plan together">
+            <Users style={{ width: '16px', height: '16px' }} />
+          </IconButton>
+        )}
+
+        <IconButton onClick={() => handleAction(onDelete)} title="Delete canvas">
+          <DeleteIcon style={{ width: '16px', height: '16px' }} />
+        </IconButton>
+      </div>
+
+      {isHistoryOpen && <CanvasHistoryPanel canvasId={canvasId} onClose={onClose} />}
     </div>
   );
 
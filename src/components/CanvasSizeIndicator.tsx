@@ -0,0 +1,45 @@
+import React from 'react';
+import type { CanvasSize } from '../hooks/useCanvasManager';
+import { CanvasSizeStatus } from '../types/canvas-encoding';
+import { CANVAS_DATA_MAX_BYTES, formatCanvasSize } from '../utils/canvas-encoding';
+
+interface CanvasSizeIndicatorProps {
+  size: CanvasSize | null;
+}
+
+// Warns next to the Flows heading when the flow being edited nears or passes the size limit
+export const CanvasSizeIndicator: React.FC<CanvasSizeIndicatorProps> = ({ size }) => {
+  if (!size || size.status === CanvasSizeStatus.OK) return null;
+
+  const isOverLimit = size.status === CanvasSizeStatus.OVER_LIMIT;
+  const label = isOverLimit ? 'Too large to save' : `Large flow · ${formatCanvasSize(size.bytes)}`;
+  const title = isOverLimit
+    ? `This flow is ${formatCanvasSize(size.bytes)} and can't be saved over ${formatCanvasSize(CANVAS_DATA_MAX_BYTES)}. Remove some shapes or split it into another flow.`
+    : `This flow is ${formatCanvasSize(size.bytes)} of the ${formatCanvasSize(CANVAS_DATA_MAX_BYTES)} a flow can hold`;
+
+  return (
+    <span
+      title={title}
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: '4px',
+        fontSize: '10px',
+        color: isOverLimit ? '#c0392b' : '#885050',
+        opacity: isOverLimit ? 1 : 0.7,
+        fontFamily: 'var(--font-system)',
+        whiteSpace: 'nowrap',
+      }}
+    >
+      <span
+        style={{
+          width: '6px',
+          height: '6px',
+          borderRadius: '50%',
+          backgroundColor: isOverLimit ? '#c0392b' : '#d9a441',
+        }}
+      />
+      {label}
+    </span>
+  );
+};
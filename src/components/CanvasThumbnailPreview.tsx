@@ -0,0 +1,52 @@
+import React, { useState, useEffect } from 'react';
+import { createPortal } from 'react-dom';
+
+interface CanvasThumbnailPreviewProps {
+  thumbnail: string;
+  title: string;
+  anchorRef: React.RefObject<HTMLElement | null>;
+}
+
+const PREVIEW_WIDTH = 200;
+
+// Thumbnail of a canvas shown beside its sidebar row while hovering
+export const CanvasThumbnailPreview: React.FC<CanvasThumbnailPreviewProps> = ({ thumbnail, title, anchorRef }) => {
+  const [position, setPosition] = useState<{ top: number; left: number } | null>(null);
+
+  useEffect(() => {
+    if (!anchorRef.current) return;
+    const rect = anchorRef.current.getBoundingClientRect();
+    // Same flip as the settings popup when there's no room on the right
+    const wouldGoOffScreen = rect.right + 12 + PREVIEW_WIDTH > window.innerWidth;
+    setPosition({
+      top: rect.top,
+      left: wouldGoOffScreen ? rect.left - 12 - PREVIEW_WIDTH : rect.right + 12,
+    });
+  }, [anchorRef]);
+
+  if (!position) return null;
+
+  return createPortal(
+    <div
+      style={{
+        position: 'fixed',
+        top: position.top,
+        left: position.left,
+        width: `${PREVIEW_WIDTH}px`,
+        padding: '4px',
+        backgroundColor: 'white',
+        borderRadius: '8px',
+        boxShadow: '0 4px 12px rgba(0, 0, 0, 0.15)',
+        pointerEvents: 'none',
+        zIndex: 1000,
+      }}
+    >
+      <img
+        src={thumbnail}
+        alt={`Preview of ${title}`}
+        style={{ display: 'block', width: '100%', maxHeight: '140px', objectFit: 'contain', borderRadius: '4px' }}
+      />
+    </div>,
+    document.body
+  );
+};
@@ -0,0 +1,39 @@
+import React from 'react';
+import { useEditor } from 'tldraw';
+import { useClassTime } from '../hooks/useClassTime';
+import { useFlowSequence } from '../hooks/useFlowSequence';
+import { formatClassTime } from '../utils/pose-timing';
+
+// Running total class time for the current page, shown at the top of the canvas, with the poses
+// left out of an arrow-connected flow
+export const ClassTimeIndicator: React.FC = () => {
+  const editor = useEditor();
+  const { totalSeconds, poseCount, untimedCount } = useClassTime(editor);
+  const { steps, orphans } = useFlowSequence(editor);
+
+  if (poseCount === 0) return null;
+
+  return (
+    <div
+      className="tlui-panel"
+      title={untimedCount > 0 ? `${untimedCount} pose${untimedCount === 1 ? ' has' : 's have'} no hold time yet` : undefined}
+      style={{
+        margin: '8px',
+        padding: '6px 12px',
+        fontSize: '12px',
+        color: 'var(--color-text)',
+        backgroundColor: 'var(--color-panel)',
+        borderRadius: '12px',
+        pointerEvents: 'all',
+        whiteSpace: 'nowrap'
+      }}
+    >
+      Total class time <strong>{formatClassTime(totalSeconds)}</strong>
+      <span style={{ color: 'var(--color-text-3)' }}>
+        {' · '}{poseCount} pose{poseCount === 1 ? '' : 's'}
+        {untimedCount > 0 && ` (${untimedCount} untimed)`}
+        {orphans.length > 0 && ` · ${orphans.length} not in the ${steps.length}-step flow`}
+      </span>
+    </div>
+  );
+};
@@ -0,0 +1,125 @@
+import React, { useCallback, useState } from 'react';
+import { useValue, type Editor } from 'tldraw';
+import { useCloudSync } from '../hooks/useCloudSync';
+import { TldrawCanvas } from './TldrawCanvas';
+
+interface CollaborativeCanvasProps {
+  roomId: string;
+  userId?: string;
+  userName?: string;
+  // Whether this user joined someone else's flow rather than sharing their own
+  isGuest: boolean;
+  onMount: (editor: Editor) => void;
+  onStop: () => void;
+}
+
+// A link that opens the room in someone else's planner
+const getCollaborationLink = (roomId: string) => {
+  const url = new URL(window.location.href);
+  url.search = new URLSearchParams({ room: roomId }).toString();
+  return url.toString();
+};
+
+const barButtonStyle: React.CSSProperties = {
+  border: '1px solid rgba(136, 80, 80, 0.3)',
+  borderRadius: '4px',
+  backgroundColor: 'rgba(255, 255, 255, 0.6)',
+  color: '#885050',
+  fontSize: '11px',
+  padding: '2px 8px',
+  cursor: 'pointer',
+  fontFamily: 'var(--font-system)',
+};
+
+// The editor for a flow being planned together. Everyone in the room edits the same synced store,
+// and tldraw draws the others' cursors with their names; the bar above says who is here and
+// whether the connection holds.
+export const CollaborativeCanvas: React.FC<CollaborativeCanvasProps> = ({
+  roomId,
+  userId,
+  userName,
+  isGuest,
+  onMount,
+  onStop,
+}) => {
+  const { storeWithStatus, getSyncStatus } = useCloudSync({ roomId, userId, userName });
+  const [editor, setEditor] = useState<Editor | null>(null);
+  const [isLinkCopied, setIsLinkCopied] = useState(false);
+
+  const collaborators = useValue(
+    'collaborators',
+    () => editor?.getCollaborators().map(presence => presence.userName || 'Someone') ?? [],
+    [editor]
+  );
+
+  const handleMount = useCallback((mountedEditor: Editor) => {
+    setEditor(mountedEditor);
+    onMount(mountedEditor);
+  }, [onMount]);
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(getCollaborationLink(roomId));
+      setIsLinkCopied(true);
+      setTimeout(() => setIsLinkCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy collaboration link:', error);
+    }
+  };
+
+  const status = getSyncStatus();
+  const [label, color] = status.hasError
+    ? [`Can't connect${status.error ? `: ${status.error.message}` : ''}`, '#c0392b']
+    : status.isOffline
+      ? ['Reconnecting… edits will sync when back', '#b0b0b0']
+      : status.isSyncing
+        ? ['Connecting…', '#d9a441']
+        : ['Live', '#4caf50'];
+
+  return (
+    <div style={{ position: 'relative', width: '100%', height: '100%' }}>
+      <TldrawCanvas store={storeWithStatus} onMount={handleMount} />
+      <div
+        role="status"
+        style={{
+          position: 'absolute',
+          top: '8px',
+          left: '50%',
+          transform: 'translateX(-50%)',
+          zIndex: 400,
+          display: 'flex',
+          alignItems: 'center',
+          gap: '8px',
+          padding: '4px 8px',
+          backgroundColor: 'rgba(255, 255, 255, 0.85)',
+          border: '1px solid var(--color-divider)',
+          borderRadius: '8px',
+          fontSize: '11px',
+          color: '#885050',
+          fontFamily: 'var(--font-system)',
+          whiteSpace: 'nowrap',
+        }}
+      >
+        <span style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+          <span style={{ width: '6px', height: '6px', borderRadius: '50%', backgroundColor: color }} />
+          {label}
+        </span>
+        <span style={{ opacity: 0.7 }}>
+          {collaborators.length > 0 ? `With ${collaborators.join(', ')}` : 'Only you so far'}
+        </span>
+        <button onClick={handleCopyLink} style={barButtonStyle} title="Anyone with the link can edit this flow">
+          {isLinkCopied ? 'Copied' : 'Copy link'}
+        </button>
+        <button
+          onClick={onStop}
+          style={barButtonStyle}
+          title={isGuest
+            ? 'Go back to your own flows'
+            : 'Go back to editing alone; changes made in the room after you leave aren\'t saved to this flow'}
+        >
+          Leave
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,5 +1,6 @@
 import { useLayoutEffect, useRef } from 'react';
 import { useEditor, useValue, useIsDarkMode } from 'tldraw';
+import { GRID_DOT_MULTIPLIER } from '../utils/flow-layout';
 
 // Custom grid component with subtle dots
 export const CustomGrid = ({ size, ...camera }: any) => {
@@ -22,7 +23,7 @@ export const CustomGrid = ({ size, ...camera }: any) => {
     ctx.clearRect(0, 0, canvasW, canvasH);
 
     // Use a larger grid size for more distance between dots
-    const gridSize = size * 2;
+    const gridSize = size * GRID_DOT_MULTIPLIER;
 
     const pageViewportBounds = editor.getViewportPageBounds();
     const startPageX = Math.ceil(pageViewportBounds.minX / gridSize) * gridSize;
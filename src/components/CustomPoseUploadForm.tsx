@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { yogaCategories } from '../assets/yoga-flows';
+import type { Category, SubCategory } from '../types/category';
+import type { NewCustomPoseInput } from '../hooks/useCustomPoses';
+
+interface CustomPoseUploadFormProps {
+  defaultCategory: Category;
+  defaultSubCategory?: SubCategory;
+  onSubmit: (input: NewCustomPoseInput) => Promise<unknown>;
+  onCancel: () => void;
+}
+
+const fieldStyle: React.CSSProperties = {
+  fontSize: '12px',
+  padding: '6px 8px',
+  border: '1px solid var(--color-panel-contrast)',
+  borderRadius: '8px',
+  backgroundColor: 'var(--color-panel)',
+  color: 'var(--color-text)',
+  minWidth: 0,
+};
+
+const buttonStyle: React.CSSProperties = {
+  fontSize: '12px',
+  padding: '6px 12px',
+  border: 'none',
+  borderRadius: '12px',
+  cursor: 'pointer',
+  transition: 'all 0.1s ease',
+};
+
+// Upload form for adding a hand-drawn SVG to the user's own pose library
+export const CustomPoseUploadForm: React.FC<CustomPoseUploadFormProps> = ({
+  defaultCategory,
+  defaultSubCategory,
+  onSubmit,
+  onCancel,
+}) => {
+  const [file, setFile] = useState<File | null>(null);
+  const [name, setName] = useState('');
+  const [indianName, setIndianName] = useState('');
+  const [category, setCategory] = useState<Category>(defaultCategory);
+  const [subCategory, setSubCategory] = useState<SubCategory | undefined>(defaultSubCategory);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const subCategories = yogaCategories.find(cat => cat.category === category)?.subCategories ?? [];
+
+  const handleCategoryChange = (value: Category) => {
+    setCategory(value);
+    const next = yogaCategories.find(cat => cat.category === value)?.subCategories ?? [];
+    setSubCategory(next.length > 0 ? next[0].subCategory : undefined);
+  };
+
+  const handleFileChange = (selected: File | null) => {
+    setFile(selected);
+    setError(null);
+    // Prefill the name from the file name, which is usually the pose name
+    if (selected && !name) {
+      setName(selected.name.replace(/\.svg$/i, '').replace(/[-_]+/g, ' ').trim());
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) {
+      setError('Choose an SVG file to upload');
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const svgText = await file.text();
+      await onSubmit({ svgText, name, indianName, category, subCategory });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to upload pose');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      style={{ display: 'flex', flexDirection: 'column', gap: '6px', padding: '4px' }}
+    >
+      <input
+        type="file"
+        accept=".svg,image/svg+xml"
+        onChange={(e) => handleFileChange(e.target.files?.[0] ?? null)}
+        style={{ fontSize: '12px', color: 'var(--color-text)' }}
+      />
+      <div style={{ display: 'flex', gap: '6px' }}>
+        <input
+          type="text"
+          placeholder="Name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          style={{ ...fieldStyle, flex: 1 }}
+        />
+        <input
+          type="text"
+          placeholder="Sanskrit name"
+          value={indianName}
+          onChange={(e) => setIndianName(e.target.value)}
+          style={{ ...fieldStyle, flex: 1 }}
+        />
+      </div>
+      <div style={{ display: 'flex', gap: '6px' }}>
+        <select
+          value={category}
+          onChange={(e) => handleCategoryChange(Number(e.target.value) as Category)}
+          style={{ ...fieldStyle, flex: 1 }}
+        >
+          {yogaCategories.map(cat => (
+            <option key={cat.category} value={cat.category}>{cat.title}</option>
+          ))}
+        </select>
+        {subCategories.length > 0 && (
+          <select
+            value={subCategory ?? ''}
+            onChange={(e) => setSubCategory(Number(e.target.value) as SubCategory)}
+            style={{ ...fieldStyle, flex: 1 }}
+          >
+            {subCategories.map(subCat => (
+              <option key={subCat.subCategory} value={subCat.subCategory}>{subCat.title}</option>
+            ))}
+          </select>
+        )}
+      </div>
+      {error && (
+        <div style={{ fontSize: '12px', color: 'var(--color-warn)' }}>{error}</div>
+      )}
+      <div style={{ display: 'flex', gap: '6px', justifyContent: 'flex-end' }}>
+        <button
+          type="button"
+          onClick={onCancel}
+          style={{ ...buttonStyle, backgroundColor: 'transparent', color: 'var(--color-text)' }}
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isSaving}
+          style={{
+            ...buttonStyle,
+            backgroundColor: 'hsl(0 0% 94%)',
+            color: 'var(--color-text)',
+            opacity: isSaving ? 0.6 : 1,
+          }}
+        >
+          {isSaving ? 'Uploading...' : 'Add pose'}
+        </button>
+      </div>
+    </form>
+  );
+};
@@ -5,6 +5,7 @@ import { CSS } from '@dnd-kit/utilities';
 import { EditableCanvasTitle } from './EditableCanvasTitle';
 import { CanvasSettingsPopup } from './CanvasSettingsPopup';
 import { CanvasDissolveAnimation } from './CanvasDissolveAnimation';
+import { CanvasThumbnailPreview } from './CanvasThumbnailPreview';
 import { useSidebarAnimationListener } from '../hooks/useSidebarAnimationEvents';
 
 interface Canvas {
@@ -12,6 +13,7 @@ interface Canvas {
   title: string;
   folderId?: string | null;
   createdAt?: Date;
+  thumbnail?: string;
 }
 
 interface DraggableCanvasRowProps {
@@ -48,8 +50,11 @@ export const DraggableCanvasRow: React.FC<DraggableCanvasRowProps> = React.memo(
   const [isHoverTriggered, setIsHoverTriggered] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const [isHovered, setIsHovered] = useState(false);
+  const [isPreviewVisible, setIsPreviewVisible] = useState(false);
   const settingsButtonRef = useRef<HTMLDivElement>(null);
+  const rowRef = useRef<HTMLDivElement | null>(null);
   const hoverTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const previewTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   // Memoize the sortable data to prevent infinite re-renders
   // Only include essential data that doesn't change during drag operations
   // NOTE: We don't include 'index' to avoid confusion between SortableContext indices and database sort_order
@@ -105,12 +110,29 @@ export const DraggableCanvasRow: React.FC<DraggableCanvasRowProps> = React.memo(
     setIsHoverTriggered(false);
   };
 
+  // Show the thumbnail preview after a short hover, like the settings popup
+  const showPreviewSoon = () => {
+    if (!canvas.thumbnail) return;
+    previewTimeoutRef.current = setTimeout(() => setIsPreviewVisible(true), 400);
+  };
+
+  const hidePreview = () => {
+    if (previewTimeoutRef.current) {
+      clearTimeout(previewTimeoutRef.current);
+      previewTimeoutRef.current = null;
+    }
+    setIsPreviewVisible(false);
+  };
+
   // Cleanup timeout on unmount
   useEffect(() => {
     return () => {
       if (hoverTimeoutRef.current) {
         clearTimeout(hoverTimeoutRef.current);
       }
+      if (previewTimeoutRef.current) {
+        clearTimeout(previewTimeoutRef.current);
+      }
     };
   }, []);
 
@@ -141,7 +163,10 @@ export const DraggableCanvasRow: React.FC<DraggableCanvasRowProps> = React.memo(
 
   const canvasElement = (
     <div
-      ref={setNodeRef}
+      ref={(node) => {
+        setNodeRef(node);
+        rowRef.current = node;
+      }}
       style={{
         ...style,
         width: '100%',
@@ -187,6 +212,7 @@ export const DraggableCanvasRow: React.FC<DraggableCanvasRowProps> = React.memo(
       {...(isEditing ? {} : listeners)}
       onMouseLeave={() => {
         setIsHovered(false);
+        hidePreview();
         // Reset background color on mouse leave
         if (!isCurrent && !isEditing && !isDragging) {
           // Background color will be reset by CSS
@@ -194,11 +220,13 @@ export const DraggableCanvasRow: React.FC<DraggableCanvasRowProps> = React.memo(
       }}
       onMouseEnter={() => {
         setIsHovered(true);
+        showPreviewSoon();
         if (!isCurrent && !isEditing && !isDragging) {
           // Background color will be set by CSS hover state
         }
       }}
       onClick={() => {
+        hidePreview();
         if (!isEditing && !isDragging) {
           onSwitch(canvas.id);
         }
@@ -284,8 +312,14 @@ export const DraggableCanvasRow: React.FC<DraggableCanvasRowProps> = React.memo(
         {canvasElement}
       </CanvasDissolveAnimation>
       
+      {/* Thumbnail preview - hidden while dragging, renaming or with the settings open */}
+      {isPreviewVisible && canvas.thumbnail && !isDragging && !isEditing && !isPopupOpen && !isDeleting && (
+        <CanvasThumbnailPreview thumbnail={canvas.thumbnail} title={canvas.title} anchorRef={rowRef} />
+      )}
+
       {/* Canvas Settings Popup - rendered via portal */}
       <CanvasSettingsPopup
+        canvasId={canvas.id}
         isOpen={isPopupOpen}
         onClose={() => setIsPopupOpen(false)}
         onRename={() => onStartEdit(canvas.id)}
@@ -5,13 +5,17 @@ import { useAuthContext } from '../hooks/useAuthContext';
 import { useCanvasManager } from '../hooks/useCanvasManager';
 import { useAutoSidebar } from '../hooks/useAutoSidebar';
 import { CanvasProvider } from '../contexts/CanvasContext';
+import { PoseCatalogProvider } from './PoseCatalogProvider';
 import { FlowSidebar } from './FlowSidebar';
 import { TldrawCanvas } from './TldrawCanvas';
 import { SidebarIndicator } from './SidebarIndicator';
+import { CanvasConflictPrompt } from './CanvasConflictPrompt';
+import { CollaborativeCanvas } from './CollaborativeCanvas';
+import { isCollaborationAvailable } from '../lib/syncServer';
 import { flowPlannerStyles, canvasStyles } from '../styles/FlowPlannerStyles';
 
 export const FlowPlanner: React.FC = () => {
-  const { user: _user } = useAuthContext();
+  const { user: _user, profile } = useAuthContext();
   const [sidebarVisible, setSidebarVisible] = useState(true);
   const editorRef = useRef<Editor | null>(null);
   const [editorInstance, setEditorInstance] = useState<Editor | null>(null);
@@ -54,6 +58,19 @@ export const FlowPlanner: React.FC = () => {
   const [openFolders, setOpenFolders] = useState<Set<string>>(new Set());
   const [, setManuallyOpenedFolders] = useState<Set<string>>(new Set());
 
+  // The flow being planned together in a collaboration room. A guest joined someone else's flow
+  // through a link, so their own flows are left alone until they leave
+  const [collaboration, setCollaboration] = useState<{ roomId: string; isGuest: boolean } | null>(null);
+  // A room from a ?room= link, joined once this user's flows have loaded
+  const linkedRoomIdRef = useRef(
+    isCollaborationAvailable ? new URLSearchParams(window.location.search).get('room') : null
+  );
+  // A flow to open once the local editor is back after leaving a room
+  const pendingSwitchRef = useRef<{ canvasId: string; collaborate: boolean } | null>(null);
+  const collaborationRoomId = collaboration && !collaboration.isGuest ? collaboration.roomId : null;
+  // Guests don't load or save their own flows into the room's editor
+  const managedEditor = collaboration?.isGuest ? null : editorInstance;
+
   // Stabilize the options object to prevent useCanvasManager from being recreated
   const canvasManagerOptions = React.useMemo(() => {
     // In development mode, enable Supabase even without a user (RLS is disabled)
@@ -67,11 +84,12 @@ export const FlowPlanner: React.FC = () => {
       defaultCanvasTitle: 'Untitled Flow',
       version: '1.0.0',
       isDeletionInProgressRef: isDeletionInProgressRef,
+      collaborationRoomId,
     };
-  }, [_user?.id, !!_user, isDeletionInProgressRef]);
+  }, [_user?.id, !!_user, isDeletionInProgressRef, collaborationRoomId]);
   
   // Use canvas manager for folder and canvas operations
-  const canvasManager = useCanvasManager(editorInstance, canvasManagerOptions);
+  const canvasManager = useCanvasManager(managedEditor, canvasManagerOptions);
   const {
     folders,
     canvases: managerCanvases,
@@ -82,8 +100,13 @@ export const FlowPlanner: React.FC = () => {
     switchCanvas: switchCanvasInManager,
     deleteCanvas: deleteCanvasInManager,
     duplicateCanvas: duplicateCanvasInManager,
+    canvasConflicts,
+    resolveCanvasConflict,
   } = canvasManager;
 
+  // Conflicts are settled one at a time, oldest first
+  const conflict = canvasConflicts[0];
+
   // Convert manager canvases to the format expected by the UI
   const canvases = React.useMemo(() => {
     return managerCanvases.map(canvas => ({
@@ -92,11 +115,12 @@ export const FlowPlanner: React.FC = () => {
       folderId: canvas.metadata.folderId || null,
       createdAt: canvas.metadata.createdAt,
       sort_order: canvas.metadata.sort_order || 0,
+      thumbnail: canvas.metadata.thumbnail,
     }));
   }, [managerCanvases]);
 
   // Auto-save for the current canvas
-  useAutoSave(editorInstance, {
+  useAutoSave(managedEditor, {
     canvasId: currentCanvasId,
     saveCurrentCanvas: canvasManager.saveCurrentCanvas,
     isLoadingRef: canvasManager.isLoadingRef, // NEW: Pass loading ref to prevent auto-save during loading
@@ -278,7 +302,52 @@ export const FlowPlanner: React.FC = () => {
     }
   };
 
+  // Each room has its own synced editor, so the editor is dropped until the next one mounts
+  const setCollaborationRoom = React.useCallback((next: { roomId: string; isGuest: boolean } | null) => {
+    setEditorInstance(null);
+    setCollaboration(next);
+
+    const url = new URL(window.location.href);
+    if (next) url.searchParams.set('room', next.roomId);
+    else url.searchParams.delete('room');
+    window.history.replaceState(window.history.state, '', url);
+  }, []);
+
+  const endCollaboration = React.useCallback(() => setCollaborationRoom(null), [setCollaborationRoom]);
+
+  // Share a flow in a room, opening it first. Leaving another room comes first, and the rest
+  // waits for the local editor to be back
+  const startCollaboration = React.useCallback(async (canvasId: string) => {
+    if (collaboration) {
+      if (collaboration.roomId !== canvasId) {
+        pendingSwitchRef.current = { canvasId, collaborate: true };
+        endCollaboration();
+      }
+      return;
+    }
+
+    if (canvasId !== currentCanvasId) {
+      try {
+        await switchCanvasInManager(canvasId);
+        setCurrentCanvasId(canvasId);
+      } catch (error) {
+        console.error('Failed to switch canvas:', error);
+        return;
+      }
+    }
+    setCollaborationRoom({ roomId: canvasId, isGuest: false });
+  }, [collaboration, currentCanvasId, switchCanvasInManager, endCollaboration, setCollaborationRoom]);
+
   const handleSwitchCanvas = async (canvasId: string) => {
+    // The room's editor can't show another flow; leave the room, then switch
+    if (collaboration) {
+      if (collaboration.isGuest || canvasId !== collaboration.roomId) {
+        pendingSwitchRef.current = { canvasId, collaborate: false };
+        endCollaboration();
+      }
+      return;
+    }
+
     try {
       await switchCanvasInManager(canvasId);
       setCurrentCanvasId(canvasId);
@@ -287,6 +356,42 @@ export const FlowPlanner: React.FC = () => {
     }
   };
 
+  // Join the room from a link: a flow of this user's own is shared from their planner, anyone
+  // else's is joined as a guest
+  React.useEffect(() => {
+    const roomId = linkedRoomIdRef.current;
+    if (!roomId || !currentCanvas) return;
+    linkedRoomIdRef.current = null;
+
+    if (canvases.some(c => c.id === roomId)) {
+      void startCollaboration(roomId);
+    } else {
+      setCollaborationRoom({ roomId, isGuest: true });
+    }
+  }, [currentCanvas, canvases, startCollaboration, setCollaborationRoom]);
+
+  // Sharing ends when the shared flow stops being the current one, e.g. it was deleted
+  React.useEffect(() => {
+    if (collaborationRoomId && currentCanvasId && currentCanvasId !== collaborationRoomId) {
+      endCollaboration();
+    }
+  }, [collaborationRoomId, currentCanvasId, endCollaboration]);
+
+  // Carry out a switch asked for while in a room, now that the room is left
+  React.useEffect(() => {
+    const pending = pendingSwitchRef.current;
+    if (collaboration || !pending) return;
+    pendingSwitchRef.current = null;
+
+    if (pending.collaborate) {
+      void startCollaboration(pending.canvasId);
+    } else {
+      void switchCanvasInManager(pending.canvasId)
+        .then(() => setCurrentCanvasId(pending.canvasId))
+        .catch(error => console.error('Failed to switch canvas:', error));
+    }
+  }, [collaboration, startCollaboration, switchCanvasInManager]);
+
   const handleMount = (mountedEditor: Editor) => {
     editorRef.current = mountedEditor;
     setEditorInstance(mountedEditor);
@@ -322,89 +427,121 @@ export const FlowPlanner: React.FC = () => {
     canvases,
     currentCanvasId,
     setCurrentCanvasId,
-  }), [canvases, currentCanvasId]);
+    saveCanvasVersion: canvasManager.saveCanvasVersion,
+    restoreCanvasVersion: canvasManager.restoreCanvasVersion,
+    restoreCanvasVersionAsNew: canvasManager.restoreCanvasVersionAsNew,
+    startCollaboration: isCollaborationAvailable ? startCollaboration : null,
+  }), [
+    canvases,
+    currentCanvasId,
+    canvasManager.saveCanvasVersion,
+    canvasManager.restoreCanvasVersion,
+    canvasManager.restoreCanvasVersionAsNew,
+    startCollaboration,
+  ]);
 
   return (
     <>
       <style>{flowPlannerStyles}</style>
       <div className="sunrise-bg" style={{ minHeight: '100vh', width: '100vw' }}>
         <CanvasProvider value={canvasContextValue}>
-          <div 
-            className="tldraw__editor h-screen w-screen"
-            style={{
-              display: 'flex',
-              width: '100vw',
-              height: '100vh',
-              padding: sidebarVisible ? '0px' : '40px',
-              backgroundColor: 'transparent',
-              boxSizing: 'border-box',
-              position: 'relative',
-              transition: 'padding 0.2s ease-in-out',
-            }}
-          >
-            {/* Sidebar Area (left padding when sidebar is collapsed) */}
-            {!sidebarVisible && (
+          <PoseCatalogProvider>
+            <div 
+              className="tldraw__editor h-screen w-screen"
+              style={{
+                display: 'flex',
+                width: '100vw',
+                height: '100vh',
+                padding: sidebarVisible ? '0px' : '40px',
+                backgroundColor: 'transparent',
+                boxSizing: 'border-box',
+                position: 'relative',
+                transition: 'padding 0.2s ease-in-out',
+              }}
+            >
+              {/* Sidebar Area (left padding when sidebar is collapsed) */}
+              {!sidebarVisible && (
+                <div
+                  style={{
+                    position: 'absolute',
+                    left: 0,
+                    top: 0,
+                    width: '40px',
+                    height: '100vh',
+                    zIndex: 1000,
+                    backgroundColor: 'transparent',
+                  }}
+                  onMouseEnter={autoSidebar.handleSidebarAreaMouseEnter}
+                  onMouseLeave={autoSidebar.handleSidebarAreaMouseLeave}
+                >
+                  <SidebarIndicator
+                    sidebarVisible={sidebarVisible}
+                  />
+                </div>
+              )}
+              {/* Sidebar */}
               <div
-                style={{
-                  position: 'absolute',
-                  left: 0,
-                  top: 0,
-                  width: '40px',
-                  height: '100vh',
-                  zIndex: 1000,
-                  backgroundColor: 'transparent',
-                }}
-                onMouseEnter={autoSidebar.handleSidebarAreaMouseEnter}
-                onMouseLeave={autoSidebar.handleSidebarAreaMouseLeave}
+                onMouseEnter={autoSidebar.handleSidebarMouseEnter}
+                onMouseLeave={autoSidebar.handleSidebarMouseLeave}
               >
-                <SidebarIndicator
+                <FlowSidebar
                   sidebarVisible={sidebarVisible}
+                  canvasManager={{
+                    ...canvasManager,
+                    createCanvas: createCanvasWithProgress,
+                    duplicateCanvas: duplicateCanvasWithProgress,
+                  }}
+                  canvases={canvases}
+                  folders={folders}
+                  currentCanvasId={currentCanvasId}
+                  editingCanvasId={editingCanvasId}
+                  setEditingCanvasId={setEditingCanvasId}
+                  onSwitchCanvas={handleSwitchCanvas}
+                  onDeleteCanvas={handleDeleteCanvas}
+
+                  onDuplicateCanvas={duplicateCanvasWithProgress}
+                  onUpdateCanvas={updateCanvas}
+                  openFolders={openFolders}
+                  setOpenFolders={setOpenFolders}
+                  setManuallyOpenedFolders={setManuallyOpenedFolders}
+                  isDragInProgressRef={isDragInProgressRef}
+                  isDeletionInProgress={isDeletionInProgress}
                 />
               </div>
-            )}
-            {/* Sidebar */}
-            <div
-              onMouseEnter={autoSidebar.handleSidebarMouseEnter}
-              onMouseLeave={autoSidebar.handleSidebarMouseLeave}
-            >
-              <FlowSidebar
-                sidebarVisible={sidebarVisible}
-                canvasManager={{
-                  ...canvasManager,
-                  createCanvas: createCanvasWithProgress,
-                  duplicateCanvas: duplicateCanvasWithProgress,
-                }}
-                canvases={canvases}
-                folders={folders}
-                currentCanvasId={currentCanvasId}
-                editingCanvasId={editingCanvasId}
-                setEditingCanvasId={setEditingCanvasId}
-                onSwitchCanvas={handleSwitchCanvas}
-                onDeleteCanvas={handleDeleteCanvas}
-
-                onDuplicateCanvas={duplicateCanvasWithProgress}
-                onUpdateCanvas={updateCanvas}
-                openFolders={openFolders}
-                setOpenFolders={setOpenFolders}
-                setManuallyOpenedFolders={setManuallyOpenedFolders}
-                isDragInProgressRef={isDragInProgressRef}
-                isDeletionInProgress={isDeletionInProgress}
-              />
-            </div>
 
-            {/* Canvas */}
-            <div 
-              style={canvasStyles.canvas(sidebarVisible)}
-              onMouseEnter={autoSidebar.handleCanvasMouseEnter}
-              onMouseLeave={autoSidebar.handleCanvasMouseLeave}
-            >
-              <TldrawCanvas
-                onMount={handleMount}
-              />
-            </div>
+              {/* Canvas */}
+              <div 
+                style={canvasStyles.canvas(sidebarVisible)}
+                onMouseEnter={autoSidebar.handleCanvasMouseEnter}
+                onMouseLeave={autoSidebar.handleCanvasMouseLeave}
+              >
+                {collaboration ? (
+                  <CollaborativeCanvas
+                    key={collaboration.roomId}
+                    roomId={collaboration.roomId}
+                    userId={canvasManagerOptions.userId}
+                    userName={profile?.display_name || _user?.email}
+                    isGuest={collaboration.isGuest}
+                    onMount={handleMount}
+                    onStop={endCollaboration}
+                  />
+                ) : (
+                  <TldrawCanvas
+                    onMount={handleMount}
+                  />
+                )}
+              </div>
             
 
-          </div>
+            </div>
+            {conflict && (
+              <CanvasConflictPrompt
+                conflict={conflict}
+                canvasTitle={canvases.find(c => c.id === conflict.canvasId)?.title ?? conflict.remote.title}
+                onResolve={resolveCanvasConflict}
+              />
+            )}
+          </PoseCatalogProvider>
         </CanvasProvider>
       </div>
     </>
@@ -6,6 +6,8 @@ import { DeleteButton } from './DeleteButton';
 
 import { FolderDissolveAnimation } from './FolderDissolveAnimation';
 import { SidebarAccountMenu } from './SidebarAccountMenu';
+import { PendingChangesIndicator } from './PendingChangesIndicator';
+import { CanvasSizeIndicator } from './CanvasSizeIndicator';
 import { Folder, FolderOpen } from 'lucide-react';
 import {
   DndContext,
@@ -29,7 +31,7 @@ import {
 } from '@dnd-kit/sortable';
 import SimpleBar from 'simplebar-react';
 import 'simplebar-react/dist/simplebar.min.css';
-import { CanvasService } from '../services/canvasService';
+import { CanvasStorage } from '../services/canvasStorage';
 import type { Folder as FolderType } from '../lib/supabase';
 import type { UseCanvasManagerReturn } from '../hooks/useCanvasManager';
 
@@ -39,6 +41,7 @@ interface Canvas {
   folderId?: string | null;
   createdAt?: Date;
   sort_order?: number;
+  thumbnail?: string;
 }
 
 // Custom collision detection that better handles gaps between canvas rows
@@ -695,6 +698,7 @@ export const FlowSidebar: React.FC<FlowSidebarProps> = ({
     deleteFolder,
     createCanvas: createCanvasInManager,
     duplicateCanvas: duplicateCanvasInManager,
+    canvasSize,
   } = canvasManager;
 
   const {
@@ -885,7 +889,7 @@ export const FlowSidebar: React.FC<FlowSidebarProps> = ({
     if (user?.id) {
       const fetchRootFolderId = async () => {
         try {
-          const rootFolderId = await CanvasService.getRootFolder(user.id);
+          const rootFolderId = await CanvasStorage.getRootFolder(user.id);
           setUserRootFolderId(rootFolderId);
         } catch (error) {
           console.error('Error fetching root folder ID:', error);
@@ -1001,6 +1005,8 @@ export const FlowSidebar: React.FC<FlowSidebarProps> = ({
               }}>
                 Flows
               </span>
+              <PendingChangesIndicator />
+              <CanvasSizeIndicator size={canvasSize?.canvasId === currentCanvasId ? canvasSize : null} />
               <button
                 onClick={handleCreateCanvasAtRoot}
                 style={{
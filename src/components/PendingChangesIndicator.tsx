@@ -0,0 +1,72 @@
+import React from 'react';
+import { usePendingChanges } from '../hooks/usePendingChanges';
+import { SyncQueue } from '../services/syncQueue';
+
+const describePending = (pending: number) => `${pending} unsynced change${pending === 1 ? '' : 's'}`;
+
+const actionStyle: React.CSSProperties = {
+  border: 'none',
+  background: 'none',
+  padding: 0,
+  fontSize: '10px',
+  color: '#885050',
+  textDecoration: 'underline',
+  cursor: 'pointer',
+  fontFamily: 'var(--font-system)',
+};
+
+const handleDiscard = () => {
+  if (!confirm('Discard the changes the server refused? The flows they touched go back to the server\'s copy.')) return;
+  void SyncQueue.discardFailed();
+};
+
+// Changes saved on this device but not on the server yet, shown next to the Flows heading.
+// Changes the server refused stay listed until they are retried or discarded.
+export const PendingChangesIndicator: React.FC = () => {
+  const { pending, failed, isSyncing, isOnline, lastError } = usePendingChanges();
+
+  if (pending === 0 && failed === 0 && isOnline) return null;
+
+  const label = failed > 0
+    ? `${failed} change${failed === 1 ? '' : 's'} couldn't sync`
+    : !isOnline
+      ? `Offline${pending > 0 ? ` · ${pending} unsynced` : ''}`
+      : isSyncing ? 'Syncing…' : describePending(pending);
+  const title = failed > 0
+    ? `The server refused ${failed === 1 ? 'this change' : 'these changes'}${lastError ? `: ${lastError}` : ''}. They are kept on this device until you retry or discard them.`
+    : !isOnline
+      ? 'Changes are saved on this device and will sync when the connection returns'
+      : lastError ? `Last sync attempt failed: ${lastError}` : describePending(pending);
+
+  return (
+    <span
+      title={title}
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: '4px',
+        fontSize: '10px',
+        color: failed > 0 ? '#c0392b' : '#885050',
+        opacity: failed > 0 ? 1 : 0.7,
+        fontFamily: 'var(--font-system)',
+        whiteSpace: 'nowrap',
+      }}
+    >
+      <span
+        style={{
+          width: '6px',
+          height: '6px',
+          borderRadius: '50%',
+          backgroundColor: failed > 0 ? '#c0392b' : isOnline ? '#d9a441' : '#b0b0b0',
+        }}
+      />
+      {label}
+      {failed > 0 && (
+        <>
+          <button onClick={() => void SyncQueue.retryFailed()} style={actionStyle}>Retry</button>
+          <button onClick={handleDiscard} style={actionStyle}>Discard</button>
+        </>
+      )}
+    </span>
+  );
+};
@@ -0,0 +1,72 @@
+import React from 'react';
+import { intensityLevels, bodyFocusAreas, poseFamilies, contraindications } from '../assets/yoga-flows';
+import type { PoseAttributeFilters } from '../utils/pose-attributes';
+
+interface PoseAttributeFilterBarProps {
+  filters: PoseAttributeFilters;
+  onChange: (filters: PoseAttributeFilters) => void;
+}
+
+const selectStyle = (isActive: boolean): React.CSSProperties => ({
+  flex: 1,
+  minWidth: 0,
+  fontSize: '11px',
+  padding: '4px 6px',
+  border: '1px solid var(--color-panel-contrast)',
+  borderRadius: '8px',
+  backgroundColor: isActive ? 'hsl(0 0% 94%)' : 'var(--color-panel)',
+  color: 'var(--color-text)',
+  cursor: 'pointer'
+});
+
+// Empty string is "any" in the selects; everything else is a numeric taxonomy value
+const toValue = (value: string) => (value === '' ? undefined : Number(value));
+
+// Intensity, body focus, family and contraindication filters for the pose panel
+export const PoseAttributeFilterBar: React.FC<PoseAttributeFilterBarProps> = ({ filters, onChange }) => {
+  return (
+    <div style={{ display: 'flex', gap: '4px', padding: '0 4px 4px' }}>
+      <select
+        value={filters.intensity ?? ''}
+        onChange={(e) => onChange({ ...filters, intensity: toValue(e.target.value) as PoseAttributeFilters['intensity'] })}
+        style={selectStyle(filters.intensity !== undefined)}
+      >
+        <option value="">Any intensity</option>
+        {intensityLevels.map(level => (
+          <option key={level.intensity} value={level.intensity}>{level.title}</option>
+        ))}
+      </select>
+      <select
+        value={filters.bodyFocus ?? ''}
+        onChange={(e) => onChange({ ...filters, bodyFocus: toValue(e.target.value) as PoseAttributeFilters['bodyFocus'] })}
+        style={selectStyle(filters.bodyFocus !== undefined)}
+      >
+        <option value="">Any focus</option>
+        {bodyFocusAreas.map(area => (
+          <option key={area.bodyFocus} value={area.bodyFocus}>{area.title}</option>
+        ))}
+      </select>
+      <select
+        value={filters.family ?? ''}
+        onChange={(e) => onChange({ ...filters, family: toValue(e.target.value) as PoseAttributeFilters['family'] })}
+        style={selectStyle(filters.family !== undefined)}
+      >
+        <option value="">Any family</option>
+        {poseFamilies.map(family => (
+          <option key={family.family} value={family.family}>{family.title}</option>
+        ))}
+      </select>
+      <select
+        value={filters.avoid ?? ''}
+        onChange={(e) => onChange({ ...filters, avoid: toValue(e.target.value) as PoseAttributeFilters['avoid'] })}
+        style={selectStyle(filters.avoid !== undefined)}
+        title="Hide poses that aren't suitable for this condition"
+      >
+        <option value="">No restrictions</option>
+        {contraindications.map(item => (
+          <option key={item.contraindication} value={item.contraindication}>Avoid: {item.title}</option>
+        ))}
+      </select>
+    </div>
+  );
+};
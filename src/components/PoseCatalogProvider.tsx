@@ -0,0 +1,62 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { PoseCatalogContext, type PoseCatalogContextType } from '../hooks/usePoseCatalog';
+import { useCustomPoses } from '../hooks/useCustomPoses';
+import { useAuthContext } from '../hooks/useAuthContext';
+import { loadPoseCatalog, POSE_CATALOG_URL } from '../services/poseCatalog';
+import type { YogaPose } from '../types/yoga-pose';
+
+interface PoseCatalogProviderProps {
+  children: React.ReactNode;
+  url?: string;
+}
+
+// Loads the pose catalog and the user's custom poses once and shares them with the pose panel, filters and placement helpers
+export const PoseCatalogProvider: React.FC<PoseCatalogProviderProps> = ({ children, url = POSE_CATALOG_URL }) => {
+  const [poses, setPoses] = useState<YogaPose[]>([]);
+  const [status, setStatus] = useState<PoseCatalogContextType['status']>('loading');
+  const [errors, setErrors] = useState<string[]>([]);
+  const { user } = useAuthContext();
+  const { customPoses, addCustomPose, removeCustomPose } = useCustomPoses(user?.id);
+
+  const reload = useCallback(async () => {
+    setStatus('loading');
+    try {
+      const catalog = await loadPoseCatalog(url);
+      if (catalog.errors.length > 0) {
+        console.warn(`⚠️ Pose catalog: rejected ${catalog.errors.length} entr${catalog.errors.length === 1 ? 'y' : 'ies'}:\n${catalog.errors.join('\n')}`);
+      }
+      setPoses(catalog.poses);
+      setErrors(catalog.errors);
+      setStatus('ready');
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to load pose catalog';
+      console.error('❌ Pose catalog:', errorMessage);
+      setErrors([errorMessage]);
+      setStatus('error');
+    }
+  }, [url]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const posesById = useMemo(() => new Map(poses.map(pose => [pose.id, pose])), [poses]);
+  const getPoseById = useCallback((id: number) => posesById.get(id), [posesById]);
+
+  const value = useMemo(() => ({
+    poses,
+    status,
+    errors,
+    getPoseById,
+    reload,
+    customPoses,
+    addCustomPose,
+    removeCustomPose,
+  }), [poses, status, errors, getPoseById, reload, customPoses, addCustomPose, removeCustomPose]);
+
+  return (
+    <PoseCatalogContext.Provider value={value}>
+      {children}
+    </PoseCatalogContext.Provider>
+  );
+};
@@ -0,0 +1,153 @@
+import React from 'react';
+import {
+  DefaultContextMenu,
+  DefaultContextMenuContent,
+  TldrawUiMenuCheckboxItem,
+  TldrawUiMenuGroup,
+  TldrawUiMenuItem,
+  TldrawUiMenuSubmenu,
+  useActions,
+  useEditor,
+  useValue,
+  type TLUiContextMenuProps,
+} from 'tldraw';
+import { getPoseIdFromShape } from '../utils/svg-pose-parser';
+import { flowSectionTypes, poseAnnotationPresets } from '../assets/yoga-flows';
+import { createFlowSection, getSectionType, setSectionType } from '../utils/flow-sections';
+import { getTimelineTrack } from '../utils/timeline';
+import { addPoseAnnotation } from '../utils/pose-annotations';
+import { isPoseShape } from '../utils/flow-sequence';
+
+// Default context menu with pose actions on top when a pose is selected
+export const PoseContextMenu: React.FC<TLUiContextMenuProps> = (props) => {
+  const editor = useEditor();
+  const actions = useActions();
+  const hasPoseSelected = useValue(
+    'has pose selected',
+    () => editor.getSelectedShapes().some(shape => shape.type === 'yoga-pose-svg'),
+    [editor]
+  );
+  // Details are only available for a single catalog pose
+  const canShowDetails = useValue(
+    'can show pose details',
+    () => {
+      const shape = editor.getOnlySelectedShape();
+      return shape?.type === 'yoga-pose-svg' && getPoseIdFromShape(shape) !== undefined;
+    },
+    [editor]
+  );
+  // Annotations attach to one pose at a time
+  const annotatablePoseId = useValue(
+    'annotatable pose',
+    () => {
+      const shape = editor.getOnlySelectedShape();
+      return shape && isPoseShape(shape) ? shape.id : null;
+    },
+    [editor]
+  );
+  const selectedFrameIds = useValue(
+    'selected frames',
+    () => editor.getSelectedShapes().filter(shape => shape.type === 'frame').map(shape => shape.id),
+    [editor]
+  );
+  // Section type shared by every selected frame, to tick it in the menu
+  const currentSectionType = useValue(
+    'selected section type',
+    () => {
+      const types = new Set(editor.getSelectedShapes().filter(shape => shape.type === 'frame').map(getSectionType));
+      return types.size === 1 ? [...types][0] ?? null : undefined;
+    },
+    [editor]
+  );
+  const isTimelineMode = useValue('is timeline mode', () => !!getTimelineTrack(editor), [editor]);
+  const actionIds = [
+    ...(canShowDetails ? ['show-pose-details'] : []),
+    'toggle-pose-mirror',
+    'add-other-side',
+    'set-page-pose-size',
+    'tidy-flow',
+  ];
+
+  return (
+    <DefaultContextMenu {...props}>
+      {hasPoseSelected && (
+        <TldrawUiMenuGroup id="yoga-pose">
+          {actionIds.map((actionId) => {
+            const action = actions[actionId];
+            return <TldrawUiMenuItem key={actionId} id={action.id} label={action.label} onSelect={action.onSelect} />;
+          })}
+          {annotatablePoseId && (
+            <TldrawUiMenuSubmenu id="annotate-pose" label="Annotate">
+              <TldrawUiMenuGroup id="annotation-presets">
+                {poseAnnotationPresets.map((preset) => (
+                  <TldrawUiMenuItem
+                    key={preset.id}
+                    id={`annotate-${preset.id}`}
+                    label={preset.title}
+                    onSelect={() => {
+                      addPoseAnnotation(editor, annotatablePoseId, preset);
+                    }}
+                  />
+                ))}
+              </TldrawUiMenuGroup>
+            </TldrawUiMenuSubmenu>
+          )}
+        </TldrawUiMenuGroup>
+      )}
+      {selectedFrameIds.length > 0 ? (
+        <TldrawUiMenuGroup id="flow-section">
+          <TldrawUiMenuSubmenu id="section-type" label="Section type">
+            <TldrawUiMenuGroup id="section-types">
+              {flowSectionTypes.map(({ sectionType, title }) => (
+                <TldrawUiMenuCheckboxItem
+                  key={sectionType}
+                  id={`section-type-${sectionType}`}
+                  label={title}
+                  checked={currentSectionType === sectionType}
+                  onSelect={() => setSectionType(editor, selectedFrameIds, sectionType)}
+                />
+              ))}
+              <TldrawUiMenuCheckboxItem
+                id="section-type-none"
+                label="Plain frame"
+                checked={currentSectionType === null}
+                onSelect={() => setSectionType(editor, selectedFrameIds, null)}
+              />
+            </TldrawUiMenuGroup>
+          </TldrawUiMenuSubmenu>
+        </TldrawUiMenuGroup>
+      ) : hasPoseSelected && (
+        <TldrawUiMenuGroup id="flow-section">
+          <TldrawUiMenuSubmenu id="make-section" label="Make flow section">
+            <TldrawUiMenuGroup id="section-types">
+              {flowSectionTypes.map(({ sectionType, title }) => (
+                <TldrawUiMenuItem
+                  key={sectionType}
+                  id={`make-section-${sectionType}`}
+                  label={title}
+                  onSelect={() => {
+                    createFlowSection(editor, sectionType);
+                  }}
+                />
+              ))}
+            </TldrawUiMenuGroup>
+          </TldrawUiMenuSubmenu>
+        </TldrawUiMenuGroup>
+      )}
+      <TldrawUiMenuGroup id="flow">
+        <TldrawUiMenuCheckboxItem
+          id="toggle-timeline"
+          label={actions['toggle-timeline'].label}
+          checked={isTimelineMode}
+          onSelect={actions['toggle-timeline'].onSelect}
+        />
+        <TldrawUiMenuItem
+          id="copy-flow-as-text"
+          label={actions['copy-flow-as-text'].label}
+          onSelect={actions['copy-flow-as-text'].onSelect}
+        />
+      </TldrawUiMenuGroup>
+      <DefaultContextMenuContent />
+    </DefaultContextMenu>
+  );
+};
@@ -0,0 +1,152 @@
+import React from 'react';
+import { intensityLevels, bodyFocusAreas, poseFamilies, contraindications, poseProps } from '../assets/yoga-flows';
+import type { PoseVariation, YogaPose } from '../types/yoga-pose';
+
+interface PoseDetailCardProps {
+  pose: YogaPose;
+  // Variation id shown as in use; '' is the base pose. Omit when the card isn't tied to a placed pose.
+  activeVariant?: string;
+  // Label for the variation buttons, e.g. "Place" in the panel or "Use" on the canvas
+  actionLabel: string;
+  // undefined selects the base pose
+  onSelectVariation: (variation?: PoseVariation) => void;
+  onClose: () => void;
+}
+
+const sectionTitleStyle: React.CSSProperties = {
+  fontSize: '10px',
+  fontWeight: 600,
+  textTransform: 'uppercase',
+  color: 'var(--color-text-3)',
+  margin: '8px 0 2px'
+};
+
+const tagStyle: React.CSSProperties = {
+  fontSize: '10px',
+  padding: '1px 6px',
+  borderRadius: '8px',
+  backgroundColor: 'hsl(0 0% 94%)',
+  color: 'var(--color-text)'
+};
+
+const NoteList: React.FC<{ title: string; notes: string[] }> = ({ title, notes }) => {
+  if (notes.length === 0) return null;
+  return (
+    <>
+      <div style={sectionTitleStyle}>{title}</div>
+      <ul style={{ margin: 0, paddingLeft: '16px', fontSize: '11px', color: 'var(--color-text)' }}>
+        {notes.map((note, index) => <li key={index}>{note}</li>)}
+      </ul>
+    </>
+  );
+};
+
+// Cues, benefits, modifications and prop variations for a catalog pose
+export const PoseDetailCard: React.FC<PoseDetailCardProps> = ({
+  pose,
+  activeVariant,
+  actionLabel,
+  onSelectVariation,
+  onClose
+}) => {
+  const tags = [
+    intensityLevels.find(level => level.intensity === pose.intensity)?.title,
+    ...pose.bodyFocus.map(focus => bodyFocusAreas.find(area => area.bodyFocus === focus)?.title),
+    ...pose.families.map(family => poseFamilies.find(f => f.family === family)?.title),
+  ].filter((tag): tag is string => tag !== undefined);
+
+  const avoidFor = pose.contraindications
+    .map(c => contraindications.find(entry => entry.contraindication === c)?.title)
+    .filter((title): title is string => title !== undefined);
+
+  const options: { id: string; name: string; image: string; variation?: PoseVariation }[] = [
+    { id: '', name: 'Original', image: pose.thumbnail || pose.image },
+    ...pose.variations.map(variation => ({
+      id: variation.id,
+      name: `${variation.name} (${poseProps.find(p => p.prop === variation.prop)?.title ?? 'Prop'})`,
+      image: variation.image,
+      variation
+    }))
+  ];
+
+  return (
+    <div style={{ padding: '8px', overflowY: 'auto', minHeight: 0 }}>
+      <div style={{ display: 'flex', alignItems: 'flex-start', gap: '8px' }}>
+        <img
+          src={pose.image}
+          alt={pose.name}
+          style={{ width: '72px', height: '52px', objectFit: 'contain', flexShrink: 0 }}
+        />
+        <div style={{ flex: 1, minWidth: 0 }}>
+          <div style={{ fontSize: '13px', fontWeight: 600, color: 'var(--color-text)' }}>{pose.name}</div>
+          <div style={{ fontSize: '11px', color: 'var(--color-text-3)' }}>
+            {pose.indianName}{pose.translation && ` · ${pose.translation}`}
+          </div>
+          {tags.length > 0 && (
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px', marginTop: '4px' }}>
+              {tags.map(tag => <span key={tag} style={tagStyle}>{tag}</span>)}
+            </div>
+          )}
+        </div>
+        <button
+          onClick={onClose}
+          title="Close"
+          style={{
+            border: 'none',
+            background: 'transparent',
+            cursor: 'pointer',
+            fontSize: '14px',
+            color: 'var(--color-text-3)'
+          }}
+        >
+          ×
+        </button>
+      </div>
+
+      <NoteList title="Cues" notes={pose.cues} />
+      <NoteList title="Benefits" notes={pose.benefits} />
+      <NoteList title="Modifications" notes={pose.modifications} />
+      {avoidFor.length > 0 && (
+        <>
+          <div style={sectionTitleStyle}>Take care with</div>
+          <div style={{ fontSize: '11px', color: 'var(--color-text)' }}>{avoidFor.join(', ')}</div>
+        </>
+      )}
+
+      {pose.variations.length > 0 && (
+        <>
+          <div style={sectionTitleStyle}>Variations</div>
+          <div style={{ display: 'flex', gap: '4px', flexWrap: 'wrap' }}>
+            {options.map(option => {
+              const isActive = activeVariant === option.id;
+              return (
+                <button
+                  key={option.id || 'original'}
+                  title={`${actionLabel} ${option.name}`}
+                  disabled={isActive}
+                  onClick={() => onSelectVariation(option.variation)}
+                  style={{
+                    display: 'flex',
+                    flexDirection: 'column',
+                    alignItems: 'center',
+                    width: '96px',
+                    padding: '4px',
+                    fontSize: '10px',
+                    color: 'var(--color-text)',
+                    backgroundColor: isActive ? 'hsl(0 0% 94%)' : 'transparent',
+                    border: `1px solid ${isActive ? 'var(--color-text-3)' : 'var(--color-panel-contrast)'}`,
+                    borderRadius: '8px',
+                    cursor: isActive ? 'default' : 'pointer'
+                  }}
+                >
+                  <img src={option.image} alt="" style={{ width: '64px', height: '46px', objectFit: 'contain' }} />
+                  {option.name}
+                </button>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
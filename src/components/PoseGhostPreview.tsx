@@ -0,0 +1,30 @@
+import React from 'react';
+import { useEditor, useValue } from 'tldraw';
+import type { YogaPoseTool } from '../shapes';
+
+// Faded copy of the pose the YogaPoseTool is about to place, drawn in page space
+export const PoseGhostPreview: React.FC = () => {
+  const editor = useEditor();
+  const ghost = useValue('pose ghost', () => {
+    if (!editor.isIn('yoga-pose-tool')) return null;
+    return editor.getStateDescendant<YogaPoseTool>('yoga-pose-tool')?.ghost.get() ?? null;
+  }, [editor]);
+
+  if (!ghost) return null;
+
+  return (
+    <img
+      src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(ghost.svg)}`}
+      alt=""
+      style={{
+        position: 'absolute',
+        left: ghost.x,
+        top: ghost.y,
+        width: ghost.w,
+        height: ghost.h,
+        opacity: 0.35,
+        pointerEvents: 'none'
+      }}
+    />
+  );
+};
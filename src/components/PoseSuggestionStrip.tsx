@@ -0,0 +1,119 @@
+import React, { useMemo } from 'react';
+import { useEditor, useValue, type TLShapeId } from 'tldraw';
+import { usePoseCatalog } from '../hooks/usePoseCatalog';
+import { buildTransitionGraph } from '../utils/transition-graph';
+import { createPoseFromSVG, fetchPoseSVG, getPoseIdFromShape } from '../utils/svg-pose-parser';
+import { connectPosesWithArrow } from '../utils/pose-placement';
+import type { YogaPose } from '../types/yoga-pose';
+
+// Leave room for the arrow between the selected pose and the suggested one
+const SUGGESTION_GAP = 120;
+
+// "Next pose" suggestions shown beside a single selected pose, from the catalog's `linked` transitions
+export const PoseSuggestionStrip: React.FC = () => {
+  const editor = useEditor();
+  const { poses } = usePoseCatalog();
+  const graph = useMemo(() => buildTransitionGraph(poses), [poses]);
+
+  const selection = useValue('selected pose', () => {
+    const shapes = editor.getSelectedShapes();
+    // Only offer suggestions while idle, not mid-drag or while editing text
+    if (shapes.length !== 1 || !editor.isIn('select.idle')) return null;
+
+    const shape = shapes[0];
+    const poseId = getPoseIdFromShape(shape);
+    const bounds = editor.getShapePageBounds(shape);
+    if (poseId === undefined || !bounds) return null;
+
+    const anchor = editor.pageToViewport({ x: bounds.maxX, y: bounds.minY });
+    return { shapeId: shape.id, poseId, x: anchor.x, y: anchor.y };
+  }, [editor]);
+
+  if (!selection) return null;
+
+  const suggestions = graph.getNextPoses(selection.poseId);
+  if (suggestions.length === 0) return null;
+
+  const placeSuggestion = async (pose: YogaPose, fromId: TLShapeId) => {
+    const from = editor.getShape(fromId);
+    if (!from) return;
+
+    const fromBounds = editor.getShapePageBounds(from);
+    if (!fromBounds) return;
+
+    const svgPose = await fetchPoseSVG(pose);
+    // The pose and its arrow are undone together
+    editor.markHistoryStoppingPoint('place suggestion');
+    editor.run(() => {
+      const newId = createPoseFromSVG(editor, svgPose, fromBounds.maxX + SUGGESTION_GAP, fromBounds.minY);
+      connectPosesWithArrow(editor, fromId, newId);
+
+      // Select the new pose so the next suggestion continues the flow
+      editor.select(newId);
+    });
+  };
+
+  return (
+    <div
+      className="tlui-panel"
+      style={{
+        position: 'absolute',
+        left: selection.x + 12,
+        top: selection.y,
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '4px',
+        padding: '4px',
+        maxHeight: '260px',
+        overflowY: 'auto',
+        backgroundColor: 'var(--color-panel)',
+        borderRadius: '12px',
+        boxShadow: '0px 0px 2px hsl(0, 0%, 0%, 16%), 0px 2px 3px hsl(0, 0%, 0%, 24%), 0px 2px 6px hsl(0, 0%, 0%, 0.1)',
+        pointerEvents: 'all',
+        zIndex: 300
+      }}
+      onPointerDown={(e) => e.stopPropagation()}
+    >
+      <div style={{ fontSize: '10px', color: 'var(--color-text-3)', padding: '2px 4px' }}>
+        Next pose
+      </div>
+      {suggestions.map((pose) => (
+        <button
+          key={pose.id}
+          title={`${pose.name} (${pose.indianName})`}
+          onClick={(e) => {
+            e.stopPropagation();
+            placeSuggestion(pose, selection.shapeId);
+          }}
+          onMouseEnter={(e) => {
+            e.currentTarget.style.backgroundColor = 'hsl(0 0% 96.1%)';
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.backgroundColor = 'transparent';
+          }}
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: '6px',
+            padding: '4px 6px',
+            fontSize: '11px',
+            color: 'var(--color-text)',
+            backgroundColor: 'transparent',
+            border: 'none',
+            borderRadius: '8px',
+            cursor: 'pointer',
+            textAlign: 'left',
+            transition: 'all 0.1s ease'
+          }}
+        >
+          <img
+            src={pose.image}
+            alt=""
+            style={{ width: '28px', height: '28px', objectFit: 'contain' }}
+          />
+          {pose.name}
+        </button>
+      ))}
+    </div>
+  );
+};
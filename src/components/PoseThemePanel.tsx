@@ -0,0 +1,70 @@
+import React from 'react';
+import { getDefaultColorTheme, useEditor, useRelevantStyles, useValue } from 'tldraw';
+import { PoseThemeStyle, hasBodyPartGroups } from '../shapes/pose-theme-style';
+import { poseColorThemes } from '../assets/yoga-flows';
+import type { PoseTheme } from '../types/pose-theme';
+
+const buttonStyle = (isActive: boolean): React.CSSProperties => ({
+  display: 'flex',
+  alignItems: 'center',
+  gap: '6px',
+  fontSize: '11px',
+  padding: '4px 6px',
+  backgroundColor: isActive ? 'hsl(0 0% 94%)' : 'transparent',
+  color: 'var(--color-text)',
+  border: 'none',
+  borderRadius: '8px',
+  cursor: 'pointer',
+  transition: 'all 0.1s ease',
+});
+
+// Style panel section for the colour theme of the selected poses. It only shows when one of
+// their sketches marks body parts, since a theme changes nothing on the others.
+export const PoseThemePanel: React.FC = () => {
+  const editor = useEditor();
+  const styles = useRelevantStyles();
+  const isDarkMode = useValue('is dark mode', () => editor.user.getIsDarkMode(), [editor]);
+  const canTheme = useValue(
+    'selection has body parts',
+    () => editor.getSelectedShapes().some(shape =>
+      shape.type === 'yoga-pose-svg' && hasBodyPartGroups((shape.props as { svg: string }).svg)
+    ),
+    [editor]
+  );
+
+  const themeStyle = styles?.get(PoseThemeStyle);
+  if (!themeStyle || !canTheme) return null;
+
+  const colors = getDefaultColorTheme({ isDarkMode });
+  const current = themeStyle.type === 'shared' ? themeStyle.value : undefined;
+
+  const setTheme = (theme: PoseTheme) => {
+    editor.markHistoryStoppingPoint('set pose theme');
+    editor.setStyleForSelectedShapes(PoseThemeStyle, theme);
+    editor.setStyleForNextShapes(PoseThemeStyle, theme);
+  };
+
+  return (
+    <div
+      style={{ display: 'flex', flexDirection: 'column', gap: '4px', padding: '8px', borderTop: '1px solid var(--color-divider)' }}
+      onPointerDown={(e) => e.stopPropagation()}
+    >
+      <div style={{ fontSize: '11px', color: 'var(--color-text-3)' }}>Pose theme</div>
+      <div style={{ display: 'grid', gridTemplateColumns: '1fr 1fr', gap: '2px' }}>
+        {poseColorThemes.map(({ theme, title, parts }) => (
+          <button key={theme} onClick={() => setTheme(theme)} style={buttonStyle(current === theme)} title={title}>
+            <span style={{ display: 'flex', gap: '1px' }}>
+              {[...new Set(Object.values(parts))].map(color => (
+                <span
+                  key={color}
+                  style={{ width: '6px', height: '6px', borderRadius: '50%', backgroundColor: colors[color].solid }}
+                />
+              ))}
+            </span>
+            {title}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,85 @@
+import React from 'react';
+import { useEditor, useValue } from 'tldraw';
+import type { YogaPoseSvgShape } from '../shapes';
+import type { PoseHoldUnit, PoseSide } from '../utils/pose-timing';
+
+const buttonStyle = (isActive: boolean): React.CSSProperties => ({
+  flex: 1,
+  fontSize: '11px',
+  padding: '4px 6px',
+  backgroundColor: isActive ? 'hsl(0 0% 94%)' : 'transparent',
+  color: 'var(--color-text)',
+  border: 'none',
+  borderRadius: '8px',
+  cursor: 'pointer',
+  transition: 'all 0.1s ease',
+});
+
+// Style panel section for the hold time and side of the selected poses
+export const PoseTimingPanel: React.FC = () => {
+  const editor = useEditor();
+
+  const selectedPoses = useValue(
+    'selected poses',
+    () => editor.getSelectedShapes().filter((shape): shape is YogaPoseSvgShape => shape.type === 'yoga-pose-svg'),
+    [editor]
+  );
+
+  if (selectedPoses.length === 0) return null;
+
+  // Show a value only when every selected pose agrees on it
+  const shared = <K extends 'holdAmount' | 'holdUnit' | 'side'>(key: K) => {
+    const first = selectedPoses[0].props[key];
+    return selectedPoses.every(shape => shape.props[key] === first) ? first : undefined;
+  };
+  const holdAmount = shared('holdAmount');
+  const holdUnit = shared('holdUnit');
+  const side = shared('side');
+
+  const update = (props: Partial<Pick<YogaPoseSvgShape['props'], 'holdAmount' | 'holdUnit' | 'side'>>) => {
+    editor.markHistoryStoppingPoint('update pose timing');
+    editor.updateShapes(selectedPoses.map(shape => ({ id: shape.id, type: 'yoga-pose-svg' as const, props })));
+  };
+
+  return (
+    <div
+      style={{ display: 'flex', flexDirection: 'column', gap: '4px', padding: '8px', borderTop: '1px solid var(--color-divider)' }}
+      onPointerDown={(e) => e.stopPropagation()}
+    >
+      <div style={{ fontSize: '11px', color: 'var(--color-text-3)' }}>Hold</div>
+      <div style={{ display: 'flex', gap: '4px', alignItems: 'center' }}>
+        <input
+          type="number"
+          min={0}
+          step={1}
+          placeholder={holdAmount === undefined ? 'Mixed' : '0'}
+          value={holdAmount === undefined || holdAmount === 0 ? '' : holdAmount}
+          onChange={(e) => update({ holdAmount: Math.max(0, Number(e.target.value) || 0) })}
+          onKeyDown={(e) => e.stopPropagation()}
+          style={{
+            width: '56px',
+            fontSize: '11px',
+            padding: '4px 6px',
+            border: '1px solid var(--color-panel-contrast)',
+            borderRadius: '8px',
+            backgroundColor: 'var(--color-panel)',
+            color: 'var(--color-text)'
+          }}
+        />
+        {(['seconds', 'breaths'] as PoseHoldUnit[]).map(unit => (
+          <button key={unit} onClick={() => update({ holdUnit: unit })} style={buttonStyle(holdUnit === unit)}>
+            {unit === 'seconds' ? 'sec' : 'breaths'}
+          </button>
+        ))}
+      </div>
+      <div style={{ fontSize: '11px', color: 'var(--color-text-3)' }}>Side</div>
+      <div style={{ display: 'flex', gap: '4px' }}>
+        {(['none', 'left', 'right'] as PoseSide[]).map(value => (
+          <button key={value} onClick={() => update({ side: value })} style={buttonStyle(side === value)}>
+            {value === 'none' ? '—' : value === 'left' ? 'Left' : 'Right'}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { useEditor, useValue } from 'tldraw';
+import { isPoseShape } from '../utils/flow-sequence';
+import { loadFlowLayoutOptions, saveFlowLayoutOptions, tidyFlow, type FlowLayoutOptions } from '../utils/flow-layout';
+
+const inputStyle: React.CSSProperties = {
+  width: '64px',
+  fontSize: '11px',
+  padding: '4px 6px',
+  border: '1px solid var(--color-panel-contrast)',
+  borderRadius: '8px',
+  backgroundColor: 'var(--color-panel)',
+  color: 'var(--color-text)'
+};
+
+const buttonStyle: React.CSSProperties = {
+  fontSize: '12px',
+  padding: '4px 8px',
+  backgroundColor: 'transparent',
+  color: 'var(--color-text)',
+  border: 'none',
+  borderRadius: '8px',
+  cursor: 'pointer'
+};
+
+// "Tidy flow" button with its spacing and row width settings, shown next to the class time
+export const TidyFlowControl: React.FC = () => {
+  const editor = useEditor();
+  const [options, setOptions] = useState<FlowLayoutOptions>(loadFlowLayoutOptions);
+  const [showSettings, setShowSettings] = useState(false);
+
+  const selectedCount = useValue(
+    'selected pose count',
+    () => editor.getSelectedShapes().filter(isPoseShape).length,
+    [editor]
+  );
+  const hasPoses = useValue(
+    'page has poses',
+    () => editor.getCurrentPageShapes().some(isPoseShape),
+    [editor]
+  );
+
+  if (!hasPoses) return null;
+
+  const updateOption = (key: keyof FlowLayoutOptions, value: string) => {
+    const next = { ...options, [key]: Math.max(0, Number(value) || 0) };
+    setOptions(next);
+    saveFlowLayoutOptions(next);
+  };
+
+  return (
+    <div
+      className="tlui-panel"
+      style={{
+        margin: '8px 8px 8px 0',
+        padding: '2px',
+        display: 'flex',
+        alignItems: 'center',
+        gap: '4px',
+        backgroundColor: 'var(--color-panel)',
+        borderRadius: '12px',
+        pointerEvents: 'all',
+        whiteSpace: 'nowrap'
+      }}
+      onPointerDown={(e) => e.stopPropagation()}
+    >
+      <button
+        style={buttonStyle}
+        title={selectedCount > 0 ? 'Arrange the selected poses into rows' : 'Arrange every pose on this page into rows'}
+        onClick={() => tidyFlow(editor, options)}
+      >
+        Tidy {selectedCount > 0 ? 'selection' : 'flow'}
+      </button>
+      <button
+        style={{ ...buttonStyle, color: 'var(--color-text-3)' }}
+        title="Layout settings"
+        onClick={() => setShowSettings(show => !show)}
+      >
+        ⋯
+      </button>
+      {showSettings && (
+        <div style={{ display: 'flex', alignItems: 'center', gap: '4px', fontSize: '11px', color: 'var(--color-text-3)', paddingRight: '6px' }}>
+          Gap
+          <input
+            type="number"
+            min={0}
+            step={10}
+            value={options.gap}
+            onChange={(e) => updateOption('gap', e.target.value)}
+            onKeyDown={(e) => e.stopPropagation()}
+            style={inputStyle}
+          />
+          Row width
+          <input
+            type="number"
+            min={0}
+            step={100}
+            value={options.rowWidth}
+            onChange={(e) => updateOption('rowWidth', e.target.value)}
+            onKeyDown={(e) => e.stopPropagation()}
+            style={inputStyle}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,72 @@
+import React from 'react';
+import { useEditor, useValue } from 'tldraw';
+import { getTimelinePoses, getTimelineTrack, TIMELINE_SLOT_GAP } from '../utils/timeline';
+import { POSE_LABEL_BLOCK_HEIGHT } from '../utils/pose-labels';
+import { POSE_FRAME_HEIGHT, POSE_FRAME_WIDTH } from '../utils/svg-pose-parser';
+
+// The timeline track of a page in timeline mode, drawn in page space behind the poses,
+// with a numbered marker under each slot (below the pose's name labels) and an empty slot at the end to drop the next pose into
+export const TimelineTrack: React.FC = () => {
+  const editor = useEditor();
+  const timeline = useValue('timeline track', () => {
+    const track = getTimelineTrack(editor);
+    if (!track) return null;
+
+    const slots = getTimelinePoses(editor).map((shape) => {
+      const bounds = editor.getShapePageBounds(shape)!;
+      return { id: shape.id, x: bounds.minX, w: bounds.width };
+    });
+    const last = slots[slots.length - 1];
+    const nextSlotX = last ? last.x + last.w + TIMELINE_SLOT_GAP : track.x;
+    return { track, slots, nextSlotX };
+  }, [editor]);
+
+  if (!timeline) return null;
+  const { track, slots, nextSlotX } = timeline;
+  const end = nextSlotX + POSE_FRAME_WIDTH + TIMELINE_SLOT_GAP;
+
+  return (
+    <div style={{ position: 'absolute', left: 0, top: 0, pointerEvents: 'none' }}>
+      <div
+        style={{
+          position: 'absolute',
+          left: track.x - TIMELINE_SLOT_GAP / 2,
+          top: track.y - 1,
+          width: end - track.x,
+          height: 2,
+          backgroundColor: 'var(--color-text-3)',
+          opacity: 0.4
+        }}
+      />
+      {slots.map((slot, index) => (
+        <div
+          key={slot.id}
+          style={{
+            position: 'absolute',
+            left: slot.x,
+            top: track.y + POSE_FRAME_HEIGHT / 2 + POSE_LABEL_BLOCK_HEIGHT + 8,
+            width: slot.w,
+            textAlign: 'center',
+            fontSize: 14,
+            color: 'var(--color-text-3)'
+          }}
+        >
+          {index + 1}
+        </div>
+      ))}
+      <div
+        style={{
+          position: 'absolute',
+          left: nextSlotX,
+          top: track.y - POSE_FRAME_HEIGHT / 2,
+          width: POSE_FRAME_WIDTH,
+          height: POSE_FRAME_HEIGHT,
+          border: '2px dashed var(--color-text-3)',
+          borderRadius: 12,
+          opacity: 0.3,
+          boxSizing: 'border-box'
+        }}
+      />
+    </div>
+  );
+};
@@ -5,23 +5,45 @@ import {
   type TLUiAssetUrlOverrides,
   type TLUiOverrides,
   type Editor,
+  type TLStoreWithStatus,
   useTools,
   useIsToolSelected,
   useEditor,
   DefaultToolbar,
   DefaultToolbarContent,
+  DefaultStylePanel,
+  DefaultStylePanelContent,
+  useRelevantStyles,
 } from 'tldraw';
 import 'tldraw/tldraw.css';
-import { YogaPoseShapeUtil, YogaPoseTool, YogaPoseSvgShapeUtil } from '../shapes';
+import { YogaPoseTool, customShapeUtils, customBindingUtils, customMigrations } from '../shapes';
 import { CustomGrid } from './CustomGrid';
 import { CustomPageMenu } from './CustomPageMenu';
 import { YogaPosePanel } from './YogaPosePanel';
-import { getPoseState } from '../utils/pose-state';
+import { PoseSuggestionStrip } from './PoseSuggestionStrip';
+import { PoseTimingPanel } from './PoseTimingPanel';
+import { PoseThemePanel } from './PoseThemePanel';
+import { ClassTimeIndicator } from './ClassTimeIndicator';
+import { PoseContextMenu } from './PoseContextMenu';
+import { CanvasPoseDetailCard } from './CanvasPoseDetailCard';
+import { TidyFlowControl } from './TidyFlowControl';
+import { TimelineTrack } from './TimelineTrack';
+import { PoseGhostPreview } from './PoseGhostPreview';
+import { addOtherSide, toggleMirror } from '../utils/pose-mirroring';
+import { getOpenDetailShape } from '../utils/pose-details';
+import { tidyFlow } from '../utils/flow-layout';
+import { getTimelineTrack, setTimelineMode } from '../utils/timeline';
+import { formatFlowAsText } from '../utils/flow-text-export';
+import { getActiveSize, setPoseSizeForPage } from '../utils/pose-size';
+import { getPoseIdFromShape } from '../utils/svg-pose-parser';
+import { setSelectedPose } from '../utils/pose-state';
+import { useSelectedPose } from '../hooks/useSelectedPose';
+import { usePoseIdentityRecovery } from '../hooks/usePoseIdentityRecovery';
+import { useTimelineSnapping } from '../hooks/useTimelineSnapping';
 import { yogaCategories } from '../assets/yoga-flows';
 
-// Custom tools and shape utilities
+// Custom tools; shape and binding utilities come from ../shapes
 const customTools = [YogaPoseTool];
-const customShapeUtils = [YogaPoseShapeUtil, YogaPoseSvgShapeUtil];
 
 // Custom asset URLs for the yoga pose tool icon
 const customAssetUrls: TLUiAssetUrlOverrides = {
@@ -77,6 +99,60 @@ const uiOverrides: TLUiOverrides = {
           editor.setCurrentTool('select');
         },
       },
+      'toggle-pose-mirror': {
+        id: 'toggle-pose-mirror',
+        label: 'Mirror pose',
+        onSelect: () => {
+          toggleMirror(editor, editor.getSelectedShapeIds());
+        },
+      },
+      'add-other-side': {
+        id: 'add-other-side',
+        label: 'Add other side',
+        onSelect: () => {
+          addOtherSide(editor);
+        },
+      },
+      'tidy-flow': {
+        id: 'tidy-flow',
+        label: 'Tidy flow',
+        onSelect: () => {
+          tidyFlow(editor);
+        },
+      },
+      'set-page-pose-size': {
+        id: 'set-page-pose-size',
+        label: 'Set size for all poses on page',
+        onSelect: () => {
+          setPoseSizeForPage(editor, getActiveSize(editor));
+        },
+      },
+      'toggle-timeline': {
+        id: 'toggle-timeline',
+        label: 'Timeline mode',
+        onSelect: () => {
+          setTimelineMode(editor, !getTimelineTrack(editor));
+        },
+      },
+      'copy-flow-as-text': {
+        id: 'copy-flow-as-text',
+        label: 'Copy flow as text',
+        onSelect: () => {
+          navigator.clipboard.writeText(formatFlowAsText(editor)).catch((error) => {
+            console.error('Failed to copy flow as text:', error);
+          });
+        },
+      },
+      'show-pose-details': {
+        id: 'show-pose-details',
+        label: 'Pose details',
+        onSelect: () => {
+          const shape = editor.getOnlySelectedShape();
+          if (shape?.type === 'yoga-pose-svg' && getPoseIdFromShape(shape) !== undefined) {
+            getOpenDetailShape(editor).set(shape.id);
+          }
+        },
+      },
     };
   },
 };
@@ -86,11 +162,42 @@ const createComponents = (): TLComponents => ({
   PageMenu: () => <CustomPageMenu />,
   Grid: CustomGrid,
   MainMenu: null,
+  OnTheCanvas: () => (
+    <>
+      <TimelineTrack />
+      <PoseGhostPreview />
+    </>
+  ),
+  InFrontOfTheCanvas: () => (
+    <>
+      <PoseSuggestionStrip />
+      <CanvasPoseDetailCard />
+    </>
+  ),
+  TopPanel: () => (
+    <div style={{ display: 'flex' }}>
+      <ClassTimeIndicator />
+      <TidyFlowControl />
+    </div>
+  ),
+  ContextMenu: PoseContextMenu,
+  // Default style panel plus colour theme, hold time and side for selected poses
+  StylePanel: (props) => {
+    const styles = useRelevantStyles();
+    return (
+      <DefaultStylePanel {...props}>
+        <DefaultStylePanelContent styles={styles} />
+        <PoseThemePanel />
+        <PoseTimingPanel />
+      </DefaultStylePanel>
+    );
+  },
   // Keep toolbar visible throughout animation
   Toolbar: (props) => {
     const tools = useTools();
     const editor = useEditor();
     const isYogaPoseSelected = useIsToolSelected(tools['yogaPose']);
+    const selectedPose = useSelectedPose(editor);
     const [activeCategory, setActiveCategory] = React.useState<number>(0);
     const [isHoveringPoseTool, setIsHoveringPoseTool] = React.useState(false);
     
@@ -131,9 +238,9 @@ const createComponents = (): TLComponents => ({
           >
             <YogaPosePanel 
               onPoseSelect={(pose) => {
-                getPoseState().setSelectedPose(pose);
+                setSelectedPose(editor, pose);
               }}
-              selectedPose={getPoseState().selectedPose}
+              selectedPose={selectedPose}
               activeCategory={activeCategory}
               onCategoryChange={setActiveCategory}
             />
@@ -308,21 +415,37 @@ const createComponents = (): TLComponents => ({
 
 export interface TldrawCanvasProps {
   onMount: (editor: Editor) => void;
+  // A synced store for a collaboration room; without one the editor keeps its own local store
+  store?: TLStoreWithStatus;
 }
 
 export const TldrawCanvas: React.FC<TldrawCanvasProps> = ({
   onMount,
+  store,
 }) => {
   const components = React.useMemo(() => createComponents(), []);
+  const [editor, setEditor] = React.useState<Editor | null>(null);
+
+  // Older canvases stored poses without their identity; match them back to the catalog
+  usePoseIdentityRecovery(editor);
+  useTimelineSnapping(editor);
+
+  const handleMount = React.useCallback((mountedEditor: Editor) => {
+    setEditor(mountedEditor);
+    onMount(mountedEditor);
+  }, [onMount]);
 
   return (
     <Tldraw
+      store={store}
       tools={customTools}
       shapeUtils={customShapeUtils}
+      bindingUtils={customBindingUtils}
+      migrations={customMigrations}
       overrides={uiOverrides}
       components={components}
       assetUrls={customAssetUrls}
-      onMount={onMount}
+      onMount={handleMount}
     />
   );
 }; 
\ No newline at end of file
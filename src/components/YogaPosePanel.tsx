@@ -1,91 +1,75 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useEditor } from 'tldraw';
-import { yogaPoses, yogaCategories } from '../assets/yoga-flows';
+import { yogaCategories } from '../assets/yoga-flows';
 import { SubCategory } from '../types/category';
-import { createPoseFromSVG } from '../utils/svg-pose-parser';
+import { createPoseFromSVG, fetchPoseSVG, type YogaPoseSVG } from '../utils/svg-pose-parser';
+import { usePoseCatalog } from '../hooks/usePoseCatalog';
+import { restoreLastPose } from '../utils/pose-state';
+import { fuzzySearch, searchPoses } from '../utils/pose-search';
+import type { YogaPose } from '../types/yoga-pose';
+import type { Category } from '../types/category';
+import type { CustomPose } from '../lib/supabase';
+import { CustomPoseUploadForm } from './CustomPoseUploadForm';
+import { PoseDetailCard } from './PoseDetailCard';
+import { PoseAttributeFilterBar } from './PoseAttributeFilterBar';
+import { EMPTY_POSE_ATTRIBUTE_FILTERS, hasAttributeFilters, matchesAttributeFilters, type PoseAttributeFilters } from '../utils/pose-attributes';
 
 interface YogaPosePanelProps {
-  onPoseSelect: (pose: typeof yogaPoses[0]) => void;
-  selectedPose?: typeof yogaPoses[0] | import('../utils/svg-pose-parser').YogaPoseSVG;
+  onPoseSelect: (pose: YogaPose | YogaPoseSVG | undefined) => void;
+  selectedPose?: YogaPose | YogaPoseSVG;
   activeCategory: number;
   onCategoryChange: (category: number) => void;
 }
 
 export const YogaPosePanel: React.FC<YogaPosePanelProps> = ({ onPoseSelect, selectedPose, activeCategory }) => {
   const editor = useEditor();
+  const { poses, status: catalogStatus, customPoses, addCustomPose, removeCustomPose } = usePoseCatalog();
   const [activeSubCategory, setActiveSubCategory] = useState<SubCategory | undefined>();
   const [lastPosePosition, setLastPosePosition] = useState<{ x: number; y: number } | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [detailPose, setDetailPose] = useState<YogaPose | null>(null);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [attributeFilters, setAttributeFilters] = useState<PoseAttributeFilters>(EMPTY_POSE_ATTRIBUTE_FILTERS);
+  const [highlightedIndex, setHighlightedIndex] = useState(0);
+  const gridRef = useRef<HTMLDivElement>(null);
 
-  // Convert yoga pose to SVG format for createPoseFromSVG (inline SVG content for export)
-  const convertToSVGFormat = async (pose: typeof yogaPoses[0]) => {
-    try {
-      const res = await fetch(pose.image);
-      const svgText = await res.text();
-      
-      // Extract viewBox / width / height from the source SVG
-      const viewBoxMatch = svgText.match(/viewBox="([^"]+)"/);
-      let origW = 100;
-      let origH = 100;
-      if (viewBoxMatch) {
-        const parts = viewBoxMatch[1].split(/\s+/);
-        if (parts.length >= 4) {
-          origW = parseFloat(parts[2]);
-          origH = parseFloat(parts[3]);
-        }
-      } else {
-        const widthMatch = svgText.match(/width="(\d+(?:\.\d+)?)"/);
-        const heightMatch = svgText.match(/height="(\d+(?:\.\d+)?)"/);
-        if (widthMatch) origW = parseFloat(widthMatch[1]);
-        if (heightMatch) origH = parseFloat(heightMatch[1]);
-      }
-      
-      // Normalize to a consistent target frame
-      const targetW = 352;
-      const targetH = 255;
-      const scale = Math.min(targetW / origW, targetH / origH);
-      const offsetX = (targetW - origW * scale) / 2;
-      const offsetY = (targetH - origH * scale) / 2;
-      
-      // Extract root <svg> attributes to preserve default fill/stroke from source
-      const rootAttrMatch = svgText.match(/<svg\s+([^>]+)>/);
-      let preservedAttrs = '';
-      if (rootAttrMatch) {
-        const raw = rootAttrMatch[1];
-        const keep = ['fill','stroke','stroke-width','stroke-linecap','stroke-linejoin','stroke-miterlimit','stroke-dasharray','stroke-dashoffset','color','style'];
-        const attrRegex = /(\w[\w-]*)\s*=\s*("[^"]*"|'[^']*')/g;
-        let m: RegExpExecArray | null;
-        const picked: string[] = [];
-        while ((m = attrRegex.exec(raw)) !== null) {
-          const key = m[1];
-          const val = m[2];
-          if (keep.includes(key)) picked.push(`${key}=${val}`);
-        }
-        preservedAttrs = picked.join(' ');
-      }
+  // Custom poses are stored already sanitized and framed, so they can be placed as-is
+  const convertCustomToSVGFormat = (pose: CustomPose): YogaPoseSVG => ({
+    id: `custom:${pose.id}`,
+    name: pose.name,
+    indianName: pose.indian_name || '',
+    svg: pose.svg,
+    thumbnail: `data:image/svg+xml;charset=utf-8,${encodeURIComponent(pose.svg)}`,
+    category: pose.category,
+  });
 
-      // Strip outer <svg> wrapper but keep inner content & defs
-      const inner = svgText.replace(/^[\s\S]*?<svg[^>]*>/, '').replace(/<\/svg>[\s\S]*$/, '');
-      const wrapped = `\n<svg width="${targetW}" height="${targetH}" viewBox="0 0 ${targetW} ${targetH}" xmlns="http://www.w3.org/2000/svg">\n  <g transform="translate(${offsetX}, ${offsetY}) scale(${scale})">\n    <g${preservedAttrs ? ' ' + preservedAttrs : ''}>\n      ${inner}\n    </g>\n  </g>\n</svg>`;
-      
-      return {
-        id: pose.id.toString(),
-        name: pose.name,
-        indianName: pose.indianName,
-        svg: wrapped,
-        thumbnail: pose.thumbnail,
-      };
-    } catch (e) {
-      // Fallback to minimal placeholder if fetch fails
-      return {
-        id: pose.id.toString(),
-        name: pose.name,
-        indianName: pose.indianName,
-        svg: `<svg width="352" height="255" viewBox="0 0 352 255" xmlns="http://www.w3.org/2000/svg"><text x="50%" y="50%" dominant-baseline="middle" text-anchor="middle">${pose.name}</text></svg>`,
-        thumbnail: pose.thumbnail,
-      };
+  // Place a pose at the viewport centre, or to the right of the previously placed one
+  const placePose = async (svgPose: YogaPoseSVG, atViewportCenter: boolean = false) => {
+    let x, y;
+    if (lastPosePosition === null || atViewportCenter) {
+      // First pose: place at center
+      const center = editor.getViewportScreenCenter();
+      const point = editor.screenToPage(center);
+      x = point.x - 176; // Half of the frame width (352/2)
+      y = point.y - 160; // Half of the frame height (320/2)
+    } else {
+      // Place 40px to the right of the last pose
+      x = lastPosePosition.x + 392; // 352px width + 40px gap
+      y = lastPosePosition.y;
     }
+    
+    // Update the last pose position
+    setLastPosePosition({ x, y });
+    
+    createPoseFromSVG(editor, svgPose, x, y);
+    // The pose stays selected so the Yoga Pose tool can stamp more copies of it
   };
 
+  // Pick up the last pose used in this category when the panel opens or the tab changes
+  useEffect(() => {
+    restoreLastPose(editor, activeCategory);
+  }, [editor, activeCategory]);
+
   // Auto-select first subcategory when category changes
   useEffect(() => {
     const currentCategory = yogaCategories.find(cat => cat.category === activeCategory);
@@ -96,8 +80,8 @@ export const YogaPosePanel: React.FC<YogaPosePanelProps> = ({ onPoseSelect, sele
     }
   }, [activeCategory]);
 
-  // Use the actual yoga poses from yoga-flows.ts
-  const availablePoses = yogaPoses;
+  // Use the poses from the loaded catalog
+  const availablePoses = poses;
   
   // Define category and subcategory variables before using them
   const currentCategory = yogaCategories.find(cat => cat.category === activeCategory);
@@ -117,10 +101,85 @@ export const YogaPosePanel: React.FC<YogaPosePanelProps> = ({ onPoseSelect, sele
     return true;
   });
 
+  const filteredCustomPoses = customPoses
+    .filter((pose) => {
+      if (pose.category !== activeCategory) {
+        return false;
+      }
+      if (hasSubCategories && activeSubCategory !== undefined) {
+        return pose.sub_category === activeSubCategory;
+      }
+      return true;
+    })
+    .map(convertCustomToSVGFormat);
+
+  // A search query looks across every category instead of the active tabs
+  const isSearching = searchQuery.trim().length > 0;
+  const visiblePoses = (isSearching ? searchPoses(availablePoses, searchQuery) : filteredPoses)
+    .filter(pose => matchesAttributeFilters(pose, attributeFilters));
+  // Custom poses aren't classified beyond their category, so attribute filters hide them
+  const visibleCustomPoses = hasAttributeFilters(attributeFilters)
+    ? []
+    : isSearching
+      ? fuzzySearch(customPoses.map(convertCustomToSVGFormat), searchQuery, pose => [pose.name, pose.indianName])
+      : filteredCustomPoses;
+  const resultCount = visiblePoses.length + visibleCustomPoses.length;
+
+  const hasPoses = resultCount > 0;
+  // Trailing "Upload" tile, available once the catalog has settled
+  const showUploadTile = catalogStatus !== 'loading' && !isSearching;
+  const tileCount = resultCount + (showUploadTile ? 1 : 0);
+
+  // Start keyboard navigation from the best match whenever the results change
+  useEffect(() => {
+    setHighlightedIndex(0);
+  }, [searchQuery, activeCategory, activeSubCategory, attributeFilters]);
+
+  // Go back to the grid when the results change underneath an open detail card
+  useEffect(() => {
+    setDetailPose(null);
+  }, [searchQuery, activeCategory, activeSubCategory, attributeFilters]);
+
+  useEffect(() => {
+    gridRef.current
+      ?.querySelector(`[data-pose-index="${highlightedIndex}"]`)
+      ?.scrollIntoView({ block: 'nearest' });
+  }, [highlightedIndex]);
+
+  const placeHighlightedPose = async () => {
+    if (highlightedIndex < visiblePoses.length) {
+      const pose = visiblePoses[highlightedIndex];
+      onPoseSelect(pose);
+      await placePose(await fetchPoseSVG(pose), true);
+    } else if (highlightedIndex < resultCount) {
+      const pose = visibleCustomPoses[highlightedIndex - visiblePoses.length];
+      onPoseSelect(pose);
+      await placePose(pose, true);
+    }
+  };
+
+  // Arrow keys move through the 4-column grid, Enter places the highlighted pose
+  const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    // Keep typing from triggering canvas shortcuts
+    e.stopPropagation();
+
+    const moves: Record<string, number> = { ArrowRight: 1, ArrowLeft: -1, ArrowDown: 4, ArrowUp: -4 };
+    if (e.key in moves) {
+      if (resultCount === 0) return;
+      e.preventDefault();
+      setHighlightedIndex(index => Math.min(resultCount - 1, Math.max(0, index + moves[e.key])));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      placeHighlightedPose();
+    } else if (e.key === 'Escape') {
+      setSearchQuery('');
+    }
+  };
+
   // Calculate height based on number of poses
   const calculateGridHeight = () => {
-    if (filteredPoses.length === 0) return 80; // Empty state height
-    const rows = Math.ceil(filteredPoses.length / 4); // 4 poses per row
+    if (tileCount === 0) return 80; // Empty state height
+    const rows = Math.ceil(tileCount / 4); // 4 poses per row
     return Math.min(rows * 80, 300); // 80px per row, max 300px
   };
 
@@ -177,8 +236,37 @@ export const YogaPosePanel: React.FC<YogaPosePanelProps> = ({ onPoseSelect, sele
           }
         `}
       </style>
+      {/* Search - fuzzy matches name, translation and Sanskrit name */}
+      {!isUploading && (
+        <div style={{ flexShrink: 0, padding: '4px' }}>
+          <input
+            type="search"
+            placeholder="Search poses..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            onKeyDown={handleSearchKeyDown}
+            style={{
+              width: '100%',
+              fontSize: '12px',
+              padding: '6px 12px',
+              border: '1px solid var(--color-panel-contrast)',
+              borderRadius: '12px',
+              backgroundColor: 'var(--color-panel)',
+              color: 'var(--color-text)'
+            }}
+          />
+        </div>
+      )}
+
+      {/* Intensity / focus / family / contraindication filters, combined with the tabs below */}
+      {!isUploading && (
+        <div style={{ flexShrink: 0 }}>
+          <PoseAttributeFilterBar filters={attributeFilters} onChange={setAttributeFilters} />
+        </div>
+      )}
+
       {/* Subcategories - Horizontal if available (TOP) */}
-      {activeCategory && hasSubCategories && (
+      {!isSearching && activeCategory && hasSubCategories && (
         <div style={{ flexShrink: 0 }}>
           <div style={{ overflowX: 'auto', padding: '0' }}>
             <div style={{ 
@@ -227,8 +315,35 @@ export const YogaPosePanel: React.FC<YogaPosePanelProps> = ({ onPoseSelect, sele
         </div>
       )}
 
+      {/* Upload form replaces the grid while it's open */}
+      {isUploading && (
+        <CustomPoseUploadForm
+          defaultCategory={activeCategory as Category}
+          defaultSubCategory={activeSubCategory}
+          onSubmit={async (input) => {
+            await addCustomPose(input);
+            setIsUploading(false);
+          }}
+          onCancel={() => setIsUploading(false)}
+        />
+      )}
+
+      {/* Detail card replaces the grid the same way */}
+      {!isUploading && detailPose && (
+        <PoseDetailCard
+          pose={detailPose}
+          actionLabel="Place"
+          onSelectVariation={async (variation) => {
+            onPoseSelect(detailPose);
+            const svgPose = await fetchPoseSVG(detailPose, variation);
+            await placePose(svgPose);
+          }}
+          onClose={() => setDetailPose(null)}
+        />
+      )}
+
       {/* Empty state */}
-      {activeCategory && filteredPoses.length === 0 && (
+      {!isUploading && !detailPose && (activeCategory || isSearching) && !hasPoses && (
         <div style={{ flexShrink: 0 }}>
           <div style={{ 
             padding: '16px', 
@@ -236,21 +351,31 @@ export const YogaPosePanel: React.FC<YogaPosePanelProps> = ({ onPoseSelect, sele
             color: 'var(--color-text-3)',
             fontSize: '12px'
           }}>
-            {hasSubCategories && !activeSubCategory 
-              ? 'Select a subcategory to view poses'
-              : 'No poses found in this category'
+            {catalogStatus === 'loading'
+              ? 'Loading poses...'
+              : catalogStatus === 'error'
+                ? 'Pose library could not be loaded'
+                : isSearching
+                  ? `No poses match "${searchQuery.trim()}"`
+                  : hasAttributeFilters(attributeFilters)
+                    ? 'No poses match these filters'
+                  : hasSubCategories && !activeSubCategory 
+                  ? 'Select a subcategory to view poses'
+                  : 'No poses found in this category'
             }
           </div>
         </div>
       )}
 
       {/* Poses Grid (BOTTOM) */}
-      {filteredPoses.length > 0 && (
+      {!isUploading && !detailPose && tileCount > 0 && (
         <div style={{ 
-          flexShrink: 0,
+          // Shrink and scroll when the search and filter rows leave less room
+          flexShrink: 1,
+          minHeight: 0,
           height: `${calculateGridHeight()}px`
         }}>
-          <div style={{ 
+          <div ref={gridRef} style={{ 
             display: 'grid', 
             gridTemplateColumns: 'repeat(4, 1fr)',
             gap: '6px',
@@ -258,18 +383,23 @@ export const YogaPosePanel: React.FC<YogaPosePanelProps> = ({ onPoseSelect, sele
             overflowY: 'auto',
             justifyContent: 'start'
           }}>
-            {filteredPoses.map((pose) => (
+            {visiblePoses.map((pose, index) => {
+              // The keyboard highlight only means something while typing a search
+              const isActive = selectedPose?.id === pose.id || (isSearching && highlightedIndex === index);
+              return (
               <div
                 key={pose.id}
+                data-pose-index={index}
                 style={{
+                  position: 'relative',
                   padding: '6px',
                   cursor: 'pointer',
                   display: 'flex',
                   flexDirection: 'column',
                   alignItems: 'center',
                   minHeight: '70px',
-                  backgroundColor: selectedPose?.id === pose.id ? 'hsl(0 0% 94%)' : 'var(--color-panel)',
-                  border: `1px solid ${selectedPose?.id === pose.id ? 'var(--color-text)' : 'var(--color-panel-contrast)'}`,
+                  backgroundColor: isActive ? 'hsl(0 0% 94%)' : 'var(--color-panel)',
+                  border: `1px solid ${isActive ? 'var(--color-text)' : 'var(--color-panel-contrast)'}`,
                   borderRadius: '12px',
                   transition: 'all 0.1s ease',
                   outline: 'none',
@@ -281,41 +411,42 @@ export const YogaPosePanel: React.FC<YogaPosePanelProps> = ({ onPoseSelect, sele
                 onClick={async () => {
                   onPoseSelect(pose);
                   
-                  // Calculate position for the pose
-                  let x, y;
-                  if (lastPosePosition === null) {
-                    // First pose: place at center
-                    const center = editor.getViewportScreenCenter();
-                    const point = editor.screenToPage(center);
-                    x = point.x - 176; // Half of the frame width (352/2)
-                    y = point.y - 160; // Half of the frame height (320/2)
-                  } else {
-                    // Place 40px to the right of the last pose
-                    x = lastPosePosition.x + 392; // 352px width + 40px gap
-                    y = lastPosePosition.y;
-                  }
-                  
-                  // Update the last pose position
-                  setLastPosePosition({ x, y });
-                  
                   // Convert pose to SVG format (inline SVG) and create on canvas
-                  const svgPose = await convertToSVGFormat(pose);
-                  await createPoseFromSVG(editor, svgPose, x, y);
-                  
-                  // Clear the selected pose after placing
-                  onPoseSelect(undefined as any);
+                  const svgPose = await fetchPoseSVG(pose);
+                  await placePose(svgPose);
                 }}
                 onMouseEnter={(e) => {
-                  if (selectedPose?.id !== pose.id) {
+                  if (!isActive) {
                     e.currentTarget.style.backgroundColor = 'hsl(0 0% 96.1%)';
                   }
                 }}
                 onMouseLeave={(e) => {
-                  if (selectedPose?.id !== pose.id) {
+                  if (!isActive) {
                     e.currentTarget.style.backgroundColor = 'var(--color-panel)';
                   }
                 }}
               >
+                <button
+                  title="Pose details"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setDetailPose(pose);
+                  }}
+                  style={{
+                    position: 'absolute',
+                    top: '2px',
+                    right: '4px',
+                    fontSize: '10px',
+                    lineHeight: '1',
+                    padding: '2px',
+                    border: 'none',
+                    background: 'transparent',
+                    color: 'var(--color-text-3)',
+                    cursor: 'pointer'
+                  }}
+                >
+                  ⓘ
+                </button>
                 <img 
                   src={pose.image} 
                   alt={pose.name}
@@ -338,7 +469,127 @@ export const YogaPosePanel: React.FC<YogaPosePanelProps> = ({ onPoseSelect, sele
                   <div style={{ opacity: 0.6, fontSize: '8px' }}>{pose.translation}</div>
                 </div>
               </div>
-            ))}
+              );
+            })}
+            {visibleCustomPoses.map((pose, customIndex) => {
+              const index = visiblePoses.length + customIndex;
+              const isActive = selectedPose?.id === pose.id || (isSearching && highlightedIndex === index);
+              return (
+              <div
+                key={pose.id}
+                data-pose-index={index}
+                style={{
+                  position: 'relative',
+                  padding: '6px',
+                  cursor: 'pointer',
+                  display: 'flex',
+                  flexDirection: 'column',
+                  alignItems: 'center',
+                  minHeight: '70px',
+                  backgroundColor: isActive ? 'hsl(0 0% 94%)' : 'var(--color-panel)',
+                  border: `1px solid ${isActive ? 'var(--color-text)' : 'var(--color-panel-contrast)'}`,
+                  borderRadius: '12px',
+                  transition: 'all 0.1s ease',
+                  outline: 'none',
+                  userSelect: 'none',
+                  WebkitUserSelect: 'none',
+                  MozUserSelect: 'none',
+                  msUserSelect: 'none'
+                }}
+                onClick={async () => {
+                  onPoseSelect(pose);
+                  await placePose(pose);
+                }}
+                onMouseEnter={(e) => {
+                  if (!isActive) {
+                    e.currentTarget.style.backgroundColor = 'hsl(0 0% 96.1%)';
+                  }
+                }}
+                onMouseLeave={(e) => {
+                  if (!isActive) {
+                    e.currentTarget.style.backgroundColor = 'var(--color-panel)';
+                  }
+                }}
+              >
+                <button
+                  title="Remove from my poses"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    if (window.confirm(`Remove "${pose.name}" from your poses?`)) {
+                      removeCustomPose(pose.id.replace(/^custom:/, '')).catch(() => {
+                        // Error is already logged by CustomPoseService
+                      });
+                    }
+                  }}
+                  style={{
+                    position: 'absolute',
+                    top: '2px',
+                    right: '4px',
+                    fontSize: '10px',
+                    lineHeight: '1',
+                    padding: '2px',
+                    border: 'none',
+                    background: 'transparent',
+                    color: 'var(--color-text-3)',
+                    cursor: 'pointer'
+                  }}
+                >
+                  ×
+                </button>
+                <img 
+                  src={pose.thumbnail} 
+                  alt={pose.name}
+                  style={{ 
+                    width: '40px', 
+                    height: '40px', 
+                    objectFit: 'contain',
+                    marginBottom: '4px'
+                  }}
+                />
+                <div style={{ 
+                  fontSize: '9px', 
+                  textAlign: 'center', 
+                  lineHeight: '1.1',
+                  color: 'var(--color-text)',
+                  overflow: 'hidden',
+                  marginTop: 'auto'
+                }}>
+                  <div style={{ fontWeight: '500', marginBottom: '1px' }}>{pose.name}</div>
+                  <div style={{ opacity: 0.6, fontSize: '8px' }}>{pose.indianName}</div>
+                </div>
+              </div>
+              );
+            })}
+            {showUploadTile && (
+              <div
+                style={{
+                  padding: '6px',
+                  cursor: 'pointer',
+                  display: 'flex',
+                  flexDirection: 'column',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  minHeight: '70px',
+                  backgroundColor: 'var(--color-panel)',
+                  border: '1px dashed var(--color-panel-contrast)',
+                  borderRadius: '12px',
+                  transition: 'all 0.1s ease',
+                  color: 'var(--color-text-3)',
+                  fontSize: '9px',
+                  userSelect: 'none'
+                }}
+                onClick={() => setIsUploading(true)}
+                onMouseEnter={(e) => {
+                  e.currentTarget.style.backgroundColor = 'hsl(0 0% 96.1%)';
+                }}
+                onMouseLeave={(e) => {
+                  e.currentTarget.style.backgroundColor = 'var(--color-panel)';
+                }}
+              >
+                <div style={{ fontSize: '18px', lineHeight: '1', marginBottom: '4px' }}>+</div>
+                <div style={{ fontWeight: '500' }}>Upload pose</div>
+              </div>
+            )}
           </div>
         </div>
       )}
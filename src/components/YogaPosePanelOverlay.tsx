@@ -1,16 +1,18 @@
 import React from 'react';
-import { useTools, useIsToolSelected } from 'tldraw';
+import { useTools, useIsToolSelected, useEditor } from 'tldraw';
 import { YogaPosePanel } from './YogaPosePanel';
-import { yogaPoses } from '../assets/yoga-flows';
-import { getPoseState } from '../utils/pose-state';
+import type { YogaPose } from '../types/yoga-pose';
+import { useSelectedPose } from '../hooks/useSelectedPose';
 import { type YogaPoseSVG } from '../utils/svg-pose-parser';
 
 interface YogaPosePanelOverlayProps {
-  onPoseSelect: (pose: typeof yogaPoses[0] | YogaPoseSVG) => void;
+  onPoseSelect: (pose: YogaPose | YogaPoseSVG | undefined) => void;
 }
 
 export const YogaPosePanelOverlay: React.FC<YogaPosePanelOverlayProps> = ({ onPoseSelect }) => {
   const tools = useTools();
+  const editor = useEditor();
+  const selectedPose = useSelectedPose(editor);
   const isYogaPoseSelected = useIsToolSelected(tools['yogaPose']);
 
   if (!isYogaPoseSelected) {
@@ -32,7 +34,7 @@ export const YogaPosePanelOverlay: React.FC<YogaPosePanelOverlayProps> = ({ onPo
     }}>
       <YogaPosePanel 
         onPoseSelect={onPoseSelect}
-        selectedPose={getPoseState().selectedPose}
+        selectedPose={selectedPose}
         activeCategory={0}
         onCategoryChange={() => {}}
       />
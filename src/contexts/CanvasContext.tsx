@@ -11,6 +11,12 @@ export interface CanvasContextType {
   }>;
   currentCanvasId: string;
   setCurrentCanvasId: React.Dispatch<React.SetStateAction<string>>;
+  // Version history, used by the history panel in each canvas's settings
+  saveCanvasVersion: (canvasId: string) => Promise<boolean>;
+  restoreCanvasVersion: (canvasId: string, versionId: string) => Promise<boolean>;
+  restoreCanvasVersionAsNew: (canvasId: string, versionId: string) => Promise<string>;
+  // Opens a canvas for planning together in real time; null when no sync server is configured
+  startCollaboration: ((canvasId: string) => Promise<void>) | null;
 }
 
 export const CanvasContext = createContext<CanvasContextType | null>(null);
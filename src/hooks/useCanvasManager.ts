@@ -1,17 +1,30 @@
 import { useState, useCallback, useEffect, useRef } from 'react';
-import { type Editor, loadSnapshot, getSnapshot } from 'tldraw';
-import { CanvasService } from '../services/canvasService';
+import { type Editor, type TLRecord, loadSnapshot, getSnapshot } from 'tldraw';
+import { CanvasStorage } from '../services/canvasStorage';
+import { SyncQueue } from '../services/syncQueue';
 // ROOT_FOLDER_ID no longer needed - using null for top-level canvases
-import type { Folder } from '../lib/supabase';
-import { supabase } from '../lib/supabase';
+import type { Canvas, Folder, UpdateCanvas } from '../lib/supabase';
 import { arrayMove } from '@dnd-kit/sortable';
+import { renderCanvasThumbnail } from '../utils/canvas-thumbnail';
+import { VERSION_INTERVAL_MS, formatVersionTime, isLargeShapeDrop } from '../utils/canvas-versions';
+import { CanvasVersionReason } from '../types/canvas-version';
+import { CanvasEncoding, type CanvasSizeStatus } from '../types/canvas-encoding';
+import {
+  CANVAS_TOO_LARGE,
+  getCanvasDataSize,
+  getCanvasSizeStatus,
+  isEncodedCanvasState,
+  isRawCanvasState,
+} from '../utils/canvas-encoding';
+import type { CanvasConflict, ConflictResolution } from '../types/canvas-conflict';
+import type { CanvasState } from './useCanvasState';
 
 export interface CanvasMetadata {
   id: string;
   title: string;
   lastModified: Date;
   createdAt: Date;
-  thumbnail?: string; // Base64 encoded thumbnail
+  thumbnail?: string; // JPEG data URL of the current page, see renderCanvasThumbnail
   version: string;
   folderId?: string | null; // NEW: Folder support
   description?: string; // NEW: Description support
@@ -28,12 +41,20 @@ export interface CanvasListItem {
   folder?: Folder; // NEW: Folder information
 }
 
+// Stored size of the last canvas saved, for warning before it reaches the size limit
+export interface CanvasSize {
+  canvasId: string;
+  bytes: number;
+  status: CanvasSizeStatus;
+}
+
 export interface UseCanvasManagerReturn {
   canvases: CanvasListItem[];
   folders: Folder[]; // NEW: Folders list
   currentCanvas: CanvasListItem | null;
   isLoading: boolean;
   error: string | null;
+  canvasSize: CanvasSize | null;
   createCanvas: (title?: string, folderId?: string | null, insertAtBeginning?: boolean) => Promise<string>;
   duplicateCanvas: (id: string) => Promise<string>;
   updateCanvas: (id: string, updates: Partial<CanvasMetadata>) => Promise<boolean>;
@@ -48,9 +69,14 @@ export interface UseCanvasManagerReturn {
   updateFolder: (id: string, updates: { name?: string; description?: string; color?: string }) => Promise<boolean>;
   deleteFolder: (id: string) => Promise<boolean>;
   moveCanvasToFolder: (canvasId: string, folderId: string | null) => Promise<boolean>;
-  loadUserData: (options?: { afterDeletion?: { deletedCanvasFolderId: string | null; deletedCanvasId: string } }) => Promise<void>; // Load user's canvases and folders from Supabase
+  loadUserData: (options?: { afterDeletion?: { deletedCanvasFolderId: string | null; deletedCanvasId: string } }) => Promise<void>; // Load user's canvases and folders, synced with Supabase when enabled
   reorderCanvas: (sourceId: string, targetId: string) => Promise<void>;
   reorderFolder: (sourceId: string, targetId: string) => Promise<void>;
+  saveCanvasVersion: (canvasId: string) => Promise<boolean>; // Keep the canvas's current state in its history
+  restoreCanvasVersion: (canvasId: string, versionId: string) => Promise<boolean>;
+  restoreCanvasVersionAsNew: (canvasId: string, versionId: string) => Promise<string>;
+  canvasConflicts: CanvasConflict[];
+  resolveCanvasConflict: (canvasId: string, resolution: ConflictResolution) => Promise<boolean>;
   isLoadingRef: React.MutableRefObject<boolean>; // NEW: Loading ref for auto-save coordination
 }
 
@@ -60,25 +86,42 @@ export interface UseCanvasManagerOptions {
   version?: string;
   maxLoadedCanvases?: number; // Limit number of canvases kept in memory
   userId?: string; // NEW: User ID for Supabase integration
-  enableSupabase?: boolean; // NEW: Toggle Supabase integration
+  enableSupabase?: boolean; // NEW: Sync local changes with Supabase
   isDeletionInProgressRef?: React.MutableRefObject<boolean>; // NEW: Deletion flag ref
+  // The canvas shared in a collaboration room, when the editor shows that room's synced store
+  collaborationRoomId?: string | null;
 }
 
-const CANVAS_LIST_KEY = 'yoga_flow_canvas_list';
-const STORAGE_KEY_PREFIX = 'yoga_flow_canvas_';
+const THUMBNAIL_REFRESH_MS = 30 * 1000;
 const DEFAULT_CANVAS_TITLE = 'Untitled Flow';
 const DEFAULT_MAX_LOADED_CANVASES = 3; // Keep only 3 canvases in memory
 
+const toCanvasListItem = (canvas: Canvas, version: string): CanvasListItem => ({
+  metadata: {
+    id: canvas.id,
+    title: canvas.title,
+    lastModified: new Date(canvas.updated_at),
+    createdAt: new Date(canvas.created_at),
+    thumbnail: canvas.thumbnail || undefined,
+    version,
+    // Keep the actual folder_id as assigned by the database (including root folder)
+    folderId: canvas.folder_id,
+    description: canvas.description || undefined,
+    sort_order: canvas.sort_order || 0,
+    shape_count: canvas.shape_count || 0,
+  },
+  hasUnsavedChanges: false,
+  saveStatus: 'saved',
+  isLoaded: false,
+});
+
 export function useCanvasManager(
   editor: Editor | null,
   options: UseCanvasManagerOptions = {}
 ): UseCanvasManagerReturn {
+  // enableSupabase turns on syncing with the server; folders and canvases are always stored locally first
   const { userId, enableSupabase = false, isDeletionInProgressRef: externalDeletionRef } = options;
   
-  // Detect environment
-  const isLocalhost = window.location.hostname === 'localhost' || window.location.hostname === '127.0.0.1';
-  const isProduction = !isLocalhost;
-  
   // Use the actual authenticated user ID - no fallback to hardcoded test user
   const effectiveUserId = userId;
   
@@ -89,6 +132,7 @@ export function useCanvasManager(
     autoCreateDefault = true,
     version = '1.0.0',
     maxLoadedCanvases = DEFAULT_MAX_LOADED_CANVASES,
+    collaborationRoomId = null,
   } = options;
 
   const [canvases, setCanvases] = useState<CanvasListItem[]>([]);
@@ -96,6 +140,8 @@ export function useCanvasManager(
   const [currentCanvasId, setCurrentCanvasId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [canvasSize, setCanvasSize] = useState<CanvasSize | null>(null);
+  const [canvasConflicts, setCanvasConflicts] = useState<CanvasConflict[]>([]);
   const [isInitialized, setIsInitialized] = useState(false);
   // Track if we've ever loaded canvases (to prevent auto-create after user deletion)
   const hasLoadedCanvasesRef = useRef(false);
@@ -103,6 +149,9 @@ export function useCanvasManager(
   const isLoadingRef = useRef(false);
   const loadedCanvasesRef = useRef<Set<string>>(new Set());
   const canvasAccessTimesRef = useRef<Map<string, number>>(new Map());
+  const lastThumbnailRef = useRef<{ canvasId: string; clock: number; renderedAt: number } | null>(null);
+  // Per canvas: when its last automatic version was kept and the store clock it was taken at
+  const lastVersionRef = useRef<Map<string, { at: number; clock: number }>>(new Map());
 
   const canvasSelectedDuringDeletionRef = useRef<string | null>(null);
   const isDeletionInProgressRef = useRef(false);
@@ -112,11 +161,11 @@ export function useCanvasManager(
     setError(null);
   }, []);
 
-  // NEW: Load user data from Supabase
+  // Load user's folders and canvases, from the server when synced and the local copy otherwise
   const loadUserData = useCallback(async (options?: { 
     afterDeletion?: { deletedCanvasFolderId: string | null; deletedCanvasId: string } 
   }) => {
-    if (!effectiveUserId || !enableSupabase) return;
+    if (!effectiveUserId) return;
     
     if (isLoadingRef.current) {
       return;
@@ -129,36 +178,17 @@ export function useCanvasManager(
     setError(null);
     
     try {
-      // Load folders (excluding root folder)
-      const userFolders = await CanvasService.getUserFolders(effectiveUserId);
+      // Folders exclude the root folder
+      const { folders: userFolders, canvases: userCanvases } = await CanvasStorage.load(effectiveUserId, {
+        sync: enableSupabase,
+      });
       setFolders(userFolders);
-      
-      // Load canvases
-      const userCanvases = await CanvasService.getUserCanvases(effectiveUserId);
-      
-      // Transform Supabase canvases to CanvasListItem format
-      const transformedCanvases: CanvasListItem[] = userCanvases.map(canvas => ({
-        metadata: {
-          id: canvas.id,
-          title: canvas.title,
-          lastModified: new Date(canvas.updated_at),
-          createdAt: new Date(canvas.created_at),
-          thumbnail: canvas.thumbnail || undefined,
-          version,
-          // Keep the actual folder_id as assigned by the database (including root folder)
-          folderId: canvas.folder_id,
-          description: canvas.description || undefined,
-          sort_order: canvas.sort_order || 0,
-          shape_count: canvas.shape_count || 0,
-        },
-        hasUnsavedChanges: false,
-        saveStatus: 'saved',
-        isLoaded: false,
-      }));
+
+      const transformedCanvases = userCanvases.map(canvas => toCanvasListItem(canvas, version));
       
       // Always set canvases and mark as loaded, even if empty
       setCanvases(transformedCanvases);
-      hasLoadedCanvasesRef.current = true; // Mark that we've attempted to load canvases from Supabase
+      hasLoadedCanvasesRef.current = true; // Mark that we've attempted to load canvases
       
       // Handle post-deletion canvas selection
       if (options?.afterDeletion && transformedCanvases.length > 0) {
@@ -214,7 +244,7 @@ export function useCanvasManager(
       
 
     } catch (err) {
-      console.error('Error loading user data from Supabase:', err);
+      console.error('Error loading user data:', err);
       setError('Failed to load user data');
     } finally {
       isLoadingRef.current = false;
@@ -228,76 +258,27 @@ export function useCanvasManager(
     setError(null);
     
     try {
-      if (isProduction) {
-        // Production: Supabase only
-        if (!effectiveUserId || !enableSupabase) {
-          throw new Error('Database connection required for folder operations');
-        }
-        
-        const newFolder = await CanvasService.createFolder({
-          user_id: effectiveUserId,
-          name,
-          description,
-        }, insertAtBeginning);
-        
-        setFolders(prev => [...prev, newFolder]);
-        
-        return newFolder.id;
-      } else {
-        // Localhost: Try Supabase first, fallback to localStorage
-        if (effectiveUserId && enableSupabase) {
-          try {
-            const newFolder = await CanvasService.createFolder({
-              user_id: effectiveUserId,
-              name,
-              description,
-            }, insertAtBeginning);
-            
-            setFolders(prev => [...prev, newFolder]);
-
-            return newFolder.id;
-          } catch { /* intentionally empty */ }
-        }
-        
-        // localStorage fallback with UUID format
-        const id = crypto.randomUUID();
-        const newFolder = {
-          id,
-          name,
-          description: description || null,
-          user_id: effectiveUserId || 'local',
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString(),
-          color: '',
-          parent_folder_id: null,
-          sort_order: insertAtBeginning ? 0 : 999, // 0 for beginning, high number for end
-        };
-        
-        setFolders(prev => [...prev, newFolder]);
-        
-        // Save folders to localStorage
-        const updatedFolders = [...folders, newFolder];
-        localStorage.setItem('yoga_flow_folders', JSON.stringify(updatedFolders));
-        
-        
-        return newFolder.id;
+      if (!effectiveUserId) {
+        throw new Error('Authentication required');
       }
+      
+      const newFolder = await CanvasStorage.createFolder({
+        user_id: effectiveUserId,
+        name,
+        description,
+      }, insertAtBeginning);
+      
+      setFolders(prev => [...prev, newFolder]);
+      
+      return newFolder.id;
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to create folder';
       setError(errorMessage);
-      
-      if (isProduction) {
-        // Show helpful error message for production
-        if (errorMessage.includes('does not exist') || errorMessage.includes('schema cache')) {
-          setError('Database not properly configured. Please contact support.');
-        }
-      }
-      
       throw new Error(errorMessage);
     } finally {
       setIsLoading(false);
     }
-  }, [effectiveUserId, enableSupabase, folders, isProduction]);
+  }, [effectiveUserId]);
 
   const updateFolder = useCallback(async (
     id: string, 
@@ -307,125 +288,47 @@ export function useCanvasManager(
     setError(null);
     
     try {
-      if (isProduction) {
-        // Production: Supabase only
-        if (!effectiveUserId || !enableSupabase) {
-          throw new Error('Database connection required for folder operations');
-        }
-        
-        const updatedFolder = await CanvasService.updateFolder(id, updates);
-        setFolders(prev => prev.map(folder => 
-          folder.id === id ? updatedFolder : folder
-        ));
-        
-        return true;
-      } else {
-        // Localhost: Try Supabase first, fallback to localStorage
-        if (effectiveUserId && enableSupabase) {
-          try {
-            const updatedFolder = await CanvasService.updateFolder(id, updates);
-            setFolders(prev => prev.map(folder => 
-              folder.id === id ? updatedFolder : folder
-            ));
-
-            return true;
-          } catch { /* intentionally empty */ }
-        }
-        
-        // localStorage fallback
-        setFolders(prev => prev.map(folder => 
-          folder.id === id ? { ...folder, ...updates, updated_at: new Date().toISOString() } : folder
-        ));
-        
-        // Update localStorage
-        const updatedFolders = folders.map(folder => 
-          folder.id === id ? { ...folder, ...updates, updated_at: new Date().toISOString() } : folder
-        );
-        localStorage.setItem('yoga_flow_folders', JSON.stringify(updatedFolders));
-        
-        
-        return true;
-      }
+      const updatedFolder = await CanvasStorage.updateFolder(id, updates);
+      setFolders(prev => prev.map(folder => 
+        folder.id === id ? updatedFolder : folder
+      ));
+      
+      return true;
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to update folder';
       setError(errorMessage);
-      
-      if (isProduction) {
-        // Show helpful error message for production
-        if (errorMessage.includes('does not exist') || errorMessage.includes('schema cache')) {
-          setError('Database not properly configured. Please contact support.');
-        }
-      }
-      
       return false;
     } finally {
       setIsLoading(false);
     }
-  }, [effectiveUserId, enableSupabase, folders, isProduction]);
+  }, []);
 
   const deleteFolder = useCallback(async (id: string): Promise<boolean> => {
     setIsLoading(true);
     setError(null);
     
     try {
-      if (isProduction) {
-        // Production: Supabase only
-        if (!effectiveUserId || !enableSupabase) {
-          throw new Error('Database connection required for folder operations');
-        }
-        
-        await CanvasService.deleteFolder(id);
-        
-        
-        // Only update state after successful Supabase operation
-        setFolders(prev => prev.filter(folder => folder.id !== id));
-        setCanvases(prev => prev.map(canvas => 
-          canvas.metadata.folderId === id 
-            ? { ...canvas, metadata: { ...canvas.metadata, folderId: null } }
-            : canvas
-        ));
-      } else {
-        // Localhost: Try Supabase first, fallback to localStorage
-        if (effectiveUserId && enableSupabase) {
-          try {
-            await CanvasService.deleteFolder(id);
-
-          } catch { /* intentionally empty */ }
-        }
-        
-        // Update state and localStorage
-        setFolders(prev => prev.filter(folder => folder.id !== id));
-        setCanvases(prev => prev.map(canvas => 
-          canvas.metadata.folderId === id 
-            ? { ...canvas, metadata: { ...canvas.metadata, folderId: null } }
-            : canvas
-        ));
-        
-        const updatedFolders = folders.filter(folder => folder.id !== id);
-        localStorage.setItem('yoga_flow_folders', JSON.stringify(updatedFolders));
-      }
+      await CanvasStorage.deleteFolder(id);
       
+      setFolders(prev => prev.filter(folder => folder.id !== id));
+      setCanvases(prev => prev.map(canvas => 
+        canvas.metadata.folderId === id 
+          ? { ...canvas, metadata: { ...canvas.metadata, folderId: null } }
+          : canvas
+      ));
       
       return true;
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to delete folder';
       setError(errorMessage);
-      
-      if (isProduction) {
-        // Show helpful error message for production
-        if (errorMessage.includes('does not exist') || errorMessage.includes('schema cache')) {
-          setError('Database not properly configured. Please contact support.');
-        }
-      }
-      
       return false;
     } finally {
       setIsLoading(false);
     }
-  }, [effectiveUserId, enableSupabase, folders, isProduction]);
+  }, []);
 
   const moveCanvasToFolder = useCallback(async (canvasId: string, targetFolderId: string | null): Promise<boolean> => {
-    if (!effectiveUserId || !enableSupabase) return false;
+    if (!effectiveUserId) return false;
     
     try {
       // Optimistically update the UI immediately
@@ -481,10 +384,7 @@ export function useCanvasManager(
       });
       
       // Perform the actual move
-      await CanvasService.moveCanvas(canvasId, targetFolderId);
-      
-      // No need to reload data since optimistic update already handled UI state
-      // Only reload on error to revert optimistic changes
+      await CanvasStorage.moveCanvas(canvasId, targetFolderId);
       
       return true;
     } catch (err) {
@@ -493,7 +393,7 @@ export function useCanvasManager(
       await loadUserData();
       return false;
     }
-  }, [effectiveUserId, enableSupabase, loadUserData]);
+  }, [effectiveUserId, loadUserData]);
 
   // LRU cache management
   const updateCanvasAccess = useCallback((canvasId: string) => {
@@ -559,7 +459,7 @@ export function useCanvasManager(
       const blankState = {
         snapshot: blankSnapshot,
         timestamp: Date.now(),
-        version,
+        version: CanvasEncoding.RAW,
       };
       
       return blankState;
@@ -567,72 +467,25 @@ export function useCanvasManager(
       console.error('Error creating blank canvas state:', err);
       return null;
     }
-  }, [editor, version]);
+  }, [editor]);
 
-  // Save canvas list to localStorage
-  const saveCanvasList = useCallback((canvasList: CanvasListItem[]) => {
-    try {
-      localStorage.setItem(CANVAS_LIST_KEY, JSON.stringify(canvasList));
-    } catch (err) {
-      console.error('Error saving canvas list:', err);
-      setError('Failed to save canvas list');
+  // Load canvas state from local storage, or from the server when it isn't stored locally yet
+  const loadCanvasState = useCallback(async (canvasId: string, manageLoading = true): Promise<boolean> => {
+    if (!canvasId || !editor) {
+      console.log('❌ Cannot load canvas state: missing canvasId or editor');
+      return false;
     }
-  }, []);
 
-  // Load canvas list from localStorage
-  const loadCanvasList = useCallback(() => {
-    try {
-      // Load canvases
-      const savedList = localStorage.getItem(CANVAS_LIST_KEY);
-      if (savedList) {
-        const parsedList = JSON.parse(savedList);
-        // Validate and transform the saved data
-        const validCanvases: CanvasListItem[] = parsedList
-          .filter((item: CanvasListItem) => item.metadata && item.metadata.id)
-          .map((item: CanvasListItem) => ({
-            metadata: {
-              ...item.metadata,
-              lastModified: new Date(item.metadata.lastModified),
-              createdAt: new Date(item.metadata.createdAt),
-            },
-            hasUnsavedChanges: item.hasUnsavedChanges || false,
-            saveStatus: item.saveStatus || 'saved',
-            isLoaded: false, // Start with unloaded state
-            lastAccessed: item.lastAccessed ? new Date(item.lastAccessed) : undefined,
-          }));
-        setCanvases(validCanvases);
-        hasLoadedCanvasesRef.current = true; // Mark that we've attempted to load canvases from localStorage
-        
-        // Set current canvas to the first one if none selected
-        if (validCanvases.length > 0 && !currentCanvasId) {
-  
-          setCurrentCanvasId(validCanvases[0].metadata.id);
-        }
-      }
-      
-      // Set flag even if no saved data exists
-      if (!savedList) {
-        hasLoadedCanvasesRef.current = true; // Mark that we've attempted to load (no data found)
+    // The editor shows a collaboration room: other canvases would overwrite it for everyone, and
+    // the shared canvas only seeds a room that is still empty; after that the room's content wins
+    if (collaborationRoomId) {
+      if (canvasId !== collaborationRoomId) {
+        console.log('❌ Cannot load another canvas into a collaboration room:', canvasId);
+        return false;
       }
-      
-      // Load folders from localStorage
-      const savedFolders = localStorage.getItem('yoga_flow_folders');
-      if (savedFolders) {
-        const parsedFolders = JSON.parse(savedFolders);
-        setFolders(parsedFolders);
-
+      if (editor.store.allRecords().some(record => record.typeName === 'shape')) {
+        return true;
       }
-    } catch (err) {
-      console.error('Error loading canvas list:', err);
-      setError('Failed to load canvas list');
-    }
-  }, [currentCanvasId]); // Removed currentCanvasId from dependencies to prevent infinite loop
-
-  // Load canvas state from Supabase or localStorage
-  const loadCanvasState = useCallback(async (canvasId: string, retryCount = 0, manageLoading = true): Promise<boolean> => {
-    if (!canvasId || !editor) {
-      console.log('❌ Cannot load canvas state: missing canvasId or editor');
-      return false;
     }
 
     if (manageLoading) {
@@ -642,45 +495,17 @@ export function useCanvasManager(
     setError(null);
 
     try {
-      let canvasState = null;
-      // Try Supabase first if available
-      if (effectiveUserId && enableSupabase) {
+      const canvas = await CanvasStorage.getCanvas(canvasId, { sync: enableSupabase });
+      let canvasState = canvas?.data ?? null;
+      if (typeof canvasState === 'string') {
         try {
-          const canvas = await CanvasService.getCanvasWithFolder(canvasId);
-          if (canvas && canvas.data) {
-            if (typeof canvas.data === 'string') {
-              try {
-                canvasState = JSON.parse(canvas.data);
-              } catch { /* intentionally empty */ }
-            } else if (typeof canvas.data === 'object') {
-              canvasState = canvas.data;
-            }
-          } else if (canvas && typeof canvas === 'object' && 'code' in canvas && canvas.code === 'PGRST116') {
-            // Robust retry logic for 406/0 rows
-            if (!canvasState && retryCount < 5) {
-              await new Promise(res => setTimeout(res, 500));
-              return loadCanvasState(canvasId, retryCount + 1, manageLoading);
-            }
-          }
-        } catch { /* intentionally empty */ }
-      }
-      // If all retries fail, load blank state
-      if (!canvasState && retryCount >= 5) {
-        // No-op, will load blank state below
-      }
-      // Fallback to localStorage if Supabase failed or not available
-      if (!canvasState) {
-        const storageKey = `${STORAGE_KEY_PREFIX}${canvasId}`;
-        const savedData = localStorage.getItem(storageKey);
-        if (savedData) {
-          try {
-            canvasState = JSON.parse(savedData);
-          } catch { /* intentionally empty */ }
+          canvasState = JSON.parse(canvasState);
+        } catch {
+          canvasState = null;
         }
       }
       if (canvasState && canvasState.snapshot) {
         loadSnapshot(editor.store, canvasState.snapshot);
-        return true;
       } else {
         const blankState = createBlankCanvasState();
         if (blankState && blankState.snapshot) {
@@ -691,8 +516,12 @@ export function useCanvasManager(
             editor.deleteShapes(Array.from(shapeIds));
           }
         }
-        return true;
       }
+
+      // Only edits made after loading count towards the next automatic version
+      const lastVersion = lastVersionRef.current.get(canvasId);
+      lastVersionRef.current.set(canvasId, { at: lastVersion?.at ?? 0, clock: editor.store.history.get() });
+      return true;
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to load canvas state';
       setError(errorMessage);
@@ -703,7 +532,7 @@ export function useCanvasManager(
         isLoadingRef.current = false;
       }
     }
-  }, [editor, effectiveUserId, enableSupabase, createBlankCanvasState, currentCanvasId]);
+  }, [editor, enableSupabase, createBlankCanvasState, collaborationRoomId]);
 
   // Preload canvas data without switching to it
   const preloadCanvas = useCallback(async (canvasId: string): Promise<void> => {
@@ -713,10 +542,9 @@ export function useCanvasManager(
     }
     
     try {
-      const storageKey = `${STORAGE_KEY_PREFIX}${canvasId}`;
-      const savedData = localStorage.getItem(storageKey);
+      const canvas = await CanvasStorage.getCanvas(canvasId, { sync: false });
       
-      if (savedData) {
+      if (canvas?.data) {
         // Just mark as loaded without actually loading into editor
         loadedCanvasesRef.current.add(canvasId);
         updateCanvasAccess(canvasId);
@@ -758,20 +586,107 @@ export function useCanvasManager(
 
   }, [currentCanvasId]); // Removed currentCanvasId from dependencies
 
-  // Generate canvas thumbnail
-  const generateThumbnail = useCallback(async (): Promise<string | undefined> => {
+  // Generate canvas thumbnail. Autosave runs after every edit, so re-render at most every
+  // THUMBNAIL_REFRESH_MS unless forced; undefined means "leave the stored thumbnail as is",
+  // null means the page is empty (or too big to fit the budget) and the thumbnail should be cleared.
+  const generateThumbnail = useCallback(async (canvasId: string, force: boolean = false): Promise<string | null | undefined> => {
     if (!editor) return undefined;
-    
+
+    const clock = editor.store.history.get();
+    const last = lastThumbnailRef.current;
+    if (last?.canvasId === canvasId) {
+      if (last.clock === clock) return undefined;
+      if (!force && Date.now() - last.renderedAt < THUMBNAIL_REFRESH_MS) return undefined;
+    }
+
     try {
-      // For now, return undefined - we can implement actual thumbnail generation later
-      // This could involve rendering the canvas to a canvas element and converting to base64
-      return undefined;
+      const thumbnail = await renderCanvasThumbnail(editor);
+      lastThumbnailRef.current = { canvasId, clock, renderedAt: Date.now() };
+      return thumbnail;
     } catch (err) {
       console.error('Error generating thumbnail:', err);
       return undefined;
     }
   }, [editor]);
 
+  // Show a freshly rendered thumbnail in the sidebar without reloading the list
+  const applyThumbnail = useCallback((canvasId: string, thumbnail: string | null) => {
+    setCanvases(prev => prev.map(canvas =>
+      canvas.metadata.id === canvasId
+        ? { ...canvas, metadata: { ...canvas.metadata, thumbnail: thumbnail ?? undefined } }
+        : canvas
+    ));
+  }, []);
+
+  // Add a version to a canvas's history. A failure is logged and doesn't stop the save around it.
+  const keepVersion = useCallback(async (
+    canvasId: string,
+    data: unknown,
+    shapeCount: number,
+    reason: CanvasVersionReason
+  ): Promise<boolean> => {
+    if (!effectiveUserId) return false;
+
+    try {
+      await CanvasStorage.createCanvasVersion({
+        canvas_id: canvasId,
+        user_id: effectiveUserId,
+        data,
+        shape_count: shapeCount,
+        reason,
+      });
+      return true;
+    } catch (err) {
+      console.error(`Error keeping ${reason} version of canvas:`, err);
+      return false;
+    }
+  }, [effectiveUserId]);
+
+  // Store the editor's state for a canvas. When most of its shapes just disappeared the stored
+  // state is kept as a version first, and while it changes a version is kept every VERSION_INTERVAL_MS.
+  const storeCanvasState = useCallback(async (
+    canvasId: string,
+    canvasState: CanvasState,
+    shapeCount: number,
+    thumbnail: string | null | undefined
+  ): Promise<void> => {
+    // The stored row is enough to tell; versions take its content encoded as it is
+    const previous = await CanvasStorage.getStoredCanvas(canvasId);
+    const hasContent = isEncodedCanvasState(previous?.data) || isRawCanvasState(previous?.data);
+    if (previous && hasContent && isLargeShapeDrop(previous.shape_count || 0, shapeCount)) {
+      await keepVersion(canvasId, previous.data, previous.shape_count, CanvasVersionReason.BEFORE_DELETE);
+    }
+
+    // Stored locally straight away and synced from the queue
+    try {
+      const stored = await CanvasStorage.updateCanvas(canvasId, {
+        data: canvasState,
+        shape_count: shapeCount,
+        ...(thumbnail !== undefined && { thumbnail }),
+      });
+      const bytes = getCanvasDataSize(stored.data);
+      setCanvasSize({ canvasId, bytes, status: getCanvasSizeStatus(bytes) });
+    } catch (err) {
+      const { code, bytes } = err as { code?: string; bytes?: number };
+      if (code === CANVAS_TOO_LARGE && bytes !== undefined) {
+        setCanvasSize({ canvasId, bytes, status: getCanvasSizeStatus(bytes) });
+      }
+      throw err;
+    }
+
+    const clock = editor?.store.history.get();
+    const lastVersion = lastVersionRef.current.get(canvasId);
+    if (
+      clock !== undefined &&
+      shapeCount > 0 &&
+      lastVersion?.clock !== clock &&
+      Date.now() - (lastVersion?.at ?? 0) >= VERSION_INTERVAL_MS
+    ) {
+      lastVersionRef.current.set(canvasId, { at: Date.now(), clock });
+      await keepVersion(canvasId, canvasState, shapeCount, CanvasVersionReason.AUTO);
+    }
+  }, [editor, keepVersion]);
+
   // Create a new canvas
   const createCanvas = useCallback(async (title?: string, folderId?: string | null, insertAtBeginning: boolean = false): Promise<string> => {
     console.log('[createCanvas] called with', { title, folderId, insertAtBeginning, effectiveUserId, enableSupabase });
@@ -781,11 +696,6 @@ export function useCanvasManager(
     setError(null);
 
     try {
-      const now = new Date();
-      
-      let id: string;
-      let newCanvas: CanvasListItem;
-
       // Proactively save the current canvas before creating a new one
       if (editor && currentCanvasId) {
         try {
@@ -793,155 +703,26 @@ export function useCanvasManager(
         } catch { /* intentionally empty */ }
       }
 
-      if (isProduction) {
-        // Production: Supabase only - no localStorage fallback for data consistency
-        if (!effectiveUserId || !enableSupabase) {
-          console.warn('[createCanvas] Early return: missing effectiveUserId or enableSupabase');
-          throw new Error('Database connection required for canvas operations');
-        }
-        
-        // Retry mechanism for canvas creation (in case user profile is not immediately available)
-        let supabaseCanvas;
-        let retryCount = 0;
-        const maxRetries = 3;
-        
-        while (retryCount < maxRetries) {
-          try {
-            // Do not mutate the current editor when creating a new canvas
-            supabaseCanvas = await CanvasService.createCanvas({
-              user_id: effectiveUserId,
-              folder_id: folderId, // Pass folderId as is (null for top-level)
-              title: title || defaultCanvasTitle,
-              description: '',
-              data: {},
-              thumbnail: await generateThumbnail() || null,
-              is_public: false,
-              shape_count: 0, // New canvases start with 0 shapes
-            }, insertAtBeginning);
-            break; // Success, exit retry loop
-          } catch (error: unknown) {
-            retryCount++;
-            console.log(`🔄 Canvas creation attempt ${retryCount}/${maxRetries} failed:`, error);
-            
-            // If it's a foreign key constraint error and we haven't exhausted retries, wait and retry
-            if ((error as { code?: string }).code === '23503' && retryCount < maxRetries) {
-              console.log('⏳ User profile might not be ready, waiting before retry...');
-              await new Promise(resolve => setTimeout(resolve, 1000 * retryCount)); // Exponential backoff
-              continue;
-            }
-            
-            // If we've exhausted retries or it's a different error, throw
-            throw error;
-          }
-        }
-        
-        if (!supabaseCanvas) {
-          throw new Error('Failed to create canvas after multiple attempts');
-        }
-        
-        id = supabaseCanvas.id;
-        newCanvas = {
-          metadata: {
-            id: supabaseCanvas.id,
-            title: supabaseCanvas.title,
-            lastModified: new Date(supabaseCanvas.updated_at),
-            createdAt: new Date(supabaseCanvas.created_at),
-            thumbnail: supabaseCanvas.thumbnail || undefined,
-            version,
-            // Keep the actual folder_id as assigned by the database (including root folder)
-            folderId: supabaseCanvas.folder_id,
-            description: supabaseCanvas.description || undefined,
-            sort_order: supabaseCanvas.sort_order || 0,
-            shape_count: supabaseCanvas.shape_count || 0,
-          },
-          hasUnsavedChanges: false,
-          saveStatus: 'saved',
-          isLoaded: false,
-        };
-      } else {
-        // Development: Try Supabase first, fall back to localStorage
-        if (effectiveUserId && enableSupabase) {
-          try {
-            // Create canvas in Supabase (without mutating current editor state)
-            const supabaseCanvas = await CanvasService.createCanvas({
-              user_id: effectiveUserId,
-              folder_id: folderId, // Pass folderId as is (null for top-level)
-              title: title || defaultCanvasTitle,
-              description: '',
-              data: {},
-              thumbnail: await generateThumbnail() || null,
-              is_public: false,
-              shape_count: 0, // New canvases start with 0 shapes
-            }, insertAtBeginning);
-            
-            id = supabaseCanvas.id;
-            newCanvas = {
-              metadata: {
-                id: supabaseCanvas.id,
-                title: supabaseCanvas.title,
-                lastModified: new Date(supabaseCanvas.updated_at),
-                createdAt: new Date(supabaseCanvas.created_at),
-                thumbnail: supabaseCanvas.thumbnail || undefined,
-                version,
-                // Keep the actual folder_id as assigned by the database (including root folder)
-                folderId: supabaseCanvas.folder_id,
-                description: supabaseCanvas.description || undefined,
-                sort_order: supabaseCanvas.sort_order || 0,
-                shape_count: supabaseCanvas.shape_count || 0,
-              },
-              hasUnsavedChanges: false,
-              saveStatus: 'saved',
-              isLoaded: false,
-            };
-          } catch (supabaseError: unknown) {
-            console.error('Failed to create canvas in Supabase:', supabaseError);
-            // Fall back to localStorage
-            id = crypto.randomUUID();
-            newCanvas = {
-              metadata: {
-                id,
-                title: title || defaultCanvasTitle,
-                lastModified: now,
-                createdAt: now,
-                version,
-                folderId: folderId || null,
-                sort_order: 0,
-                shape_count: 0,
-              },
-              hasUnsavedChanges: false,
-              saveStatus: 'saved',
-              isLoaded: false,
-            };
-            
-            // Save blank data to localStorage without touching current editor
-            const storageKey = `${STORAGE_KEY_PREFIX}${id}`;
-            localStorage.setItem(storageKey, JSON.stringify({}));
-          }
-        } else {
-          // LocalStorage only
-          id = crypto.randomUUID();
-          newCanvas = {
-            metadata: {
-              id,
-              title: title || defaultCanvasTitle,
-              lastModified: now,
-              createdAt: now,
-              version,
-              folderId: folderId || null,
-              sort_order: 0,
-              shape_count: 0,
-            },
-            hasUnsavedChanges: false,
-            saveStatus: 'saved',
-            isLoaded: false,
-          };
-          
-          // Save blank data to localStorage without touching current editor
-          const storageKey = `${STORAGE_KEY_PREFIX}${id}`;
-          localStorage.setItem(storageKey, JSON.stringify({}));
-        }
+      if (!effectiveUserId) {
+        console.warn('[createCanvas] Early return: missing effectiveUserId');
+        throw new Error('Authentication required');
       }
 
+      // Do not mutate the current editor when creating a new canvas
+      const storedCanvas = await CanvasStorage.createCanvas({
+        user_id: effectiveUserId,
+        folder_id: folderId, // Pass folderId as is (null for top-level)
+        title: title || defaultCanvasTitle,
+        description: '',
+        data: {},
+        thumbnail: null, // Blank until its first save
+        is_public: false,
+        shape_count: 0, // New canvases start with 0 shapes
+      }, insertAtBeginning);
+
+      const id = storedCanvas.id;
+      const newCanvas = toCanvasListItem(storedCanvas, version);
+
       // Add the new canvas to the list
       setCanvases(prev => {
         const newList = [...prev, newCanvas];
@@ -963,7 +744,7 @@ export function useCanvasManager(
 
       // Set as current canvas and load it while managing loading to block autosave
       setCurrentCanvasId(id);
-      await loadCanvasState(id, 0, false);
+      await loadCanvasState(id, false);
       setTimeout(() => {
         console.log('[CreateCanvas] Clearing loading guard');
         isLoadingRef.current = false;
@@ -978,7 +759,7 @@ export function useCanvasManager(
     } finally {
       setIsLoading(false);
     }
-  }, [effectiveUserId, enableSupabase, isProduction, generateThumbnail, loadCanvasState, version, defaultCanvasTitle]);
+  }, [effectiveUserId, enableSupabase, loadCanvasState, version, defaultCanvasTitle]);
 
   // Duplicate a canvas
   const duplicateCanvas = useCallback(async (id: string): Promise<string> => {
@@ -999,24 +780,10 @@ export function useCanvasManager(
         const canvasState = {
           snapshot: currentSnapshot,
           timestamp: Date.now(),
-          version: version,
+          version: CanvasEncoding.RAW,
         };
         
-        // Save to both Supabase and localStorage for reliability
-        if (effectiveUserId && enableSupabase) {
-          try {
-            await CanvasService.updateCanvas(id, { data: canvasState });
-          } catch (supabaseError: unknown) {
-            console.error('Failed to save to Supabase:', supabaseError);
-            // Fallback to localStorage
-            const storageKey = `${STORAGE_KEY_PREFIX}${id}`;
-            localStorage.setItem(storageKey, JSON.stringify(canvasState));
-          }
-        } else {
-          // Fallback to localStorage
-          const storageKey = `${STORAGE_KEY_PREFIX}${id}`;
-          localStorage.setItem(storageKey, JSON.stringify(canvasState));
-        }
+        await CanvasStorage.updateCanvas(id, { data: canvasState });
       }
 
       // Create new title with "(Copy)" suffix
@@ -1026,76 +793,32 @@ export function useCanvasManager(
         : `${originalTitle} (Copy)`;
 
       // Load the source canvas state
-      const storageKey = `${STORAGE_KEY_PREFIX}${id}`;
-      let sourceCanvasState = null;
-      
-      if (effectiveUserId && enableSupabase) {
-        try {
-          const canvasData = await CanvasService.getCanvasWithFolder(id);
-          sourceCanvasState = canvasData.data;
-        } catch { /* intentionally empty */ }
-      } else {
-        // LocalStorage only
-        const savedData = localStorage.getItem(storageKey);
-        if (savedData) {
-          sourceCanvasState = JSON.parse(savedData);
-        }
-      }
+      const sourceCanvasState = (await CanvasStorage.getCanvas(id, { sync: enableSupabase }))?.data ?? null;
 
       // Create the new canvas with the duplicated content
       const newCanvasId = await createCanvas(newTitle, sourceCanvas.metadata.folderId, false);
       
       // Save the duplicated content to the new canvas
       if (sourceCanvasState) {
-        const newStorageKey = `${STORAGE_KEY_PREFIX}${newCanvasId}`;
-        
-        if (effectiveUserId && enableSupabase) {
-          try {
-            await CanvasService.updateCanvas(newCanvasId, { data: sourceCanvasState });
-          } catch (supabaseError: unknown) {
-            console.error('Failed to save duplicated canvas to Supabase:', supabaseError);
-            // Fallback to localStorage
-            localStorage.setItem(newStorageKey, JSON.stringify(sourceCanvasState));
-          }
-        } else {
-          // LocalStorage only
-          localStorage.setItem(newStorageKey, JSON.stringify(sourceCanvasState));
-        }
+        await CanvasStorage.updateCanvas(newCanvasId, {
+          data: sourceCanvasState,
+          thumbnail: sourceCanvas.metadata.thumbnail ?? null,
+        });
+        applyThumbnail(newCanvasId, sourceCanvas.metadata.thumbnail ?? null);
       }
 
-      // Handle sort order: insert the duplicated canvas right after the source canvas
-      if (effectiveUserId && enableSupabase) {
+      // Handle sort order: the copy was added at the end of the folder, so move it into the
+      // place of the canvas that follows the source
+      if (effectiveUserId) {
         try {
-          // Get all canvases in the same folder, sorted by current sort_order
           const sameFolderCanvases = canvases
             .filter(c => c.metadata.folderId === sourceCanvas.metadata.folderId)
             .sort((a, b) => (a.metadata.sort_order || 0) - (b.metadata.sort_order || 0));
           
-          // Find the source canvas position
           const sourceIndex = sameFolderCanvases.findIndex(c => c.metadata.id === id);
-          if (sourceIndex !== -1) {
-            // Create the new order: insert the duplicated canvas after the source
-            const canvasIds = sameFolderCanvases.map(canvas => canvas.metadata.id);
-            canvasIds.splice(sourceIndex + 1, 0, newCanvasId);
-            
-            // Use the database function to reorder all canvases in the folder
-            const { error: reorderError } = await supabase
-              .rpc('reorder_canvases_in_folder', {
-                p_user_id: effectiveUserId,
-                p_canvas_ids: canvasIds,
-                p_folder_id: sourceCanvas.metadata.folderId
-              });
-            
-            if (reorderError) {
-              throw reorderError;
-            }
-            
-            console.log('🔄 Reordered canvases for duplicated canvas:', {
-              sourceId: id,
-              newCanvasId,
-              folderId: sourceCanvas.metadata.folderId,
-              newOrder: canvasIds
-            });
+          const nextCanvas = sameFolderCanvases[sourceIndex + 1];
+          if (sourceIndex !== -1 && nextCanvas) {
+            await CanvasStorage.reorderCanvases(effectiveUserId, newCanvasId, nextCanvas.metadata.id);
             
             // Reload the canvas list to reflect the new sort order
             await loadUserData();
@@ -1116,7 +839,7 @@ export function useCanvasManager(
     } finally {
       setIsLoading(false);
     }
-  }, [canvases, effectiveUserId, enableSupabase, createCanvas, loadCanvasState, currentCanvasId, editor, version]);
+  }, [canvases, effectiveUserId, enableSupabase, createCanvas, loadCanvasState, currentCanvasId, editor, applyThumbnail]);
 
   // Update canvas metadata
   const updateCanvas = useCallback(async (
@@ -1128,38 +851,28 @@ export function useCanvasManager(
 
     try {
       // Use functional update to avoid dependency on canvases
-      setCanvases(prevCanvases => {
-        const updatedCanvases = prevCanvases.map(canvas => {
-          if (canvas.metadata.id === id) {
-            return {
-              ...canvas,
-              metadata: {
-                ...canvas.metadata,
-                ...updates,
-                lastModified: new Date(),
-              },
-            };
-          }
-          return canvas;
-        });
-        
-        // Save to localStorage
-        saveCanvasList(updatedCanvases);
-        return updatedCanvases;
-      });
-      
-      // Update in Supabase if available
-      if (effectiveUserId && enableSupabase) {
-        const supabaseUpdates: Record<string, unknown> = {};
-        if (updates.title !== undefined) supabaseUpdates.title = updates.title;
-        if (updates.description !== undefined) supabaseUpdates.description = updates.description;
-        if (updates.folderId !== undefined) supabaseUpdates.folder_id = updates.folderId;
-        if (updates.shape_count !== undefined) supabaseUpdates.shape_count = updates.shape_count;
-        
-        if (Object.keys(supabaseUpdates).length > 0) {
-          await CanvasService.updateCanvas(id, supabaseUpdates);
-          
+      setCanvases(prevCanvases => prevCanvases.map(canvas => {
+        if (canvas.metadata.id === id) {
+          return {
+            ...canvas,
+            metadata: {
+              ...canvas.metadata,
+              ...updates,
+              lastModified: new Date(),
+            },
+          };
         }
+        return canvas;
+      }));
+      
+      const storedUpdates: UpdateCanvas = {};
+      if (updates.title !== undefined) storedUpdates.title = updates.title;
+      if (updates.description !== undefined) storedUpdates.description = updates.description;
+      if (updates.folderId !== undefined) storedUpdates.folder_id = updates.folderId;
+      if (updates.shape_count !== undefined) storedUpdates.shape_count = updates.shape_count;
+      
+      if (Object.keys(storedUpdates).length > 0) {
+        await CanvasStorage.updateCanvas(id, storedUpdates);
       }
       
       return true;
@@ -1170,7 +883,7 @@ export function useCanvasManager(
     } finally {
       setIsLoading(false);
     }
-  }, [saveCanvasList, effectiveUserId, enableSupabase]);
+  }, []);
 
   // Delete a canvas
   const deleteCanvas = useCallback(async (id: string): Promise<boolean> => {
@@ -1188,12 +901,10 @@ export function useCanvasManager(
       const toDelete = canvases.find(c => c.metadata.id === id);
       const deletedCanvasFolderId = toDelete?.metadata.folderId;
 
-      // 2. Delete from backend if needed
-      if (effectiveUserId && enableSupabase) {
-        await CanvasService.deleteCanvas(id);
-      }
+      // 2. Delete from storage
+      await CanvasStorage.deleteCanvas(id);
 
-      // 3. Reload canvases from backend to get updated sort_order and handle canvas selection
+      // 3. Reload canvases to get updated sort_order and handle canvas selection
       await loadUserData({
         afterDeletion: {
           deletedCanvasFolderId: deletedCanvasFolderId || null,
@@ -1246,43 +957,39 @@ export function useCanvasManager(
       return true;
     }
 
+    // Without an editor (none mounted yet, or joined to someone else's room) there is nothing to
+    // save; only select the canvas, and it loads once an editor mounts
+    if (!editor) {
+      setCurrentCanvasId(id);
+      return true;
+    }
+
     // Set loading state for the entire switch process
     isLoadingRef.current = true;
     setIsLoading(true);
 
     try {
-      // Save current canvas state before switching (if editor exists and current canvas is set)
-      if (editor && currentCanvasId) {
+      // Save current canvas state before switching (if current canvas is set)
+      if (currentCanvasId) {
         try {
           const currentSnapshot = getSnapshot(editor.store);
           
           // Calculate shape count from current page
           const shapeCount = editor.getCurrentPageShapeIds().size;
+          // Always refresh the thumbnail of the canvas being left
+          const thumbnail = await generateThumbnail(currentCanvasId, true);
           
           const canvasState = {
             snapshot: currentSnapshot,
             timestamp: Date.now(),
-            version: version,
+            version: CanvasEncoding.RAW,
           };
           
-          // Save to both Supabase and localStorage for reliability
-          if (effectiveUserId && enableSupabase) {
-            try {
-              await CanvasService.updateCanvas(currentCanvasId, { 
-                data: canvasState,
-                shape_count: shapeCount
-              });
-            } catch (supabaseError: unknown) {
-              console.error('Failed to save to Supabase:', supabaseError);
-              // Fallback to localStorage
-              const storageKey = `${STORAGE_KEY_PREFIX}${currentCanvasId}`;
-              localStorage.setItem(storageKey, JSON.stringify(canvasState));
-            }
-          } else {
-            // Fallback to localStorage
-            const storageKey = `${STORAGE_KEY_PREFIX}${currentCanvasId}`;
-            localStorage.setItem(storageKey, JSON.stringify(canvasState));
+          if (thumbnail !== undefined) {
+            applyThumbnail(currentCanvasId, thumbnail);
           }
+          
+          await storeCanvasState(currentCanvasId, canvasState, shapeCount, thumbnail);
         } catch (err) {
           console.error('Failed to save current canvas before switch:', err);
           // Continue with switch even if save failed
@@ -1293,7 +1000,7 @@ export function useCanvasManager(
       setCurrentCanvasId(id);
       
       // Load the new canvas state (do not manage loading inside)
-      const success = await loadCanvasState(id, 0, false);
+      const success = await loadCanvasState(id, false);
       
       if (!success) {
         console.error('Failed to switch to canvas:', id);
@@ -1307,7 +1014,7 @@ export function useCanvasManager(
       }, 1500);
       setIsLoading(false);
     }
-  }, [currentCanvasId, loadCanvasState, editor, effectiveUserId, enableSupabase, version]);
+  }, [currentCanvasId, loadCanvasState, editor, generateThumbnail, applyThumbnail, storeCanvasState]);
 
   // NEW: Manual save function for current canvas
   const saveCurrentCanvas = useCallback(async (): Promise<boolean> => {
@@ -1326,38 +1033,26 @@ export function useCanvasManager(
       
       // Calculate shape count from current page
       const shapeCount = editor.getCurrentPageShapeIds().size;
+      const thumbnail = await generateThumbnail(currentCanvasId);
       
       const canvasState = {
         snapshot: currentSnapshot,
         timestamp: Date.now(),
-        version: version,
+        version: CanvasEncoding.RAW,
       };
       
-      // Save to both Supabase and localStorage for reliability
-      if (effectiveUserId && enableSupabase) {
-        try {
-          await CanvasService.updateCanvas(currentCanvasId, { 
-            data: canvasState,
-            shape_count: shapeCount
-          });
-        } catch (supabaseError: unknown) {
-          console.error('❌ [CanvasManager] Failed to save to Supabase:', supabaseError);
-          // Fallback to localStorage
-          const storageKey = `${STORAGE_KEY_PREFIX}${currentCanvasId}`;
-          localStorage.setItem(storageKey, JSON.stringify(canvasState));
-        }
-      } else {
-        // Fallback to localStorage
-        const storageKey = `${STORAGE_KEY_PREFIX}${currentCanvasId}`;
-        localStorage.setItem(storageKey, JSON.stringify(canvasState));
+      if (thumbnail !== undefined) {
+        applyThumbnail(currentCanvasId, thumbnail);
       }
       
+      await storeCanvasState(currentCanvasId, canvasState, shapeCount, thumbnail);
+      
       return true;
     } catch (err) {
       console.error('❌ [CanvasManager] Failed to save current canvas:', err);
       return false;
     }
-  }, [editor, currentCanvasId, effectiveUserId, enableSupabase, version]);
+  }, [editor, currentCanvasId, effectiveUserId, enableSupabase, generateThumbnail, applyThumbnail, storeCanvasState]);
 
   // Initialize on mount
   useEffect(() => {
@@ -1365,38 +1060,19 @@ export function useCanvasManager(
       return;
     }
     
-    if (isProduction) {
-      // Production: Supabase only
-      if (effectiveUserId && enableSupabase) {
-        loadUserData().then(() => {
-          setIsInitialized(true);
-        }).catch((_error) => {
-          console.error('❌ [PROD] Supabase connection failed:', _error);
-          setError('Database connection failed. Please try again later.');
-          setIsInitialized(true);
-        });
-      } else {
-        setError('Authentication required');
-        setIsInitialized(true);
-      }
-    } else {
-      // Localhost: Try Supabase first, fallback to localStorage
-      if (effectiveUserId && enableSupabase) {
-        loadUserData().then(() => {
-          setIsInitialized(true);
-        }).catch(() => {
-          // Fallback to localStorage if Supabase fails
-
-          loadCanvasList();
-          setIsInitialized(true);
-        });
-      } else {
-        // Load from localStorage
-        loadCanvasList();
-        setIsInitialized(true);
-      }
+    if (!effectiveUserId) {
+      setError('Authentication required');
+      setIsInitialized(true);
+      return;
     }
-  }, [effectiveUserId, enableSupabase, isInitialized, loadUserData, loadCanvasList, isProduction]);
+    
+    if (enableSupabase) {
+      SyncQueue.start();
+    }
+    loadUserData().finally(() => {
+      setIsInitialized(true);
+    });
+  }, [effectiveUserId, enableSupabase, isInitialized, loadUserData]);
 
   // SIMPLIFIED: Auto-create default canvas if needed
   useEffect(() => {
@@ -1421,26 +1097,9 @@ export function useCanvasManager(
         return false;
       }
       
-      // For localStorage users (no Supabase), check localStorage
-      if (!effectiveUserId || !enableSupabase) {
-        const savedCanvases = localStorage.getItem(CANVAS_LIST_KEY);
-        if (savedCanvases) {
-          try {
-            const parsedCanvases = JSON.parse(savedCanvases);
-            if (Array.isArray(parsedCanvases) && parsedCanvases.length > 0) {
-              return false;
-            }
-          } catch (err) {
-            console.warn('Failed to parse saved canvases:', err);
-          }
-        }
-      }
-      
-      // For Supabase users, only check if we've successfully loaded from Supabase
-      if (effectiveUserId && enableSupabase) {
-        if (!hasLoadedCanvasesRef.current) {
-          return false; // Wait for Supabase load to complete
-        }
+      // Only check once the user's canvases have been loaded
+      if (!hasLoadedCanvasesRef.current) {
+        return false; // Wait for the load to complete
       }
       
       return true;
@@ -1456,10 +1115,7 @@ export function useCanvasManager(
           createCanvas(defaultCanvasTitle, null, false).catch((_error) => {
             console.error('Failed to create default canvas:', _error);
             
-            // In production, this is a critical error - reset flag and show error
-            if (isProduction && effectiveUserId && enableSupabase) {
-              setError('Failed to create default canvas. Please check your connection and try again.');
-            }
+            setError('Failed to create default canvas. Please try again.');
             
             // Reset the flag if creation failed so it can be retried
             defaultCanvasCreatedRef.current = false;
@@ -1477,6 +1133,11 @@ export function useCanvasManager(
     if (deletionInProgress || canvasSelectedDuringDeletionRef.current) {
       return;
     }
+
+    // A collaboration room is seeded by its own effect below
+    if (collaborationRoomId) {
+      return;
+    }
     
     if (currentCanvasId && editor && isInitialized) {
       // Add a small delay to ensure state updates have propagated
@@ -1494,7 +1155,16 @@ export function useCanvasManager(
         }
       }, 50); // Increased delay to prevent race conditions
     }
-  }, [currentCanvasId, editor, isInitialized, loadCanvasState, externalDeletionRef]);
+  }, [currentCanvasId, editor, isInitialized, loadCanvasState, externalDeletionRef, collaborationRoomId]);
+
+  // Seed a collaboration room with the shared canvas once its synced editor mounts. This can't
+  // wait on the loading flag like the load above: a switch just before sharing holds it a while
+  useEffect(() => {
+    if (!editor || !isInitialized || !collaborationRoomId || collaborationRoomId !== currentCanvasId) {
+      return;
+    }
+    void loadCanvasState(collaborationRoomId);
+  }, [editor, isInitialized, collaborationRoomId, currentCanvasId, loadCanvasState]);
 
   // Get current canvas
   const currentCanvas = canvases.find(canvas => canvas.metadata.id === currentCanvasId) || null;
@@ -1502,7 +1172,7 @@ export function useCanvasManager(
 
 
   const reorderCanvas = useCallback(async (sourceId: string, targetId: string) => {
-    if (!enableSupabase || !effectiveUserId) return;
+    if (!effectiveUserId) return;
     
     try {
       // Optimistically update the UI immediately
@@ -1552,22 +1222,19 @@ export function useCanvasManager(
         return allUpdatedCanvases;
       });
       
-      await CanvasService.reorderCanvases(effectiveUserId, sourceId, targetId);
-      
-      // No need to reload data since optimistic update already handled UI state
-      // Only reload on error to revert optimistic changes
+      await CanvasStorage.reorderCanvases(effectiveUserId, sourceId, targetId);
     } catch (error: unknown) {
       console.error('Failed to reorder canvas:', error);
       // Revert optimistic update on error
       await loadUserData();
     }
-  }, [enableSupabase, effectiveUserId, loadUserData]);
+  }, [effectiveUserId, loadUserData]);
 
   const reorderFolder = useCallback(async (sourceId: string, targetId: string) => {
-    if (!enableSupabase || !effectiveUserId) return;
+    if (!effectiveUserId) return;
     
     try {
-      await CanvasService.reorderFolders(effectiveUserId, sourceId, targetId);
+      await CanvasStorage.reorderFolders(effectiveUserId, sourceId, targetId);
       
       // Refresh folders to get the new order
       await loadUserData();
@@ -1575,7 +1242,198 @@ export function useCanvasManager(
       console.error('Failed to reorder folders:', err);
       setError('Failed to save new folder order');
     }
-  }, [enableSupabase, effectiveUserId, loadUserData]);
+  }, [effectiveUserId, loadUserData]);
+
+  // Keep a canvas's current state in its history, saving the open canvas first
+  const saveCanvasVersion = useCallback(async (canvasId: string): Promise<boolean> => {
+    setError(null);
+
+    try {
+      if (canvasId === currentCanvasId) {
+        await saveCurrentCanvas();
+      }
+
+      const canvas = await CanvasStorage.getCanvas(canvasId, { sync: enableSupabase });
+      if (!canvas?.data?.snapshot) {
+        throw new Error('Canvas has no saved content yet');
+      }
+
+      const kept = await keepVersion(canvasId, canvas.data, canvas.shape_count, CanvasVersionReason.MANUAL);
+      if (!kept) {
+        throw new Error('Failed to save version');
+      }
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to save version';
+      setError(errorMessage);
+      return false;
+    }
+  }, [currentCanvasId, enableSupabase, saveCurrentCanvas, keepVersion]);
+
+  // Replace a canvas's content with one of its versions. The state being replaced is kept as a
+  // version first, so a restore can be undone from the same history.
+  const restoreCanvasVersion = useCallback(async (canvasId: string, versionId: string): Promise<boolean> => {
+    const isCurrent = !!editor && canvasId === currentCanvasId;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const version = await CanvasStorage.getCanvasVersion(versionId);
+
+      if (isCurrent) {
+        await saveCurrentCanvas();
+        // Block autosave while the restored snapshot replaces the editor's content
+        isLoadingRef.current = true;
+      }
+
+      const canvas = await CanvasStorage.getCanvas(canvasId, { sync: enableSupabase });
+      if (canvas?.data?.snapshot) {
+        await keepVersion(canvasId, canvas.data, canvas.shape_count, CanvasVersionReason.BEFORE_RESTORE);
+      }
+
+      // The stored thumbnail shows the replaced content; the open canvas gets a new one below
+      await CanvasStorage.updateCanvas(canvasId, {
+        data: version.data,
+        shape_count: version.shape_count,
+        thumbnail: null,
+      });
+      applyThumbnail(canvasId, null);
+      setCanvases(prev => prev.map(c =>
+        c.metadata.id === canvasId
+          ? { ...c, metadata: { ...c.metadata, shape_count: version.shape_count, lastModified: new Date() } }
+          : c
+      ));
+
+      if (isCurrent) {
+        await loadCanvasState(canvasId, false);
+        const thumbnail = await generateThumbnail(canvasId, true);
+        if (thumbnail !== undefined) {
+          applyThumbnail(canvasId, thumbnail);
+          await CanvasStorage.updateCanvas(canvasId, { thumbnail });
+        }
+      }
+
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to restore version';
+      setError(errorMessage);
+      console.error('Error restoring canvas version:', err);
+      return false;
+    } finally {
+      if (isCurrent) {
+        setTimeout(() => {
+          isLoadingRef.current = false;
+        }, 1500);
+      }
+      setIsLoading(false);
+    }
+  }, [editor, currentCanvasId, enableSupabase, saveCurrentCanvas, keepVersion, applyThumbnail, loadCanvasState, generateThumbnail]);
+
+  // Open a version as a new canvas next to the original, leaving the original as it is
+  const restoreCanvasVersionAsNew = useCallback(async (canvasId: string, versionId: string): Promise<string> => {
+    setError(null);
+
+    try {
+      const sourceCanvas = canvases.find(c => c.metadata.id === canvasId);
+      if (!sourceCanvas) {
+        throw new Error('Canvas not found');
+      }
+
+      const version = await CanvasStorage.getCanvasVersion(versionId);
+      const newTitle = `${sourceCanvas.metadata.title} (${formatVersionTime(version.created_at)})`;
+      const newCanvasId = await createCanvas(newTitle, sourceCanvas.metadata.folderId, false);
+
+      await CanvasStorage.updateCanvas(newCanvasId, {
+        data: version.data,
+        shape_count: version.shape_count,
+      });
+      setCanvases(prev => prev.map(c =>
+        c.metadata.id === newCanvasId
+          ? { ...c, metadata: { ...c.metadata, shape_count: version.shape_count } }
+          : c
+      ));
+
+      await loadCanvasState(newCanvasId);
+      const thumbnail = await generateThumbnail(newCanvasId, true);
+      if (thumbnail !== undefined) {
+        applyThumbnail(newCanvasId, thumbnail);
+        await CanvasStorage.updateCanvas(newCanvasId, { thumbnail });
+      }
+
+      return newCanvasId;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to restore version as a new canvas';
+      setError(errorMessage);
+      console.error('Error restoring canvas version as a new canvas:', err);
+      throw err;
+    }
+  }, [canvases, createCanvas, loadCanvasState, generateThumbnail, applyThumbnail]);
+
+  // Content changed by a sync: changes merged from another device are applied to the open canvas
+  // on top of any edits not saved yet, and a canvas whose content was replaced is reloaded
+  useEffect(() => {
+    const refreshConflicts = () => {
+      CanvasStorage.getConflicts()
+        .then(setCanvasConflicts)
+        .catch(err => console.error('Error loading canvas conflicts:', err));
+    };
+    refreshConflicts();
+
+    return CanvasStorage.subscribeContentChanges((change) => {
+      if (change.type === 'merged') {
+        if (editor && change.canvasId === currentCanvasId) {
+          editor.store.mergeRemoteChanges(() => {
+            if (change.put.length > 0) editor.store.put(change.put as TLRecord[]);
+            if (change.remove.length > 0) editor.store.remove(change.remove as TLRecord['id'][]);
+          });
+        }
+        return;
+      }
+
+      refreshConflicts();
+      if (change.type === 'replaced' && change.canvasId === currentCanvasId) {
+        void loadCanvasState(change.canvasId);
+      }
+    });
+  }, [editor, currentCanvasId, loadCanvasState]);
+
+  // Settle a conflict from another device the way the user chose
+  const resolveCanvasConflict = useCallback(async (
+    canvasId: string,
+    resolution: ConflictResolution
+  ): Promise<boolean> => {
+    setError(null);
+
+    try {
+      const forked = await CanvasStorage.resolveCanvasConflict(canvasId, resolution);
+      const resolved = await CanvasStorage.getCanvas(canvasId, { sync: false });
+
+      setCanvases(prev => {
+        const updated = prev.map(c =>
+          c.metadata.id === canvasId && resolved
+            ? {
+              ...c,
+              metadata: {
+                ...c.metadata,
+                thumbnail: resolved.thumbnail || undefined,
+                shape_count: resolved.shape_count || 0,
+                lastModified: new Date(),
+              },
+            }
+            : c
+        );
+        return forked ? [...updated, toCanvasListItem(forked, version)] : updated;
+      });
+      setCanvasConflicts(prev => prev.filter(conflict => conflict.canvasId !== canvasId));
+      return true;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to resolve the conflict';
+      setError(errorMessage);
+      console.error('Error resolving canvas conflict:', err);
+      return false;
+    }
+  }, [version]);
 
 
 
@@ -1585,6 +1443,9 @@ export function useCanvasManager(
     currentCanvas,
     isLoading,
     error,
+    canvasSize,
+    canvasConflicts,
+    resolveCanvasConflict,
     createCanvas,
     duplicateCanvas,
     updateCanvas,
@@ -1601,6 +1462,9 @@ export function useCanvasManager(
     loadUserData,
     reorderCanvas,
     reorderFolder,
+    saveCanvasVersion,
+    restoreCanvasVersion,
+    restoreCanvasVersionAsNew,
     isLoadingRef, // NEW: Expose loading ref for auto-save coordination
   };
 } 
\ No newline at end of file
@@ -1,10 +1,12 @@
 import { useState, useCallback } from 'react';
 import { type Editor, loadSnapshot, getSnapshot } from 'tldraw';
+import { CanvasEncoding } from '../types/canvas-encoding';
 
 export interface CanvasState {
   snapshot: ReturnType<typeof getSnapshot>;
   timestamp: number;
-  version: string;
+  // Always CanvasEncoding.RAW here; storage encodes the state, see encodeCanvasState
+  version: typeof CanvasEncoding.RAW;
 }
 
 export interface UseCanvasStateReturn {
@@ -18,25 +20,17 @@ export interface UseCanvasStateReturn {
   clearError: () => void;
 }
 
-export interface UseCanvasStateOptions {
-  version?: string;
-}
-
 /**
  * Hook for serializing and deserializing tldraw canvas state
  * 
  * @param editor - The tldraw editor instance
- * @param options - Configuration options
  * @returns Object with serialization methods and state
  */
 export function useCanvasState(
-  editor: Editor | null,
-  options: UseCanvasStateOptions = {}
+  editor: Editor | null
 ): UseCanvasStateReturn {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  
-  const { version = '1.0.0' } = options;
 
   const clearError = useCallback(() => {
     setError(null);
@@ -59,7 +53,7 @@ export function useCanvasState(
       const canvasState: CanvasState = {
         snapshot,
         timestamp: Date.now(),
-        version,
+        version: CanvasEncoding.RAW,
       };
 
       return canvasState;
@@ -71,7 +65,7 @@ export function useCanvasState(
     } finally {
       setIsLoading(false);
     }
-  }, [editor, version]);
+  }, [editor]);
 
   const deserializeCanvas = useCallback(async (state: CanvasState): Promise<boolean> => {
 
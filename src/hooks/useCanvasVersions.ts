@@ -0,0 +1,57 @@
+import { useState, useEffect, useCallback } from 'react';
+import { CanvasStorage } from '../services/canvasStorage';
+import type { CanvasVersion, CanvasVersionSummary } from '../lib/supabase';
+
+export interface UseCanvasVersionsReturn {
+  versions: CanvasVersionSummary[];
+  isLoading: boolean;
+  error: string | null;
+  refresh: () => void;
+  loadVersion: (id: string) => Promise<CanvasVersion>;
+}
+
+/**
+ * Hook for the saved versions of a canvas, newest first
+ *
+ * @param canvasId - The canvas whose history to list
+ * @param enabled - Load only while the history is shown; versions come from the server
+ */
+export function useCanvasVersions(canvasId: string, enabled: boolean): UseCanvasVersionsReturn {
+  const [versions, setVersions] = useState<CanvasVersionSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshCount, setRefreshCount] = useState(0);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+    setIsLoading(true);
+    CanvasStorage.getCanvasVersions(canvasId)
+      .then((canvasVersions) => {
+        if (!cancelled) {
+          setVersions(canvasVersions);
+          setError(null);
+        }
+      })
+      .catch(() => {
+        if (!cancelled) setError('History is available once the canvas has synced');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [canvasId, enabled, refreshCount]);
+
+  const refresh = useCallback(() => {
+    setRefreshCount(count => count + 1);
+  }, []);
+
+  // Versions are listed without their snapshot; fetch one to preview or restore it
+  const loadVersion = useCallback((id: string) => CanvasStorage.getCanvasVersion(id), []);
+
+  return { versions, isLoading, error, refresh, loadVersion };
+}
@@ -0,0 +1,19 @@
+import { useValue, type Editor, type TLPageId } from 'tldraw';
+import { getPageClassTime, type ClassTime } from '../utils/pose-timing';
+
+const NO_CLASS_TIME: ClassTime = { totalSeconds: 0, poseCount: 0, untimedCount: 0 };
+
+/**
+ * Hook for the running total hold time of the poses on a page
+ *
+ * @param editor - The tldraw editor instance
+ * @param pageId - Page to total; defaults to the current page
+ * @returns Total seconds plus pose counts, updated as poses change
+ */
+export function useClassTime(editor: Editor | null, pageId?: TLPageId): ClassTime {
+  return useValue(
+    'class time',
+    () => (editor ? getPageClassTime(editor, pageId) : NO_CLASS_TIME),
+    [editor, pageId]
+  );
+}
@@ -1,25 +1,49 @@
 import { useSync } from '@tldraw/sync'
 import { useMemo, useRef } from 'react'
 import { assetStore } from '../services/assetStore'
-import { YogaPoseShapeUtil, YogaPoseSvgShapeUtil } from '../shapes'
+import {
+  YogaPoseSvgShapeUtil,
+  FlowSectionFrameShapeUtil,
+  PoseAnnotationShapeUtil,
+  PoseAnnotationBindingUtil,
+  legacyPoseShapeMigrations,
+} from '../shapes'
 import { defaultShapeUtils, defaultBindingUtils } from 'tldraw'
+import { syncServerUrl } from '../lib/syncServer'
 
 interface UseCloudSyncOptions {
   roomId: string
   userId?: string
+  // Shown to the other people in the room next to this user's cursor
+  userName?: string
 }
 
-export function useCloudSync({ roomId, userId }: UseCloudSyncOptions) {
-  // Use environment variable for worker URL, fallback to localhost:8787 in dev
-  const workerUrl = import.meta.env.VITE_TLDRAW_WORKER_URL || 
-    (import.meta.env.DEV ? 'http://localhost:8787' : 'https://tldraw-worker.le-jckn.workers.dev')
-  
+export interface CloudSyncStatus {
+  isConnected: boolean
+  isSyncing: boolean
+  // Connected before and trying to reconnect; edits are kept and sent once back online
+  isOffline: boolean
+  hasError: boolean
+  error?: Error
+}
+
+export function useCloudSync({ roomId, userId, userName }: UseCloudSyncOptions) {
+  const serverUrl = syncServerUrl
+  if (!serverUrl) {
+    throw new Error('No sync server is configured (set VITE_TLDRAW_WORKER_URL)')
+  }
+
   // Memoize the URI to prevent unnecessary reconnections - only change when roomId changes
   const memoizedUri = useMemo(() => {
     // Convert HTTP to WebSocket URL
-    const wsUrl = workerUrl.replace(/^http/, 'ws')
+    const wsUrl = serverUrl.replace(/^http/, 'ws')
     return `${wsUrl}/connect/${roomId}`
-  }, [workerUrl, roomId]);
+  }, [serverUrl, roomId]);
+
+  // Presence for the other people in the room; tldraw picks a cursor colour from the id
+  const userInfo = useMemo(() => (
+    userId ? { id: userId, name: userName ?? null } : undefined
+  ), [userId, userName])
   
   // Track if we've already logged this connection
   const hasLoggedRef = useRef(false);
@@ -37,22 +61,34 @@ export function useCloudSync({ roomId, userId }: UseCloudSyncOptions) {
   const syncResult = useSync({
     uri: memoizedUri,
     assets: assetStore,
-    shapeUtils: [YogaPoseShapeUtil, YogaPoseSvgShapeUtil, ...defaultShapeUtils],
-    bindingUtils: defaultBindingUtils,
+    shapeUtils: [
+      YogaPoseSvgShapeUtil,
+      FlowSectionFrameShapeUtil,
+      PoseAnnotationShapeUtil,
+      // The section frame util stands in for the default frame util
+      ...defaultShapeUtils.filter(util => util.type !== 'frame'),
+    ],
+    bindingUtils: [...defaultBindingUtils, PoseAnnotationBindingUtil],
+    migrations: [legacyPoseShapeMigrations],
+    userInfo,
   });
 
 
 
   return {
     store: syncResult.store,
+    // The store with its sync status, as the editor takes it
+    storeWithStatus: syncResult,
     roomId,
     userId,
-    getSyncStatus: () => {
+    getSyncStatus: (): CloudSyncStatus => {
+      const isOffline = syncResult.status === 'synced-remote' && syncResult.connectionStatus === 'offline'
       return {
-        isConnected: syncResult.status === 'synced-remote',
+        isConnected: syncResult.status === 'synced-remote' && !isOffline,
         isSyncing: syncResult.status === 'loading',
+        isOffline,
         hasError: syncResult.status === 'error',
-        error: syncResult.error,
+        error: syncResult.status === 'error' ? syncResult.error : undefined,
       }
     },
   };
@@ -0,0 +1,97 @@
+import { useState, useEffect, useCallback } from 'react';
+import { CustomPoseService } from '../services/customPoseService';
+import { sanitizePoseSVG } from '../utils/svg-sanitizer';
+import type { CustomPose } from '../lib/supabase';
+import type { Category, SubCategory } from '../types/category';
+
+export interface NewCustomPoseInput {
+  svgText: string;
+  name: string;
+  indianName: string;
+  category: Category;
+  subCategory?: SubCategory;
+}
+
+export interface UseCustomPosesReturn {
+  customPoses: CustomPose[];
+  isLoading: boolean;
+  error: string | null;
+  addCustomPose: (input: NewCustomPoseInput) => Promise<CustomPose>;
+  removeCustomPose: (id: string) => Promise<void>;
+}
+
+/**
+ * Hook for the signed-in user's uploaded pose sketches
+ *
+ * @param userId - The current user's id; nothing is loaded without one
+ */
+export function useCustomPoses(userId: string | undefined): UseCustomPosesReturn {
+  const [customPoses, setCustomPoses] = useState<CustomPose[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!userId) {
+      setCustomPoses([]);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    CustomPoseService.getUserCustomPoses(userId)
+      .then((poses) => {
+        if (!cancelled) {
+          setCustomPoses(poses);
+          setError(null);
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load custom poses');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const addCustomPose = useCallback(async (input: NewCustomPoseInput): Promise<CustomPose> => {
+    if (!userId) {
+      throw new Error('Sign in to upload your own poses');
+    }
+
+    const name = input.name.trim();
+    if (!name) {
+      throw new Error('Please give the pose a name');
+    }
+
+    // Throws a readable error for unusable files, which the upload form shows as-is
+    const svg = sanitizePoseSVG(input.svgText);
+
+    const created = await CustomPoseService.createCustomPose({
+      user_id: userId,
+      name,
+      indian_name: input.indianName.trim() || null,
+      category: input.category,
+      sub_category: input.subCategory ?? null,
+      svg,
+    });
+    setCustomPoses(prev => [...prev, created]);
+    return created;
+  }, [userId]);
+
+  const removeCustomPose = useCallback(async (id: string) => {
+    await CustomPoseService.deleteCustomPose(id);
+    setCustomPoses(prev => prev.filter(pose => pose.id !== id));
+  }, []);
+
+  return {
+    customPoses,
+    isLoading,
+    error,
+    addCustomPose,
+    removeCustomPose,
+  };
+}
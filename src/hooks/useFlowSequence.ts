@@ -0,0 +1,17 @@
+import { useValue, type Editor, type TLPageId } from 'tldraw';
+import { deriveFlowSequence, EMPTY_FLOW_SEQUENCE, type FlowSequence } from '../utils/flow-sequence';
+
+/**
+ * Hook for the ordered pose sequence of a page, kept up to date as poses and arrows change
+ *
+ * @param editor - The tldraw editor instance
+ * @param pageId - Page to sequence; defaults to the current page
+ * @returns The derived sequence with any branches and orphaned poses
+ */
+export function useFlowSequence(editor: Editor | null, pageId?: TLPageId): FlowSequence {
+  return useValue(
+    'flow sequence',
+    () => (editor ? deriveFlowSequence(editor, pageId) : EMPTY_FLOW_SEQUENCE),
+    [editor, pageId]
+  );
+}
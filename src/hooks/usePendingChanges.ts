@@ -0,0 +1,12 @@
+import { useSyncExternalStore } from 'react';
+import { SyncQueue } from '../services/syncQueue';
+import type { SyncStatus } from '../types/canvas-sync';
+
+/**
+ * Hook for the folder and canvas changes that haven't reached the server yet
+ *
+ * @returns Pending change count and whether the queue is syncing or offline, updated as it replays
+ */
+export function usePendingChanges(): SyncStatus {
+  return useSyncExternalStore(SyncQueue.subscribe, SyncQueue.getStatus);
+}
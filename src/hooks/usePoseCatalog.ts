@@ -0,0 +1,26 @@
+import { createContext, useContext } from 'react';
+import type { YogaPose } from '../types/yoga-pose';
+import type { UseCustomPosesReturn } from './useCustomPoses';
+
+export interface PoseCatalogContextType {
+  poses: YogaPose[];
+  status: 'loading' | 'ready' | 'error';
+  // Readable validation messages for catalog entries that were rejected
+  errors: string[];
+  getPoseById: (id: number) => YogaPose | undefined;
+  reload: () => Promise<void>;
+  // The signed-in user's uploaded poses, stored in Supabase alongside their canvases
+  customPoses: UseCustomPosesReturn['customPoses'];
+  addCustomPose: UseCustomPosesReturn['addCustomPose'];
+  removeCustomPose: UseCustomPosesReturn['removeCustomPose'];
+}
+
+export const PoseCatalogContext = createContext<PoseCatalogContextType | null>(null);
+
+export function usePoseCatalog() {
+  const context = useContext(PoseCatalogContext);
+  if (!context) {
+    throw new Error('usePoseCatalog must be used within a PoseCatalogProvider');
+  }
+  return context;
+}
@@ -1,12 +1,19 @@
 import { useState, useMemo, useCallback } from 'react';
 import { Category, SubCategory } from '../types/category';
-import { yogaPoses } from '../assets/yoga-flows';
+import { usePoseCatalog } from './usePoseCatalog';
+import type { YogaPose } from '../types/yoga-pose';
+import { searchPoses } from '../utils/pose-search';
+import { EMPTY_POSE_ATTRIBUTE_FILTERS, matchesAttributeFilters, type PoseAttributeFilters } from '../utils/pose-attributes';
 
 interface PoseFilterState {
   activeCategory?: Category;
   activeSubCategory?: SubCategory;
   showSubcategoryMenu: boolean;
-  filteredPoses: typeof yogaPoses;
+  filteredPoses: YogaPose[];
+  searchQuery: string;
+  setSearchQuery: (query: string) => void;
+  attributeFilters: PoseAttributeFilters;
+  setAttributeFilters: (filters: PoseAttributeFilters) => void;
   setActiveCategory: (category: Category) => void;
   setActiveSubCategory: (subCategory: SubCategory) => void;
   getActiveCategoryTitle: () => string;
@@ -14,16 +21,24 @@ interface PoseFilterState {
 }
 
 export const usePoseFilter = (): PoseFilterState => {
+  const { poses } = usePoseCatalog();
   const [activeCategory, setActiveCategoryState] = useState<Category | undefined>();
   const [activeSubCategory, setActiveSubCategoryState] = useState<SubCategory | undefined>();
   const [showSubcategoryMenu, setShowSubcategoryMenu] = useState(true);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [attributeFilters, setAttributeFilters] = useState<PoseAttributeFilters>(EMPTY_POSE_ATTRIBUTE_FILTERS);
 
   const filteredPoses = useMemo(() => {
-    return yogaPoses.filter(pose => 
+    // A search query matches across all categories, best match first
+    if (searchQuery.trim()) {
+      return searchPoses(poses, searchQuery).filter(pose => matchesAttributeFilters(pose, attributeFilters));
+    }
+    return poses.filter(pose => 
       pose.category === activeCategory && 
-      pose.subCategory === activeSubCategory
+      pose.subCategory === activeSubCategory &&
+      matchesAttributeFilters(pose, attributeFilters)
     );
-  }, [activeCategory, activeSubCategory]);
+  }, [poses, activeCategory, activeSubCategory, searchQuery, attributeFilters]);
 
   const setActiveCategory = useCallback((category: Category) => {
     if (category === activeCategory) {
@@ -84,6 +99,10 @@ export const usePoseFilter = (): PoseFilterState => {
     activeSubCategory,
     showSubcategoryMenu,
     filteredPoses,
+    searchQuery,
+    setSearchQuery,
+    attributeFilters,
+    setAttributeFilters,
     setActiveCategory,
     setActiveSubCategory,
     getActiveCategoryTitle,
@@ -0,0 +1,65 @@
+import { useEffect } from 'react';
+import type { Editor } from 'tldraw';
+import { usePoseCatalog } from './usePoseCatalog';
+import {
+  buildCatalogFingerprints,
+  hasLinkedSketch,
+  inlineLinkedSketches,
+  isUnidentifiedPoseShape,
+  recoverPoseIdentities,
+} from '../utils/pose-identity';
+
+/**
+ * Hook that matches unidentified pose shapes in loaded canvases back to the catalog, and inlines
+ * the sketches of poses migrated from the legacy yoga-pose shape, both on mount and whenever a
+ * snapshot or remote change brings in more of them
+ *
+ * @param editor - The tldraw editor instance
+ */
+export function usePoseIdentityRecovery(editor: Editor | null) {
+  const { poses, status } = usePoseCatalog();
+
+  useEffect(() => {
+    if (!editor || status !== 'ready') return;
+
+    let cancelled = false;
+    // Only fetch the catalog sketches once something actually needs identifying
+    let fingerprints: ReturnType<typeof buildCatalogFingerprints> | null = null;
+
+    const recover = async () => {
+      if (editor.store.query.records('shape').get().some(hasLinkedSketch)) {
+        const inlined = await inlineLinkedSketches(editor, poses);
+        if (cancelled) return;
+        if (inlined > 0) {
+          console.log(`🧘 Inlined the sketch of ${inlined} migrated pose${inlined === 1 ? '' : 's'}`);
+        }
+      }
+
+      const hasUnidentified = editor.store.query.records('shape').get().some(isUnidentifiedPoseShape);
+      if (!hasUnidentified) return;
+
+      fingerprints ??= buildCatalogFingerprints(poses);
+      const catalogFingerprints = await fingerprints;
+      if (cancelled) return;
+
+      const recovered = recoverPoseIdentities(editor, poses, catalogFingerprints);
+      if (recovered > 0) {
+        console.log(`🧘 Recovered pose identity for ${recovered} shape${recovered === 1 ? '' : 's'}`);
+      }
+    };
+
+    recover();
+    // Only new records: updates (every drag frame of a pose) don't change whether it is identified,
+    // and a legacy pose that isn't in the catalog would otherwise be retried on each of them
+    const unlisten = editor.store.listen(({ changes }) => {
+      if (Object.values(changes.added).some(record => record.typeName === 'shape' && (isUnidentifiedPoseShape(record) || hasLinkedSketch(record)))) {
+        recover();
+      }
+    }, { scope: 'document' });
+
+    return () => {
+      cancelled = true;
+      unlisten();
+    };
+  }, [editor, poses, status]);
+}
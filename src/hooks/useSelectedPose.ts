@@ -0,0 +1,11 @@
+import { useValue, type Editor } from 'tldraw';
+import { getSelectedPose } from '../utils/pose-state';
+
+/**
+ * Hook that follows the pose selected for the Yoga Pose tool in an editor
+ *
+ * @param editor - The tldraw editor instance
+ */
+export function useSelectedPose(editor: Editor) {
+  return useValue('selected pose', () => getSelectedPose(editor), [editor]);
+}
@@ -0,0 +1,15 @@
+import { useEffect } from 'react';
+import type { Editor } from 'tldraw';
+import { registerTimelineSnapping } from '../utils/timeline';
+
+/**
+ * Hook that snaps poses onto the timeline track of pages in timeline mode
+ *
+ * @param editor - The tldraw editor instance
+ */
+export function useTimelineSnapping(editor: Editor | null) {
+  useEffect(() => {
+    if (!editor) return;
+    return registerTimelineSnapping(editor);
+  }, [editor]);
+}
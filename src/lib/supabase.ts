@@ -116,6 +116,7 @@ export interface Database {
           is_public: boolean
           sort_order: number
           shape_count: number
+          revision: number
           created_at: string
           updated_at: string
         }
@@ -130,6 +131,7 @@ export interface Database {
           is_public?: boolean
           sort_order?: number
           shape_count?: number
+          revision?: number
           created_at?: string
           updated_at?: string
         }
@@ -144,10 +146,95 @@ export interface Database {
           is_public?: boolean
           sort_order?: number
           shape_count?: number
+          revision?: number
           created_at?: string
           updated_at?: string
         }
       }
+      custom_poses: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          indian_name: string | null
+          category: number
+          sub_category: number | null
+          svg: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          indian_name?: string | null
+          category: number
+          sub_category?: number | null
+          svg: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          indian_name?: string | null
+          category?: number
+          sub_category?: number | null
+          svg?: string
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      canvas_versions: {
+        Row: {
+          id: string
+          canvas_id: string
+          user_id: string
+          data: unknown
+          shape_count: number
+          reason: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          canvas_id: string
+          user_id: string
+          data: unknown
+          shape_count?: number
+          reason?: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          canvas_id?: string
+          user_id?: string
+          data?: unknown
+          shape_count?: number
+          reason?: string
+          created_at?: string
+        }
+      }
+      pose_sketches: {
+        Row: {
+          pose_id: string
+          hash: string
+          svg: string
+          created_at: string
+        }
+        Insert: {
+          pose_id: string
+          hash: string
+          svg: string
+          created_at?: string
+        }
+        Update: {
+          pose_id?: string
+          hash?: string
+          svg?: string
+          created_at?: string
+        }
+      }
     }
     Views: {
       [_ in never]: never
@@ -171,4 +258,15 @@ export type UpdateFolder = Database['public']['Tables']['folders']['Update']
 
 export type Canvas = Database['public']['Tables']['canvases']['Row']
 export type NewCanvas = Database['public']['Tables']['canvases']['Insert']
-export type UpdateCanvas = Database['public']['Tables']['canvases']['Update'] 
\ No newline at end of file
+export type UpdateCanvas = Database['public']['Tables']['canvases']['Update']
+
+export type CustomPose = Database['public']['Tables']['custom_poses']['Row']
+export type NewCustomPose = Database['public']['Tables']['custom_poses']['Insert']
+export type UpdateCustomPose = Database['public']['Tables']['custom_poses']['Update']
+
+export type CanvasVersion = Database['public']['Tables']['canvas_versions']['Row']
+export type NewCanvasVersion = Database['public']['Tables']['canvas_versions']['Insert']
+export type CanvasVersionSummary = Omit<CanvasVersion, 'data'>
+
+export type PoseSketch = Database['public']['Tables']['pose_sketches']['Row']
+export type NewPoseSketch = Database['public']['Tables']['pose_sketches']['Insert']
\ No newline at end of file
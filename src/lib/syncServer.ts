@@ -0,0 +1,7 @@
+// The tldraw sync server behind collaboration rooms and asset uploads. In development it falls
+// back to the bundled one (`npm run sync-server`); production builds need VITE_TLDRAW_WORKER_URL,
+// and without it collaboration is turned off
+export const syncServerUrl: string | null = import.meta.env.VITE_TLDRAW_WORKER_URL ||
+  (import.meta.env.DEV ? 'http://localhost:8787' : null)
+
+export const isCollaborationAvailable = syncServerUrl !== null
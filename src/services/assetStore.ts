@@ -1,23 +1,25 @@
 import type { TLAssetStore, TLAsset } from 'tldraw'
+import { syncServerUrl } from '../lib/syncServer'
 
-// Asset store for handling file uploads to Cloudflare R2 via our sync server
+// Asset store for handling file uploads through the sync server
 export const assetStore: TLAssetStore = {
   async upload(asset: TLAsset, file: File, abortSignal?: AbortSignal) {
     try {
+      if (!syncServerUrl) {
+        throw new Error('No sync server is configured for uploads (set VITE_TLDRAW_WORKER_URL)')
+      }
+
       // Create FormData for file upload
       const formData = new FormData()
       formData.append('file', file)
       formData.append('asset', JSON.stringify(asset))
 
-      // Upload to our Cloudflare worker
-      const response = await fetch(
-        `${import.meta.env.VITE_TLDRAW_WORKER_URL || 'https://tldraw-worker.le-jckn.workers.dev'}/upload`,
-        {
-          method: 'POST',
-          body: formData,
-          signal: abortSignal,
-        }
-      )
+      // Upload to the sync server
+      const response = await fetch(`${syncServerUrl}/upload`, {
+        method: 'POST',
+        body: formData,
+        signal: abortSignal,
+      })
 
       if (!response.ok) {
         throw new Error(`Upload failed: ${response.statusText}`)
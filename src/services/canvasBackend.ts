@@ -0,0 +1,28 @@
+import { CanvasService } from './canvasService';
+import { LocalCanvasBackend } from './localCanvasBackend';
+
+// The parts of CanvasService the local-first storage reads from and replays writes against
+export type CanvasBackend = Pick<
+  typeof CanvasService,
+  | 'getRootFolder'
+  | 'getUserFolders'
+  | 'createFolder'
+  | 'updateFolder'
+  | 'deleteFolder'
+  | 'reorderFolders'
+  | 'getUserCanvases'
+  | 'getCanvasWithFolder'
+  | 'createCanvas'
+  | 'updateCanvas'
+  | 'deleteCanvas'
+  | 'moveCanvas'
+  | 'reorderCanvases'
+  | 'getCanvasVersions'
+  | 'getCanvasVersion'
+  | 'createCanvasVersion'
+  | 'getPoseSketches'
+  | 'putPoseSketches'
+>;
+
+export const canvasBackend: CanvasBackend =
+  import.meta.env.VITE_CANVAS_BACKEND === 'local' ? LocalCanvasBackend : CanvasService;
@@ -1,5 +1,7 @@
 import { supabase } from '../lib/supabase'
-import type { Folder, NewFolder, UpdateFolder, Canvas, NewCanvas, UpdateCanvas } from '../lib/supabase'
+import type { Folder, NewFolder, UpdateFolder, Canvas, NewCanvas, UpdateCanvas, CanvasVersion, NewCanvasVersion, CanvasVersionSummary, PoseSketch, NewPoseSketch } from '../lib/supabase'
+import { parsePoseSketchKey, poseSketchKey } from '../utils/canvas-encoding'
+import { canvasConflictError } from '../utils/canvas-merge'
 
 // Cache for root folder IDs to avoid multiple database calls
 const rootFolderCache = new Map<string, string>();
@@ -213,17 +215,28 @@ export class CanvasService {
   }
 
   /**
-   * Update a canvas
+   * Update a canvas. With an expected revision the update only applies while the canvas is
+   * still at that revision, and fails with a CANVAS_CONFLICT error when it has moved on.
    */
-  static async updateCanvas(id: string, updates: UpdateCanvas): Promise<Canvas> {
+  static async updateCanvas(id: string, updates: UpdateCanvas, expectedRevision?: number): Promise<Canvas> {
     try {
-      const { data, error } = await supabase
+      let query = supabase
         .from('canvases')
         .update(updates)
         .eq('id', id)
-        .select()
-        .single()
-      
+      if (expectedRevision !== undefined) query = query.eq('revision', expectedRevision)
+
+      const { data, error } = await query.select().single()
+
+      if (error?.code === 'PGRST116' && expectedRevision !== undefined) {
+        // No row matched: either the canvas is gone or someone else saved first
+        const { data: current } = await supabase
+          .from('canvases')
+          .select('id')
+          .eq('id', id)
+          .maybeSingle()
+        if (current) throw canvasConflictError(id)
+      }
       if (error) throw error
       return data
     } catch (error) {
@@ -553,6 +566,103 @@ export class CanvasService {
     }
   }
 
+  // ===== VERSION OPERATIONS =====
+
+  /**
+   * Get a canvas's saved versions, newest first, without their snapshot data
+   */
+  static async getCanvasVersions(canvasId: string): Promise<CanvasVersionSummary[]> {
+    try {
+      const { data, error } = await supabase
+        .from('canvas_versions')
+        .select('id, canvas_id, user_id, shape_count, reason, created_at')
+        .eq('canvas_id', canvasId)
+        .order('created_at', { ascending: false })
+
+      if (error) throw error
+      return data || []
+    } catch (error) {
+      console.error('Error fetching canvas versions:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Get a single version with its snapshot data
+   */
+  static async getCanvasVersion(id: string): Promise<CanvasVersion> {
+    try {
+      const { data, error } = await supabase
+        .from('canvas_versions')
+        .select('*')
+        .eq('id', id)
+        .single()
+
+      if (error) throw error
+      return data
+    } catch (error) {
+      console.error('Error fetching canvas version:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Save a version of a canvas. Older versions are pruned by the database's retention trigger.
+   */
+  static async createCanvasVersion(version: NewCanvasVersion): Promise<CanvasVersionSummary> {
+    try {
+      const { data, error } = await supabase
+        .from('canvas_versions')
+        .insert(version)
+        .select('id, canvas_id, user_id, shape_count, reason, created_at')
+        .single()
+
+      if (error) throw error
+      return data
+    } catch (error) {
+      console.error('Error creating canvas version:', error)
+      throw error
+    }
+  }
+
+  // ===== POSE SKETCH OPERATIONS =====
+
+  /**
+   * Get the shared pose sketches with the given keys (`<pose id>#<hash>`)
+   */
+  static async getPoseSketches(keys: string[]): Promise<PoseSketch[]> {
+    try {
+      const wanted = new Set(keys)
+      const hashes = [...new Set(keys.map(key => parsePoseSketchKey(key).hash))]
+      const { data, error } = await supabase
+        .from('pose_sketches')
+        .select('*')
+        .in('hash', hashes)
+
+      if (error) throw error
+      return (data || []).filter((sketch: PoseSketch) => wanted.has(poseSketchKey(sketch)))
+    } catch (error) {
+      console.error('Error fetching pose sketches:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Add pose sketches to the shared table. Rows never change, so ones already there are skipped.
+   */
+  static async putPoseSketches(sketches: NewPoseSketch[]): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('pose_sketches')
+        .upsert(sketches, { onConflict: 'pose_id,hash', ignoreDuplicates: true })
+
+      if (error) throw error
+    } catch (error) {
+      console.error('Error saving pose sketches:', error)
+      throw error
+    }
+  }
+
   // ===== UTILITY METHODS =====
 
   /**
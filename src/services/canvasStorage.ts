@@ -0,0 +1,554 @@
+import { arrayMove } from '@dnd-kit/sortable';
+import type {
+  Folder,
+  NewFolder,
+  UpdateFolder,
+  Canvas,
+  NewCanvas,
+  UpdateCanvas,
+  CanvasVersion,
+  NewCanvasVersion,
+  CanvasVersionSummary,
+  NewPoseSketch,
+} from '../lib/supabase';
+import type { CanvasMutation } from '../types/canvas-sync';
+import { ConflictResolution, type CanvasConflict, type CanvasContentChange } from '../types/canvas-conflict';
+import { canvasBackend } from './canvasBackend';
+import { LocalCanvasStore } from './localCanvasStore';
+import { SyncQueue } from './syncQueue';
+import {
+  CANVAS_DATA_MAX_BYTES,
+  canvasTooLargeError,
+  decodeCanvasState,
+  encodeCanvasState,
+  getCanvasDataSize,
+  isEncodedCanvasState,
+  isRawCanvasState,
+  poseSketchKey,
+} from '../utils/canvas-encoding';
+import { mergeCanvasStates } from '../utils/canvas-merge';
+
+export interface CanvasStorageData {
+  folders: Folder[];
+  canvases: Canvas[];
+}
+
+const nextSortOrder = (rows: { sort_order: number }[]) => Math.max(0, ...rows.map(row => row.sort_order || 0)) + 1;
+
+// Rows whose sort_order changes when they are put in the given order, numbered from 1 like the database does
+const withSequentialOrder = <T extends { id: string; sort_order: number }>(rows: T[]): T[] =>
+  rows.flatMap((row, index) => (row.sort_order === index + 1 ? [] : [{ ...row, sort_order: index + 1 }]));
+
+const folderCanvases = (canvases: Canvas[], folderId: string | null) =>
+  canvases.filter(canvas => canvas.folder_id === folderId);
+
+// Pose sketches already stored locally and queued for the server in this session
+const storedSketchKeys = new Set<string>();
+
+const contentListeners = new Set<(change: CanvasContentChange) => void>();
+
+const notifyContentChange = (change: CanvasContentChange) => {
+  contentListeners.forEach(listener => listener(change));
+};
+
+// The same update without its content, or null when nothing else is left in it
+const withoutContent = (mutation: CanvasMutation & { type: 'update-canvas' }): CanvasMutation | null => {
+  const updates = { ...mutation.updates };
+  delete updates.data;
+  delete updates.shape_count;
+  return Object.keys(updates).length > 0 ? { ...mutation, updates } : null;
+};
+
+/**
+ * Local-first storage for folders and canvases. Every write lands in IndexedDB straight away
+ * and is queued for the server, so edits survive a dropped connection. The methods mirror
+ * CanvasService, including how it assigns sort orders.
+ */
+export class CanvasStorage {
+  /**
+   * Encode canvas data from the editor for storage, along with the pose sketches it refers to
+   * that aren't stored yet. The caller stores those before anything that refers to them. Data
+   * that is already encoded, or isn't a canvas state, is returned as it is.
+   */
+  private static async encodeContent(data: unknown): Promise<{ data: unknown; newSketches: NewPoseSketch[] }> {
+    if (!isRawCanvasState(data)) return { data, newSketches: [] };
+
+    const { state, sketches } = await encodeCanvasState(data);
+    const unknownSketches = sketches.filter(sketch => !storedSketchKeys.has(poseSketchKey(sketch)));
+    if (unknownSketches.length === 0) return { data: state, newSketches: [] };
+
+    const local = await LocalCanvasStore.getPoseSketches(unknownSketches.map(poseSketchKey));
+    unknownSketches
+      .filter(sketch => local.has(poseSketchKey(sketch)))
+      .forEach(sketch => storedSketchKeys.add(poseSketchKey(sketch)));
+    return { data: state, newSketches: unknownSketches.filter(sketch => !local.has(poseSketchKey(sketch))) };
+  }
+
+  /**
+   * Encode canvas data from the editor for storage, queueing the pose sketches it refers to
+   * ahead of it
+   */
+  private static async encodeData(data: unknown): Promise<unknown> {
+    const { data: encoded, newSketches } = await this.encodeContent(data);
+    if (newSketches.length > 0) {
+      await SyncQueue.commit({ poseSketches: newSketches }, { type: 'put-pose-sketches', sketches: newSketches });
+      newSketches.forEach(sketch => storedSketchKeys.add(poseSketchKey(sketch)));
+    }
+    return encoded;
+  }
+
+  /**
+   * Turn stored canvas data back into a canvas state for the editor, fetching pose sketches
+   * that aren't stored locally from the server
+   */
+  private static async decodeData(data: unknown): Promise<unknown> {
+    if (!isEncodedCanvasState(data)) return data;
+
+    const sketchSvgs = await LocalCanvasStore.getPoseSketches(data.sketches);
+    const missingKeys = data.sketches.filter(key => !sketchSvgs.has(key));
+    if (missingKeys.length > 0) {
+      try {
+        const fetched = await canvasBackend.getPoseSketches(missingKeys);
+        await LocalCanvasStore.apply({ poseSketches: fetched });
+        fetched.forEach(sketch => sketchSvgs.set(poseSketchKey(sketch), sketch.svg));
+      } catch (error) {
+        console.error('Error fetching pose sketches from the server:', error);
+      }
+    }
+    return decodeCanvasState(data, sketchSvgs);
+  }
+
+  /**
+   * Load the user's folders and canvases. With sync on, queued writes are pushed first and the
+   * server's copy replaces the local one when nothing is left pending; offline, or while writes
+   * are still queued, the local copy is used.
+   */
+  static async load(userId: string, { sync }: { sync: boolean }): Promise<CanvasStorageData> {
+    if (sync) {
+      await SyncQueue.flush();
+      if (SyncQueue.getStatus().pending === 0) {
+        try {
+          const [folders, canvases, rootFolderId, conflicts] = await Promise.all([
+            canvasBackend.getUserFolders(userId),
+            canvasBackend.getUserCanvases(userId),
+            canvasBackend.getRootFolder(userId),
+            LocalCanvasStore.getConflicts(),
+          ]);
+          // A canvas in conflict keeps its local content until the user settles the conflict
+          const conflicted = new Set(conflicts.map(conflict => conflict.canvasId));
+          await LocalCanvasStore.replaceUserData(
+            userId,
+            folders,
+            canvases.map(canvas => conflicted.has(canvas.id) ? { ...canvas, data: null } : canvas)
+          );
+          await LocalCanvasStore.setRootFolderId(userId, rootFolderId);
+          return { folders, canvases };
+        } catch (error) {
+          console.error('Error loading folders and canvases from the server, using the local copy:', error);
+        }
+      }
+    }
+
+    const [folders, canvases] = await Promise.all([
+      LocalCanvasStore.getFolders(userId),
+      LocalCanvasStore.getCanvases(userId),
+    ]);
+    return { folders, canvases };
+  }
+
+  /**
+   * Get a canvas with its content, from the server only when it isn't stored locally yet
+   */
+  static async getCanvas(id: string, { sync }: { sync: boolean }): Promise<Canvas | null> {
+    let canvas = await LocalCanvasStore.getCanvas(id);
+    if (!canvas && sync) {
+      try {
+        canvas = await canvasBackend.getCanvasWithFolder(id);
+        await LocalCanvasStore.apply({
+          canvases: [canvas],
+          canvasBases: [{ canvasId: id, revision: canvas.revision ?? 0, data: canvas.data }],
+        });
+      } catch (error) {
+        console.error('Error fetching canvas from the server:', error);
+      }
+    }
+    if (!canvas) return null;
+
+    return { ...canvas, data: await this.decodeData(canvas.data) };
+  }
+
+  /**
+   * A canvas as stored on this device, with its content still encoded
+   */
+  static async getStoredCanvas(id: string): Promise<Canvas | null> {
+    return (await LocalCanvasStore.getCanvas(id)) ?? null;
+  }
+
+  /**
+   * The user's root folder id, remembered from the server so it is known offline. Null until
+   * the server has been reached once.
+   */
+  static async getRootFolder(userId: string): Promise<string | null> {
+    const cached = await LocalCanvasStore.getRootFolderId(userId);
+    if (cached) return cached;
+
+    try {
+      const rootFolderId = await canvasBackend.getRootFolder(userId);
+      await LocalCanvasStore.setRootFolderId(userId, rootFolderId);
+      return rootFolderId;
+    } catch (error) {
+      console.error('Error fetching root folder from the server:', error);
+      return null;
+    }
+  }
+
+  // ===== FOLDER OPERATIONS =====
+
+  static async createFolder(folder: NewFolder, insertAtBeginning: boolean = false): Promise<Folder> {
+    const folders = await LocalCanvasStore.getFolders(folder.user_id);
+    const now = new Date().toISOString();
+    const created: Folder = {
+      description: null,
+      color: '',
+      parent_folder_id: null,
+      created_at: now,
+      updated_at: now,
+      ...folder,
+      id: folder.id ?? crypto.randomUUID(),
+      sort_order: insertAtBeginning ? 1 : nextSortOrder(folders),
+    };
+    const shifted = insertAtBeginning ? folders.map(f => ({ ...f, sort_order: f.sort_order + 1 })) : [];
+
+    await SyncQueue.commit(
+      { folders: [...shifted, created] },
+      { type: 'create-folder', folder: { ...folder, id: created.id }, insertAtBeginning }
+    );
+    return created;
+  }
+
+  static async updateFolder(id: string, updates: UpdateFolder): Promise<Folder> {
+    const folder = await LocalCanvasStore.getFolder(id);
+    if (!folder) throw new Error('Folder not found');
+
+    const updated = { ...folder, ...updates, updated_at: new Date().toISOString() };
+    await SyncQueue.commit({ folders: [updated] }, { type: 'update-folder', id, updates });
+    return updated;
+  }
+
+  /**
+   * Delete a folder, moving its canvases to the top level
+   */
+  static async deleteFolder(id: string): Promise<void> {
+    const folder = await LocalCanvasStore.getFolder(id);
+    const canvases = folder ? await LocalCanvasStore.getCanvases(folder.user_id) : [];
+
+    await SyncQueue.commit(
+      {
+        canvases: folderCanvases(canvases, id).map(canvas => ({ ...canvas, folder_id: null })),
+        deletedFolderIds: [id],
+      },
+      { type: 'delete-folder', id }
+    );
+  }
+
+  static async reorderFolders(userId: string, sourceId: string, targetId: string): Promise<void> {
+    const folders = await LocalCanvasStore.getFolders(userId);
+    const targetIndex = folders.findIndex(f => f.id === targetId);
+    const source = folders.find(f => f.id === sourceId);
+    if (targetIndex === -1) throw new Error('Target folder not found');
+    if (!source) throw new Error('Source folder not found');
+
+    const reordered = folders.filter(f => f.id !== sourceId);
+    reordered.splice(targetIndex, 0, source);
+
+    await SyncQueue.commit(
+      { folders: withSequentialOrder(reordered) },
+      { type: 'reorder-folders', userId, sourceId, targetId }
+    );
+  }
+
+  // ===== CANVAS OPERATIONS =====
+
+  /**
+   * Create a canvas. Like on the server, top-level canvases go in the user's root folder once
+   * its id is known.
+   */
+  static async createCanvas(canvas: NewCanvas, insertAtBeginning: boolean = false): Promise<Canvas> {
+    if (canvas.data !== undefined) canvas = { ...canvas, data: await this.encodeData(canvas.data) };
+    const folderId = canvas.folder_id || await this.getRootFolder(canvas.user_id);
+    const siblings = folderCanvases(await LocalCanvasStore.getCanvases(canvas.user_id), folderId);
+    const now = new Date().toISOString();
+    const created: Canvas = {
+      title: 'Untitled Flow',
+      description: null,
+      data: {},
+      thumbnail: null,
+      is_public: false,
+      shape_count: 0,
+      revision: 0,
+      created_at: now,
+      updated_at: now,
+      ...canvas,
+      id: canvas.id ?? crypto.randomUUID(),
+      folder_id: folderId,
+      sort_order: insertAtBeginning ? 1 : nextSortOrder(siblings),
+    };
+    const shifted = insertAtBeginning ? siblings.map(c => ({ ...c, sort_order: c.sort_order + 1 })) : [];
+
+    await SyncQueue.commit(
+      { canvases: [...shifted, created] },
+      { type: 'create-canvas', canvas: { ...canvas, id: created.id }, insertAtBeginning }
+    );
+    return created;
+  }
+
+  /**
+   * Update a canvas. New content is encoded, and refused with a CANVAS_TOO_LARGE error when the
+   * encoded data is over CANVAS_DATA_MAX_BYTES. Resolves to the canvas as stored, with its data
+   * still encoded.
+   */
+  static async updateCanvas(id: string, updates: UpdateCanvas): Promise<Canvas> {
+    const canvas = await LocalCanvasStore.getCanvas(id);
+    if (!canvas) throw new Error('Canvas not found');
+
+    if (updates.data !== undefined) {
+      updates = { ...updates, data: await this.encodeData(updates.data) };
+      const bytes = getCanvasDataSize(updates.data);
+      if (bytes > CANVAS_DATA_MAX_BYTES) throw canvasTooLargeError(bytes);
+    }
+
+    const updated = { ...canvas, ...updates, updated_at: new Date().toISOString() };
+    await SyncQueue.commit({ canvases: [updated] }, { type: 'update-canvas', id, updates });
+    return updated;
+  }
+
+  static async deleteCanvas(id: string): Promise<void> {
+    const canvas = await LocalCanvasStore.getCanvas(id);
+    if (!canvas) throw new Error('Canvas not found');
+
+    const remaining = folderCanvases(await LocalCanvasStore.getCanvases(canvas.user_id), canvas.folder_id)
+      .filter(c => c.id !== id);
+    await SyncQueue.commit(
+      { canvases: withSequentialOrder(remaining), deletedCanvasIds: [id] },
+      { type: 'delete-canvas', id }
+    );
+  }
+
+  /**
+   * Move a canvas to the top of another folder
+   */
+  static async moveCanvas(canvasId: string, folderId: string | null): Promise<Canvas> {
+    const canvas = await LocalCanvasStore.getCanvas(canvasId);
+    if (!canvas) throw new Error('Canvas not found');
+    if (canvas.folder_id === folderId) return canvas;
+
+    const canvases = await LocalCanvasStore.getCanvases(canvas.user_id);
+    const moved = { ...canvas, folder_id: folderId, updated_at: new Date().toISOString() };
+    const source = folderCanvases(canvases, canvas.folder_id).filter(c => c.id !== canvasId);
+    const target = [moved, ...folderCanvases(canvases, folderId)].map((c, index) => ({ ...c, sort_order: index + 1 }));
+
+    await SyncQueue.commit(
+      { canvases: [...withSequentialOrder(source), ...target] },
+      { type: 'move-canvas', canvasId, folderId }
+    );
+    return target[0];
+  }
+
+  /**
+   * Move a canvas to the position of another canvas in the same folder
+   */
+  static async reorderCanvases(userId: string, sourceId: string, targetId: string): Promise<void> {
+    if (sourceId === targetId) return;
+
+    const canvases = await LocalCanvasStore.getCanvases(userId);
+    const source = canvases.find(c => c.id === sourceId);
+    const target = canvases.find(c => c.id === targetId);
+    if (!source) throw new Error('Source canvas not found');
+    if (!target) throw new Error('Target canvas not found');
+    if (source.folder_id !== target.folder_id) {
+      throw new Error('Canvases must be in the same folder for reordering');
+    }
+
+    const siblings = folderCanvases(canvases, source.folder_id);
+    const reordered = arrayMove(siblings, siblings.indexOf(source), siblings.indexOf(target));
+    await SyncQueue.commit(
+      { canvases: withSequentialOrder(reordered) },
+      { type: 'reorder-canvases', userId, sourceId, targetId }
+    );
+  }
+
+  // ===== VERSION OPERATIONS =====
+
+  /**
+   * Save a version of a canvas. Versions aren't kept locally: the snapshot waits in the sync
+   * queue, behind the writes that created the canvas, until the server takes it.
+   */
+  static async createCanvasVersion(version: NewCanvasVersion): Promise<CanvasVersionSummary> {
+    // Timestamped now rather than when the queue replays it
+    const queued = {
+      ...version,
+      data: await this.encodeData(version.data),
+      id: version.id ?? crypto.randomUUID(),
+      created_at: version.created_at ?? new Date().toISOString(),
+    };
+    await SyncQueue.commit({}, { type: 'create-canvas-version', version: queued });
+    return {
+      id: queued.id,
+      canvas_id: queued.canvas_id,
+      user_id: queued.user_id,
+      shape_count: queued.shape_count ?? 0,
+      reason: queued.reason ?? 'auto',
+      created_at: queued.created_at,
+    };
+  }
+
+  /**
+   * List a canvas's versions from the server, after pushing any that are still queued
+   */
+  static async getCanvasVersions(canvasId: string): Promise<CanvasVersionSummary[]> {
+    await SyncQueue.flush();
+    return canvasBackend.getCanvasVersions(canvasId);
+  }
+
+  static async getCanvasVersion(id: string): Promise<CanvasVersion> {
+    const version = await canvasBackend.getCanvasVersion(id);
+    return { ...version, data: await this.decodeData(version.data) };
+  }
+
+  // ===== CONFLICTS =====
+
+  /**
+   * Listen for canvas content changed by a sync rather than by the editor: changes from another
+   * device merged in, a conflict found, or a conflict settled by taking the other copy
+   */
+  static subscribeContentChanges(listener: (change: CanvasContentChange) => void): () => void {
+    contentListeners.add(listener);
+    return () => {
+      contentListeners.delete(listener);
+    };
+  }
+
+  static async getConflicts(): Promise<CanvasConflict[]> {
+    return LocalCanvasStore.getConflicts();
+  }
+
+  /**
+   * Settle a content save the server refused because the canvas changed elsewhere. The newest
+   * local content is merged with the server's; when that merges cleanly the merge replaces the
+   * local content and is saved in place of the refused save, otherwise a conflict is recorded
+   * for the user and the canvas's content stops syncing until they settle it. Called by the
+   * sync queue, which retries the returned save straight away.
+   */
+  static async resolveConflict(mutation: CanvasMutation): Promise<CanvasMutation | null> {
+    if (mutation.type !== 'update-canvas' || mutation.updates.data === undefined) return mutation;
+
+    const { id } = mutation;
+    if (await LocalCanvasStore.getConflict(id)) return withoutContent(mutation);
+
+    const remote = await canvasBackend.getCanvasWithFolder(id);
+    const remoteBase = { canvasId: id, revision: remote.revision ?? 0, data: remote.data };
+    const [baseState, remoteState] = await Promise.all(
+      [(await LocalCanvasStore.getCanvasBase(id))?.data, remote.data].map(data => this.decodeData(data))
+    );
+
+    // A local save committed while merging isn't in the merge, so merge again from it
+    for (;;) {
+      const local = await LocalCanvasStore.getCanvas(id);
+      if (!local) return withoutContent(mutation);
+
+      const localState = await this.decodeData(local.data);
+      if (!isRawCanvasState(localState)) {
+        // Nothing local to merge, so the save goes ahead over the server's copy
+        await LocalCanvasStore.apply({ canvasBases: [remoteBase] });
+        return mutation;
+      }
+
+      const merge = mergeCanvasStates(
+        isRawCanvasState(baseState) ? baseState : null,
+        localState,
+        isRawCanvasState(remoteState) ? remoteState : null
+      );
+
+      if (merge.conflicts.length > 0) {
+        await LocalCanvasStore.apply({
+          conflicts: [{ canvasId: id, remote, conflictingRecords: merge.conflicts.length, detectedAt: Date.now() }],
+          discardQueuedContentOf: [id],
+        });
+        notifyContentChange({ type: 'conflict', canvasId: id });
+        return withoutContent(mutation);
+      }
+
+      // The save is retried before anything queued, so sketches new to the merge go to the
+      // server now rather than through the queue
+      const { data, newSketches } = await this.encodeContent(merge.state);
+      if (newSketches.length > 0) await canvasBackend.putPoseSketches(newSketches);
+
+      // Later queued saves don't have the other device's changes; the merge includes their content
+      const isApplied = await LocalCanvasStore.apply({
+        canvases: [{ ...local, data }],
+        poseSketches: newSketches,
+        canvasBases: [remoteBase],
+        discardQueuedContentOf: [id],
+        onlyIfUnchanged: local,
+      });
+      if (!isApplied) continue;
+
+      newSketches.forEach(sketch => storedSketchKeys.add(poseSketchKey(sketch)));
+      notifyContentChange({ type: 'merged', canvasId: id, ...merge.remoteChanges });
+      return { ...mutation, updates: { ...mutation.updates, data, shape_count: local.shape_count } };
+    }
+  }
+
+  /**
+   * Settle a recorded conflict the way the user chose. Resolves to the canvas created for
+   * this device's content when forking, null otherwise.
+   */
+  static async resolveCanvasConflict(canvasId: string, resolution: ConflictResolution): Promise<Canvas | null> {
+    const conflict = await LocalCanvasStore.getConflict(canvasId);
+    const local = await LocalCanvasStore.getCanvas(canvasId);
+    if (!conflict || !local) {
+      await LocalCanvasStore.apply({ resolvedConflictIds: [canvasId] });
+      return null;
+    }
+
+    const { remote } = conflict;
+    const remoteBase = { canvasId, revision: remote.revision ?? 0, data: remote.data };
+
+    if (resolution === ConflictResolution.KEEP_MINE) {
+      // Based on the server's copy now, so the save overwrites it unless it has changed again
+      await SyncQueue.commit(
+        { canvasBases: [remoteBase], resolvedConflictIds: [canvasId] },
+        { type: 'update-canvas', id: canvasId, updates: { data: local.data, shape_count: local.shape_count } }
+      );
+      return null;
+    }
+
+    const forked = resolution === ConflictResolution.FORK
+      ? await this.createCanvas({
+        user_id: local.user_id,
+        folder_id: local.folder_id,
+        title: `${local.title} (conflicted copy)`,
+        data: local.data,
+        shape_count: local.shape_count,
+        thumbnail: local.thumbnail,
+      })
+      : null;
+
+    await LocalCanvasStore.apply({
+      canvases: [{
+        ...local,
+        data: remote.data,
+        shape_count: remote.shape_count,
+        thumbnail: remote.thumbnail,
+        revision: remote.revision,
+      }],
+      canvasBases: [remoteBase],
+      resolvedConflictIds: [canvasId],
+      discardQueuedContentOf: [canvasId],
+    });
+    notifyContentChange({ type: 'replaced', canvasId });
+    return forked;
+  }
+}
+
+SyncQueue.setConflictResolver(mutation => CanvasStorage.resolveConflict(mutation));
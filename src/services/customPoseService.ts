@@ -0,0 +1,80 @@
+import { supabase } from '../lib/supabase'
+import type { CustomPose, NewCustomPose, UpdateCustomPose } from '../lib/supabase'
+
+// Custom Pose Service for the user's own uploaded pose sketches
+export class CustomPoseService {
+  /**
+   * Get all custom poses for a user
+   */
+  static async getUserCustomPoses(userId: string): Promise<CustomPose[]> {
+    try {
+      const { data, error } = await supabase
+        .from('custom_poses')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at')
+
+      if (error) throw error
+      return data || []
+    } catch (error) {
+      console.error('Error fetching custom poses:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Create a new custom pose. The SVG must already be sanitized.
+   */
+  static async createCustomPose(pose: NewCustomPose): Promise<CustomPose> {
+    try {
+      const { data, error } = await supabase
+        .from('custom_poses')
+        .insert(pose)
+        .select()
+        .single()
+
+      if (error) throw error
+      return data
+    } catch (error) {
+      console.error('Error creating custom pose:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Update a custom pose
+   */
+  static async updateCustomPose(id: string, updates: UpdateCustomPose): Promise<CustomPose> {
+    try {
+      const { data, error } = await supabase
+        .from('custom_poses')
+        .update(updates)
+        .eq('id', id)
+        .select()
+        .single()
+
+      if (error) throw error
+      return data
+    } catch (error) {
+      console.error('Error updating custom pose:', error)
+      throw error
+    }
+  }
+
+  /**
+   * Delete a custom pose
+   */
+  static async deleteCustomPose(id: string): Promise<void> {
+    try {
+      const { error } = await supabase
+        .from('custom_poses')
+        .delete()
+        .eq('id', id)
+
+      if (error) throw error
+    } catch (error) {
+      console.error('Error deleting custom pose:', error)
+      throw error
+    }
+  }
+}
@@ -0,0 +1,355 @@
+import { arrayMove } from '@dnd-kit/sortable';
+import type {
+  Folder,
+  NewFolder,
+  UpdateFolder,
+  Canvas,
+  NewCanvas,
+  UpdateCanvas,
+  CanvasVersion,
+  NewCanvasVersion,
+  CanvasVersionSummary,
+  PoseSketch,
+  NewPoseSketch,
+} from '../lib/supabase';
+import { poseSketchKey } from '../utils/canvas-encoding';
+import { canvasConflictError } from '../utils/canvas-merge';
+
+const STORAGE_KEY = 'yoga_flow_local_backend';
+const LATENCY_MS = 150;
+
+// Same limits as the prune_canvas_versions trigger
+const MAX_AUTO_VERSIONS = 30;
+const MAX_OTHER_VERSIONS = 20;
+const MAX_VERSION_AGE_MS = 90 * 24 * 60 * 60 * 1000;
+
+interface Tables {
+  folders: Folder[];
+  canvases: Canvas[];
+  canvasVersions?: CanvasVersion[]; // Missing in tables saved before versions existed
+  poseSketches?: PoseSketch[]; // Missing in tables saved before snapshots were encoded
+}
+
+// Errors shaped like the PostgREST errors Supabase returns
+const postgrestError = (code: string, message: string) => Object.assign(new Error(message), { code });
+
+const readTables = (): Tables => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) return JSON.parse(saved);
+  } catch (error) {
+    console.error('Error reading local backend tables:', error);
+  }
+  return { folders: [], canvases: [] };
+};
+
+const writeTables = (tables: Tables) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(tables));
+};
+
+// Every call takes a network round trip and fails like fetch does while the browser is offline,
+// so DevTools' "Offline" throttling exercises the sync queue
+const connect = async (): Promise<Tables> => {
+  await new Promise(resolve => setTimeout(resolve, LATENCY_MS));
+  if (!navigator.onLine) throw new TypeError('Failed to fetch');
+  return readTables();
+};
+
+const rootFolderRequests = new Map<string, Promise<string>>();
+
+const bySortOrder = <T extends { sort_order: number }>(a: T, b: T) => a.sort_order - b.sort_order;
+
+const resequence = (canvases: Canvas[], ids: string[]) => {
+  ids.forEach((id, index) => {
+    const canvas = canvases.find(c => c.id === id);
+    if (canvas) canvas.sort_order = index + 1;
+  });
+};
+
+const folderCanvases = (tables: Tables, userId: string, folderId: string | null) =>
+  tables.canvases.filter(c => c.user_id === userId && c.folder_id === folderId).sort(bySortOrder);
+
+const newestFirst = (a: CanvasVersion, b: CanvasVersion) => b.created_at.localeCompare(a.created_at);
+
+const toVersionSummary = ({ id, canvas_id, user_id, shape_count, reason, created_at }: CanvasVersion): CanvasVersionSummary =>
+  ({ id, canvas_id, user_id, shape_count, reason, created_at });
+
+const pruneVersions = (versions: CanvasVersion[], canvasId: string): CanvasVersion[] => {
+  const cutoff = new Date(Date.now() - MAX_VERSION_AGE_MS).toISOString();
+  const kept = { auto: 0, other: 0 };
+  const pruned = new Set(
+    versions
+      .filter(v => v.canvas_id === canvasId)
+      .sort(newestFirst)
+      .filter(v => {
+        const group = v.reason === 'auto' ? 'auto' : 'other';
+        kept[group] += 1;
+        const limit = group === 'auto' ? MAX_AUTO_VERSIONS : MAX_OTHER_VERSIONS;
+        return v.created_at < cutoff || kept[group] > limit;
+      })
+  );
+  return versions.filter(v => !pruned.has(v));
+};
+
+/**
+ * Stand-in for the Supabase tables and database functions behind CanvasService, kept in
+ * localStorage. Enable it with VITE_CANVAS_BACKEND=local to work on storage and sync without a
+ * Supabase project.
+ */
+export class LocalCanvasBackend {
+  static getRootFolder(userId: string): Promise<string> {
+    // Concurrent first calls share one request so only one root folder is created
+    let request = rootFolderRequests.get(userId);
+    if (!request) {
+      request = this.ensureRootFolder(userId).finally(() => rootFolderRequests.delete(userId));
+      rootFolderRequests.set(userId, request);
+    }
+    return request;
+  }
+
+  private static async ensureRootFolder(userId: string): Promise<string> {
+    const tables = await connect();
+    let root = tables.folders.find(f => f.user_id === userId && f.name === 'Root');
+    if (!root) {
+      const now = new Date().toISOString();
+      root = {
+        id: crypto.randomUUID(),
+        user_id: userId,
+        name: 'Root',
+        description: null,
+        color: '',
+        parent_folder_id: null,
+        sort_order: 0,
+        created_at: now,
+        updated_at: now,
+      };
+      tables.folders.push(root);
+      writeTables(tables);
+    }
+    return root.id;
+  }
+
+  static async getUserFolders(userId: string): Promise<Folder[]> {
+    const tables = await connect();
+    return tables.folders.filter(f => f.user_id === userId && f.name !== 'Root').sort(bySortOrder);
+  }
+
+  static async createFolder(folder: NewFolder, insertAtBeginning: boolean = false): Promise<Folder> {
+    const tables = await connect();
+    if (folder.id && tables.folders.some(f => f.id === folder.id)) {
+      throw postgrestError('23505', 'duplicate key value violates unique constraint "folders_pkey"');
+    }
+
+    const siblings = tables.folders.filter(f => f.user_id === folder.user_id && f.name !== 'Root');
+    if (insertAtBeginning) siblings.forEach(f => { f.sort_order += 1; });
+    const now = new Date().toISOString();
+    const created: Folder = {
+      description: null,
+      color: '',
+      parent_folder_id: null,
+      created_at: now,
+      updated_at: now,
+      ...folder,
+      id: folder.id ?? crypto.randomUUID(),
+      sort_order: insertAtBeginning ? 1 : Math.max(0, ...siblings.map(f => f.sort_order)) + 1,
+    };
+    tables.folders.push(created);
+    writeTables(tables);
+    return created;
+  }
+
+  static async updateFolder(id: string, updates: UpdateFolder): Promise<Folder> {
+    const tables = await connect();
+    const folder = tables.folders.find(f => f.id === id);
+    if (!folder) throw postgrestError('PGRST116', 'JSON object requested, multiple (or no) rows returned');
+    Object.assign(folder, updates, { updated_at: new Date().toISOString() });
+    writeTables(tables);
+    return folder;
+  }
+
+  static async deleteFolder(id: string): Promise<void> {
+    const tables = await connect();
+    tables.canvases.forEach(c => {
+      if (c.folder_id === id) c.folder_id = null;
+    });
+    tables.folders = tables.folders.filter(f => f.id !== id);
+    writeTables(tables);
+  }
+
+  static async reorderFolders(userId: string, sourceId: string, targetId: string): Promise<void> {
+    const tables = await connect();
+    const folders = tables.folders.filter(f => f.user_id === userId && f.name !== 'Root').sort(bySortOrder);
+    const targetIndex = folders.findIndex(f => f.id === targetId);
+    const source = folders.find(f => f.id === sourceId);
+    if (targetIndex === -1) throw new Error('Target folder not found');
+    if (!source) throw new Error('Source folder not found');
+
+    const reordered = folders.filter(f => f.id !== sourceId);
+    reordered.splice(targetIndex, 0, source);
+    reordered.forEach((folder, index) => { folder.sort_order = index + 1; });
+    writeTables(tables);
+  }
+
+  static async getUserCanvases(userId: string, folderId?: string | null): Promise<Canvas[]> {
+    const tables = await connect();
+    return tables.canvases
+      .filter(c => c.user_id === userId && (folderId === undefined || c.folder_id === folderId))
+      .sort(bySortOrder);
+  }
+
+  static async getCanvasWithFolder(canvasId: string): Promise<Canvas & { folder?: Folder }> {
+    const tables = await connect();
+    const canvas = tables.canvases.find(c => c.id === canvasId);
+    if (!canvas) throw postgrestError('PGRST116', 'JSON object requested, multiple (or no) rows returned');
+    return { ...canvas, folder: tables.folders.find(f => f.id === canvas.folder_id) };
+  }
+
+  static async createCanvas(canvas: NewCanvas, insertAtBeginning: boolean = false): Promise<Canvas> {
+    const folderId = canvas.folder_id || await this.getRootFolder(canvas.user_id);
+    const tables = await connect();
+    if (canvas.id && tables.canvases.some(c => c.id === canvas.id)) {
+      throw postgrestError('23505', 'duplicate key value violates unique constraint "canvases_pkey"');
+    }
+
+    const siblings = folderCanvases(tables, canvas.user_id, folderId);
+    if (insertAtBeginning) siblings.forEach(c => { c.sort_order += 1; });
+    const now = new Date().toISOString();
+    const created: Canvas = {
+      title: 'Untitled Flow',
+      description: null,
+      data: {},
+      thumbnail: null,
+      is_public: false,
+      shape_count: 0,
+      revision: 0,
+      created_at: now,
+      updated_at: now,
+      ...canvas,
+      id: canvas.id ?? crypto.randomUUID(),
+      folder_id: folderId,
+      sort_order: insertAtBeginning ? 1 : Math.max(0, ...siblings.map(c => c.sort_order)) + 1,
+    };
+    tables.canvases.push(created);
+    writeTables(tables);
+    return created;
+  }
+
+  static async updateCanvas(id: string, updates: UpdateCanvas, expectedRevision?: number): Promise<Canvas> {
+    const tables = await connect();
+    const canvas = tables.canvases.find(c => c.id === id);
+    if (!canvas) throw postgrestError('PGRST116', 'JSON object requested, multiple (or no) rows returned');
+    // Canvases saved before revisions existed are at revision 0
+    const revision = canvas.revision ?? 0;
+    if (expectedRevision !== undefined && expectedRevision !== revision) throw canvasConflictError(id);
+
+    // Like the bump_canvas_revision trigger
+    const dataChanged = updates.data !== undefined && JSON.stringify(updates.data) !== JSON.stringify(canvas.data);
+    Object.assign(canvas, updates, {
+      revision: dataChanged ? revision + 1 : revision,
+      updated_at: new Date().toISOString(),
+    });
+    writeTables(tables);
+    return canvas;
+  }
+
+  static async deleteCanvas(id: string): Promise<void> {
+    const tables = await connect();
+    const canvas = tables.canvases.find(c => c.id === id);
+    if (!canvas) throw postgrestError('PGRST116', 'JSON object requested, multiple (or no) rows returned');
+
+    tables.canvases = tables.canvases.filter(c => c.id !== id);
+    tables.canvasVersions = tables.canvasVersions?.filter(v => v.canvas_id !== id);
+    resequence(tables.canvases, folderCanvases(tables, canvas.user_id, canvas.folder_id).map(c => c.id));
+    writeTables(tables);
+  }
+
+  static async moveCanvas(canvasId: string, folderId: string | null): Promise<Canvas> {
+    const tables = await connect();
+    const canvas = tables.canvases.find(c => c.id === canvasId);
+    if (!canvas) throw new Error('Canvas not found');
+    if (canvas.folder_id === folderId) return canvas;
+
+    const sourceFolderId = canvas.folder_id;
+    const targetIds = folderCanvases(tables, canvas.user_id, folderId).map(c => c.id);
+    canvas.folder_id = folderId;
+    canvas.updated_at = new Date().toISOString();
+    resequence(tables.canvases, folderCanvases(tables, canvas.user_id, sourceFolderId).map(c => c.id));
+    resequence(tables.canvases, [canvasId, ...targetIds]);
+    writeTables(tables);
+    return canvas;
+  }
+
+  static async reorderCanvases(userId: string, sourceId: string, targetId: string): Promise<void> {
+    if (sourceId === targetId) return;
+
+    const tables = await connect();
+    const source = tables.canvases.find(c => c.id === sourceId && c.user_id === userId);
+    const target = tables.canvases.find(c => c.id === targetId && c.user_id === userId);
+    if (!source) throw new Error('Source canvas not found');
+    if (!target) throw new Error('Target canvas not found');
+    if (source.folder_id !== target.folder_id) {
+      throw new Error('Canvases must be in the same folder for reordering');
+    }
+
+    const ids = folderCanvases(tables, userId, source.folder_id).map(c => c.id);
+    resequence(tables.canvases, arrayMove(ids, ids.indexOf(sourceId), ids.indexOf(targetId)));
+    writeTables(tables);
+  }
+
+  static async getCanvasVersions(canvasId: string): Promise<CanvasVersionSummary[]> {
+    const tables = await connect();
+    return (tables.canvasVersions ?? [])
+      .filter(v => v.canvas_id === canvasId)
+      .sort(newestFirst)
+      .map(toVersionSummary);
+  }
+
+  static async getCanvasVersion(id: string): Promise<CanvasVersion> {
+    const tables = await connect();
+    const version = tables.canvasVersions?.find(v => v.id === id);
+    if (!version) throw postgrestError('PGRST116', 'JSON object requested, multiple (or no) rows returned');
+    return version;
+  }
+
+  static async createCanvasVersion(version: NewCanvasVersion): Promise<CanvasVersionSummary> {
+    const tables = await connect();
+    const versions = tables.canvasVersions ?? [];
+    if (version.id && versions.some(v => v.id === version.id)) {
+      throw postgrestError('23505', 'duplicate key value violates unique constraint "canvas_versions_pkey"');
+    }
+    if (!tables.canvases.some(c => c.id === version.canvas_id)) {
+      throw postgrestError('23503', 'insert or update on table "canvas_versions" violates foreign key constraint');
+    }
+
+    const created: CanvasVersion = {
+      shape_count: 0,
+      reason: 'auto',
+      created_at: new Date().toISOString(),
+      ...version,
+      id: version.id ?? crypto.randomUUID(),
+    };
+    tables.canvasVersions = pruneVersions([...versions, created], created.canvas_id);
+    writeTables(tables);
+    return toVersionSummary(created);
+  }
+
+  static async getPoseSketches(keys: string[]): Promise<PoseSketch[]> {
+    const tables = await connect();
+    const wanted = new Set(keys);
+    return (tables.poseSketches ?? []).filter(sketch => wanted.has(poseSketchKey(sketch)));
+  }
+
+  static async putPoseSketches(sketches: NewPoseSketch[]): Promise<void> {
+    const tables = await connect();
+    const stored = tables.poseSketches ?? [];
+    const storedKeys = new Set(stored.map(poseSketchKey));
+    const now = new Date().toISOString();
+    tables.poseSketches = [
+      ...stored,
+      ...sketches
+        .filter(sketch => !storedKeys.has(poseSketchKey(sketch)))
+        .map(sketch => ({ created_at: now, ...sketch })),
+    ];
+    writeTables(tables);
+  }
+}
@@ -0,0 +1,375 @@
+import type { Canvas, Folder, NewPoseSketch } from '../lib/supabase';
+import type { CanvasBase, CanvasMutation, FailedMutation, QueuedMutation } from '../types/canvas-sync';
+import type { CanvasConflict } from '../types/canvas-conflict';
+import { parsePoseSketchKey } from '../utils/canvas-encoding';
+
+const DB_NAME = 'yoga-planner';
+const DB_VERSION = 4;
+
+const FOLDERS = 'folders';
+const CANVASES = 'canvases';
+const SYNC_QUEUE = 'sync-queue';
+const META = 'meta';
+const POSE_SKETCHES = 'pose-sketches';
+const CANVAS_BASES = 'canvas-bases';
+const CANVAS_CONFLICTS = 'canvas-conflicts';
+const FAILED_MUTATIONS = 'failed-mutations';
+
+// Changes written in a single transaction, so a local write and its queued mutation land together
+export interface LocalChangeSet {
+  folders?: Folder[];
+  canvases?: Canvas[];
+  deletedFolderIds?: string[];
+  deletedCanvasIds?: string[];
+  poseSketches?: NewPoseSketch[];
+  canvasBases?: CanvasBase[];
+  conflicts?: CanvasConflict[];
+  resolvedConflictIds?: string[];
+  // Canvases whose queued content saves are dropped, keeping any other queued updates of them
+  discardQueuedContentOf?: string[];
+  // The local canvas as it was read to work these changes out; nothing is written if it has changed since
+  onlyIfUnchanged?: Canvas;
+  enqueue?: {
+    mutation: CanvasMutation;
+    // Folds the mutation into the last queued one instead of adding it, when it returns a merged entry
+    coalesce?: (last: QueuedMutation) => QueuedMutation | null;
+  };
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  databasePromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      if (event.oldVersion < 1) {
+        db.createObjectStore(FOLDERS, { keyPath: 'id' }).createIndex('user_id', 'user_id');
+        db.createObjectStore(CANVASES, { keyPath: 'id' }).createIndex('user_id', 'user_id');
+        db.createObjectStore(SYNC_QUEUE, { keyPath: 'seq', autoIncrement: true });
+        db.createObjectStore(META);
+      }
+      if (event.oldVersion < 2) {
+        db.createObjectStore(POSE_SKETCHES, { keyPath: ['pose_id', 'hash'] });
+      }
+      if (event.oldVersion < 3) {
+        db.createObjectStore(CANVAS_BASES, { keyPath: 'canvasId' });
+        db.createObjectStore(CANVAS_CONFLICTS, { keyPath: 'canvasId' });
+      }
+      if (event.oldVersion < 4) {
+        db.createObjectStore(FAILED_MUTATIONS, { keyPath: 'seq' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      databasePromise = null;
+      reject(request.error);
+    };
+  });
+  return databasePromise;
+};
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted'));
+  });
+
+// The canvas a mutation writes, if it writes one
+const mutatedCanvasId = (mutation: CanvasMutation): string | undefined => {
+  switch (mutation.type) {
+    case 'create-canvas':
+      return mutation.canvas.id;
+    case 'update-canvas':
+    case 'delete-canvas':
+      return mutation.id;
+    case 'move-canvas':
+      return mutation.canvasId;
+    case 'create-canvas-version':
+      return mutation.version.canvas_id;
+    default:
+      return undefined;
+  }
+};
+
+const bySortOrder = <T extends { sort_order: number }>(a: T, b: T) => (a.sort_order || 0) - (b.sort_order || 0);
+
+// IndexedDB copy of the user's folders and canvases plus the queue of writes not yet synced
+export class LocalCanvasStore {
+  static async getFolders(userId: string): Promise<Folder[]> {
+    const db = await openDatabase();
+    const index = db.transaction(FOLDERS).objectStore(FOLDERS).index('user_id');
+    const folders = await requestResult<Folder[]>(index.getAll(userId));
+    return folders.sort(bySortOrder);
+  }
+
+  static async getCanvases(userId: string): Promise<Canvas[]> {
+    const db = await openDatabase();
+    const index = db.transaction(CANVASES).objectStore(CANVASES).index('user_id');
+    const canvases = await requestResult<Canvas[]>(index.getAll(userId));
+    return canvases.sort(bySortOrder);
+  }
+
+  static async getFolder(id: string): Promise<Folder | undefined> {
+    const db = await openDatabase();
+    return requestResult<Folder | undefined>(db.transaction(FOLDERS).objectStore(FOLDERS).get(id));
+  }
+
+  static async getCanvas(id: string): Promise<Canvas | undefined> {
+    const db = await openDatabase();
+    return requestResult<Canvas | undefined>(db.transaction(CANVASES).objectStore(CANVASES).get(id));
+  }
+
+  /**
+   * The user's root folder id as last reported by the server, so canvases created offline land
+   * in the same place the server would put them
+   */
+  static async getRootFolderId(userId: string): Promise<string | null> {
+    const db = await openDatabase();
+    const value = await requestResult(db.transaction(META).objectStore(META).get(`root-folder:${userId}`));
+    return typeof value === 'string' ? value : null;
+  }
+
+  static async setRootFolderId(userId: string, folderId: string): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction(META, 'readwrite');
+    tx.objectStore(META).put(folderId, `root-folder:${userId}`);
+    await transactionDone(tx);
+  }
+
+  /**
+   * Replace the user's cached folders and canvases with the server's copy. Canvases the server
+   * returned without content keep their local content; the content it did return becomes the
+   * base of the next save. Canvases with failed mutations are left as they are locally, so the
+   * writes the server refused aren't lost before the user retries or discards them.
+   */
+  static async replaceUserData(userId: string, folders: Folder[], canvases: Canvas[]): Promise<void> {
+    const [localFolders, localCanvases, failed] = await Promise.all([
+      this.getFolders(userId),
+      this.getCanvases(userId),
+      this.getFailedMutations(),
+    ]);
+    const localData = new Map(localCanvases.map(canvas => [canvas.id, canvas.data]));
+    const remoteFolderIds = new Set(folders.map(folder => folder.id));
+    const remoteCanvasIds = new Set(canvases.map(canvas => canvas.id));
+    const keptCanvasIds = new Set(failed.map(entry => mutatedCanvasId(entry.mutation)).filter(id => id !== undefined));
+    const replaced = canvases.filter(canvas => !keptCanvasIds.has(canvas.id));
+
+    await this.apply({
+      folders,
+      canvases: replaced.map(canvas => canvas.data ? canvas : { ...canvas, data: localData.get(canvas.id) ?? canvas.data }),
+      canvasBases: replaced
+        .filter(canvas => canvas.data)
+        .map(canvas => ({ canvasId: canvas.id, revision: canvas.revision ?? 0, data: canvas.data })),
+      deletedFolderIds: localFolders.filter(folder => !remoteFolderIds.has(folder.id)).map(folder => folder.id),
+      deletedCanvasIds: localCanvases
+        .filter(canvas => !remoteCanvasIds.has(canvas.id) && !keptCanvasIds.has(canvas.id))
+        .map(canvas => canvas.id),
+    });
+  }
+
+  /**
+   * Write a change set in one transaction. Resolves to false when it was held back because the
+   * canvas in `onlyIfUnchanged` was saved again in the meantime.
+   */
+  static async apply(changes: LocalChangeSet): Promise<boolean> {
+    const db = await openDatabase();
+    const tx = db.transaction(
+      [FOLDERS, CANVASES, POSE_SKETCHES, CANVAS_BASES, CANVAS_CONFLICTS, SYNC_QUEUE],
+      'readwrite'
+    );
+    const folders = tx.objectStore(FOLDERS);
+    const canvases = tx.objectStore(CANVASES);
+    const poseSketches = tx.objectStore(POSE_SKETCHES);
+    const canvasBases = tx.objectStore(CANVAS_BASES);
+    const conflicts = tx.objectStore(CANVAS_CONFLICTS);
+    let isApplied = true;
+
+    const write = () => {
+      changes.folders?.forEach(folder => folders.put(folder));
+      changes.canvases?.forEach(canvas => canvases.put(canvas));
+      changes.deletedFolderIds?.forEach(id => folders.delete(id));
+      changes.deletedCanvasIds?.forEach((id) => {
+        canvases.delete(id);
+        canvasBases.delete(id);
+        conflicts.delete(id);
+      });
+      changes.poseSketches?.forEach(sketch => poseSketches.put(sketch));
+      changes.canvasBases?.forEach(base => canvasBases.put(base));
+      changes.conflicts?.forEach(conflict => conflicts.put(conflict));
+      changes.resolvedConflictIds?.forEach(id => conflicts.delete(id));
+
+      if (changes.discardQueuedContentOf?.length) {
+        const discarded = new Set(changes.discardQueuedContentOf);
+        const cursorRequest = tx.objectStore(SYNC_QUEUE).openCursor();
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (!cursor) return;
+          const entry = cursor.value as QueuedMutation;
+          if (entry.mutation.type === 'update-canvas' && discarded.has(entry.mutation.id)) {
+            const updates = { ...entry.mutation.updates };
+            delete updates.data;
+            delete updates.shape_count;
+            if (Object.keys(updates).length === 0) cursor.delete();
+            else cursor.update({ ...entry, mutation: { ...entry.mutation, updates } });
+          }
+          cursor.continue();
+        };
+      }
+
+      if (changes.enqueue) {
+        const { mutation, coalesce } = changes.enqueue;
+        const queue = tx.objectStore(SYNC_QUEUE);
+        const lastRequest = queue.openCursor(null, 'prev');
+        lastRequest.onsuccess = () => {
+          const cursor = lastRequest.result;
+          const merged = cursor && coalesce ? coalesce(cursor.value as QueuedMutation) : null;
+          if (cursor && merged) {
+            cursor.update(merged);
+          } else {
+            queue.add({ mutation, attempts: 0, queuedAt: Date.now() } satisfies QueuedMutation);
+          }
+        };
+      }
+    };
+
+    if (changes.onlyIfUnchanged) {
+      const expected = changes.onlyIfUnchanged;
+      const currentRequest = canvases.get(expected.id);
+      currentRequest.onsuccess = () => {
+        const current = currentRequest.result as Canvas | undefined;
+        isApplied = !!current && current.updated_at === expected.updated_at
+          && JSON.stringify(current.data) === JSON.stringify(expected.data);
+        if (isApplied) write();
+      };
+    } else {
+      write();
+    }
+
+    await transactionDone(tx);
+    return isApplied;
+  }
+
+  // ===== POSE SKETCHES =====
+
+  /**
+   * The svg of each stored pose sketch among `keys` (`<pose id>#<hash>`), by key
+   */
+  static async getPoseSketches(keys: string[]): Promise<Map<string, string>> {
+    const db = await openDatabase();
+    const store = db.transaction(POSE_SKETCHES).objectStore(POSE_SKETCHES);
+    const sketches = await Promise.all(keys.map((key) => {
+      const { pose_id, hash } = parsePoseSketchKey(key);
+      return requestResult<NewPoseSketch | undefined>(store.get([pose_id, hash]));
+    }));
+    return new Map(keys.flatMap((key, index) => {
+      const sketch = sketches[index];
+      return sketch ? [[key, sketch.svg] as const] : [];
+    }));
+  }
+
+  // ===== SYNC STATE =====
+
+  static async getCanvasBase(canvasId: string): Promise<CanvasBase | undefined> {
+    const db = await openDatabase();
+    return requestResult<CanvasBase | undefined>(db.transaction(CANVAS_BASES).objectStore(CANVAS_BASES).get(canvasId));
+  }
+
+  // Conflicts waiting for the user to settle them, oldest first
+  static async getConflicts(): Promise<CanvasConflict[]> {
+    const db = await openDatabase();
+    const conflicts = await requestResult<CanvasConflict[]>(
+      db.transaction(CANVAS_CONFLICTS).objectStore(CANVAS_CONFLICTS).getAll()
+    );
+    return conflicts.sort((a, b) => a.detectedAt - b.detectedAt);
+  }
+
+  static async getConflict(canvasId: string): Promise<CanvasConflict | undefined> {
+    const db = await openDatabase();
+    return requestResult<CanvasConflict | undefined>(
+      db.transaction(CANVAS_CONFLICTS).objectStore(CANVAS_CONFLICTS).get(canvasId)
+    );
+  }
+
+  // ===== SYNC QUEUE =====
+
+  // The oldest queued mutation, which replays next
+  static async getNextQueued(): Promise<QueuedMutation | undefined> {
+    const db = await openDatabase();
+    const store = db.transaction(SYNC_QUEUE).objectStore(SYNC_QUEUE);
+    return requestResult<QueuedMutation | undefined>(store.get(IDBKeyRange.lowerBound(0)));
+  }
+
+  static async countQueue(): Promise<number> {
+    const db = await openDatabase();
+    return requestResult(db.transaction(SYNC_QUEUE).objectStore(SYNC_QUEUE).count());
+  }
+
+  static async updateQueued(entry: QueuedMutation): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction(SYNC_QUEUE, 'readwrite');
+    tx.objectStore(SYNC_QUEUE).put(entry);
+    await transactionDone(tx);
+  }
+
+  static async removeQueued(seq: number): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction(SYNC_QUEUE, 'readwrite');
+    tx.objectStore(SYNC_QUEUE).delete(seq);
+    await transactionDone(tx);
+  }
+
+  // ===== FAILED MUTATIONS =====
+
+  // Mutations taken off the queue after the server kept rejecting them, oldest first
+  static async getFailedMutations(): Promise<FailedMutation[]> {
+    const db = await openDatabase();
+    return requestResult<FailedMutation[]>(db.transaction(FAILED_MUTATIONS).objectStore(FAILED_MUTATIONS).getAll());
+  }
+
+  static async countFailed(): Promise<number> {
+    const db = await openDatabase();
+    return requestResult(db.transaction(FAILED_MUTATIONS).objectStore(FAILED_MUTATIONS).count());
+  }
+
+  /**
+   * Move a queued mutation to the failed mutations, in one transaction so it is never in both
+   * or neither
+   */
+  static async failQueued(entry: FailedMutation): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction([SYNC_QUEUE, FAILED_MUTATIONS], 'readwrite');
+    tx.objectStore(SYNC_QUEUE).delete(entry.seq);
+    tx.objectStore(FAILED_MUTATIONS).put(entry);
+    await transactionDone(tx);
+  }
+
+  /**
+   * Put every failed mutation back in the queue with a fresh set of attempts. They keep their
+   * sequence numbers, so they replay before anything queued after them.
+   */
+  static async requeueFailed(): Promise<void> {
+    const failed = await this.getFailedMutations();
+    const db = await openDatabase();
+    const tx = db.transaction([SYNC_QUEUE, FAILED_MUTATIONS], 'readwrite');
+    failed.forEach(({ seq, mutation, queuedAt }) => {
+      tx.objectStore(SYNC_QUEUE).put({ seq, mutation, queuedAt, attempts: 0 } satisfies QueuedMutation);
+    });
+    tx.objectStore(FAILED_MUTATIONS).clear();
+    await transactionDone(tx);
+  }
+
+  static async discardFailed(): Promise<void> {
+    const db = await openDatabase();
+    const tx = db.transaction(FAILED_MUTATIONS, 'readwrite');
+    tx.objectStore(FAILED_MUTATIONS).clear();
+    await transactionDone(tx);
+  }
+}
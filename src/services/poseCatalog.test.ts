@@ -0,0 +1,88 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { loadPoseCatalog, parsePoseCatalog, POSE_CATALOG_SCHEMA_VERSION } from './poseCatalog';
+import { Category } from '../types/category';
+
+const entry = (id: number, overrides: Record<string, unknown> = {}) => ({
+  id,
+  name: `Pose ${id}`,
+  image: `/poses/${id}.svg`,
+  category: 'STANDING',
+  ...overrides,
+});
+
+const catalog = (...poses: unknown[]) => ({ schemaVersion: POSE_CATALOG_SCHEMA_VERSION, poses });
+
+describe('parsePoseCatalog', () => {
+  it('accepts valid entries', () => {
+    const parsed = parsePoseCatalog(catalog(entry(1, { linked: [2] }), entry(2)));
+
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.poses.map(pose => pose.id)).toEqual([1, 2]);
+    expect(parsed.poses[0]).toMatchObject({ name: 'Pose 1', category: Category.STANDING, linked: [2] });
+  });
+
+  it('rejects an entry without a numeric id', () => {
+    const parsed = parsePoseCatalog(catalog(entry(1), { ...entry(2), id: '2' }, { ...entry(3), id: 1.5 }));
+
+    expect(parsed.poses.map(pose => pose.id)).toEqual([1]);
+    expect(parsed.errors).toHaveLength(2);
+    expect(parsed.errors[0]).toContain('missing numeric "id"');
+  });
+
+  it('rejects a duplicate id', () => {
+    const parsed = parsePoseCatalog(catalog(entry(1), entry(1, { name: 'Copy' })));
+
+    expect(parsed.poses.map(pose => pose.name)).toEqual(['Pose 1']);
+    expect(parsed.errors).toEqual([expect.stringContaining('duplicate id 1')]);
+  });
+
+  it('rejects an image that is not an .svg file', () => {
+    const parsed = parsePoseCatalog(catalog(entry(1, { image: '/poses/1.png' })));
+
+    expect(parsed.poses).toEqual([]);
+    expect(parsed.errors).toEqual([expect.stringContaining('"image" must point to an .svg file')]);
+  });
+
+  it('rejects an unknown category', () => {
+    const parsed = parsePoseCatalog(catalog(entry(1, { category: 'FLYING' })));
+
+    expect(parsed.poses).toEqual([]);
+    expect(parsed.errors).toEqual([expect.stringContaining('unknown category "FLYING"')]);
+  });
+
+  it('drops links to poses that are not in the catalog', () => {
+    const parsed = parsePoseCatalog(catalog(entry(1, { linked: [2, 3] }), entry(2), entry(3, { category: 'FLYING' })));
+
+    expect(parsed.poses.find(pose => pose.id === 1)?.linked).toEqual([2]);
+    expect(parsed.errors).toContainEqual(expect.stringContaining('"linked" references unknown pose id(s) 3'));
+  });
+
+  it('throws on an unsupported schema version', () => {
+    expect(() => parsePoseCatalog({ schemaVersion: 99, poses: [] })).toThrow('Unsupported pose catalog schema version');
+  });
+});
+
+describe('loadPoseCatalog', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('drops links to poses whose SVG is missing', async () => {
+    const document = catalog(entry(1, { linked: [2] }), entry(2));
+    vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+      if (url === '/pose-catalog.json') return new Response(JSON.stringify(document));
+      return url === '/poses/1.svg'
+        ? new Response('<svg/>', { headers: { 'content-type': 'image/svg+xml' } })
+        : new Response('<!doctype html>', { headers: { 'content-type': 'text/html' } });
+    }));
+
+    const loaded = await loadPoseCatalog();
+
+    expect(loaded.poses.map(pose => pose.id)).toEqual([1]);
+    expect(loaded.poses[0].linked).toEqual([]);
+    expect(loaded.errors).toEqual([
+      expect.stringContaining('SVG not found at "/poses/2.svg"'),
+      expect.stringContaining('"linked" references unknown pose id(s) 2'),
+    ]);
+  });
+});
@@ -0,0 +1,293 @@
+import { Category, SubCategory, Intensity, BodyFocus, PoseFamily, Contraindication, PoseProp } from '../types/category';
+import type { PoseVariation, YogaPose } from '../types/yoga-pose';
+
+// Versioned pose catalog served from /public so poses can be added without a code change
+export const POSE_CATALOG_URL = '/pose-catalog.json';
+export const POSE_CATALOG_SCHEMA_VERSION = 1;
+
+// Placeholder thumbnail used when a catalog entry doesn't provide its own
+export const DEFAULT_POSE_THUMBNAIL = 'data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iNDAiIGhlaWdodD0iNDAiIHZpZXdCb3g9IjAgMCA0MCA0MCIgZmlsbD0ibm9uZSIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj4KPHBhdGggZD0iTTIwIDIwTDEwIDMwTDIwIDQwTDMwIDMwTDIwIDIwWiIgZmlsbD0iY3VycmVudENvbG9yIi8+Cjwvc3ZnPgo=';
+
+export interface PoseCatalog {
+  schemaVersion: number;
+  poses: YogaPose[];
+  // Human-readable problems with entries that were rejected while loading
+  errors: string[];
+}
+
+type RawEntry = Record<string, unknown>;
+
+const describeEntry = (entry: { id?: unknown; name?: unknown }, index: number): string => {
+  const id = typeof entry.id === 'number' ? `#${entry.id}` : `at index ${index}`;
+  const name = typeof entry.name === 'string' && entry.name ? ` ("${entry.name}")` : '';
+  return `Pose ${id}${name}`;
+};
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const parseCategory = (value: unknown): Category | undefined => {
+  if (typeof value !== 'string') return undefined;
+  return Category[value as keyof typeof Category];
+};
+
+const parseSubCategory = (value: unknown): SubCategory | undefined => {
+  if (typeof value !== 'string') return undefined;
+  return SubCategory[value as keyof typeof SubCategory];
+};
+
+/**
+ * Parse an optional list of taxonomy key names (e.g. ["HIPS", "SPINE"]), reporting unknown ones
+ */
+const parseTagList = <T extends number>(
+  value: unknown,
+  field: string,
+  values: Record<string, T>,
+  problems: string[]
+): T[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    problems.push(`"${field}" must be an array (expected values from ${Object.keys(values).join(', ')})`);
+    return [];
+  }
+  const unknown = value.filter(tag => typeof tag !== 'string' || !(tag in values));
+  if (unknown.length > 0) {
+    problems.push(`unknown ${field} ${unknown.map(tag => JSON.stringify(tag)).join(', ')} (expected one of ${Object.keys(values).join(', ')})`);
+    return [];
+  }
+  return Array.from(new Set(value.map(tag => values[tag as string])));
+};
+
+/**
+ * Parse an optional list of teaching notes (cues, benefits, modifications)
+ */
+const parseNotes = (value: unknown, field: string, problems: string[]): string[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.some(note => !isNonEmptyString(note))) {
+    problems.push(`"${field}" must be an array of non-empty strings`);
+    return [];
+  }
+  return (value as string[]).map(note => note.trim());
+};
+
+/**
+ * Parse a pose's prop variations, each with its own sketch
+ */
+const parseVariations = (value: unknown, problems: string[]): PoseVariation[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    problems.push('"variations" must be an array');
+    return [];
+  }
+
+  const variations: PoseVariation[] = [];
+  value.forEach((raw: unknown, index: number) => {
+    const variation = (raw && typeof raw === 'object' ? raw : {}) as RawEntry;
+    const label = `variation ${isNonEmptyString(variation.id) ? `"${variation.id}"` : `at index ${index}`}`;
+    const prop = typeof variation.prop === 'string' ? PoseProp[variation.prop as keyof typeof PoseProp] : undefined;
+
+    if (!isNonEmptyString(variation.id)) {
+      problems.push(`${label}: missing "id"`);
+    } else if (variations.some(existing => existing.id === variation.id)) {
+      problems.push(`${label}: duplicate id`);
+    } else if (!isNonEmptyString(variation.name)) {
+      problems.push(`${label}: missing "name"`);
+    } else if (prop === undefined) {
+      problems.push(`${label}: unknown prop ${JSON.stringify(variation.prop)} (expected one of ${Object.keys(PoseProp).join(', ')})`);
+    } else if (!isNonEmptyString(variation.image) || !variation.image.toLowerCase().endsWith('.svg')) {
+      problems.push(`${label}: "image" must point to an .svg file`);
+    } else {
+      variations.push({ id: variation.id, name: variation.name.trim(), prop, image: variation.image });
+    }
+  });
+  return variations;
+};
+
+/**
+ * Remove links to poses that aren't in the list, reporting each pose that had any
+ */
+const dropDanglingLinks = (poses: YogaPose[], errors: string[]): YogaPose[] => {
+  const validIds = new Set(poses.map(pose => pose.id));
+  return poses.map(pose => {
+    const dangling = pose.linked.filter(id => !validIds.has(id));
+    if (dangling.length === 0) return pose;
+    errors.push(`${describeEntry(pose, 0)}: "linked" references unknown pose id(s) ${dangling.join(', ')}`);
+    return { ...pose, linked: pose.linked.filter(id => validIds.has(id)) };
+  });
+};
+
+/**
+ * Validate a raw catalog document. Invalid entries are dropped and reported in `errors`;
+ * a document with the wrong shape or an unsupported schema version throws.
+ */
+export function parsePoseCatalog(raw: unknown): PoseCatalog {
+  if (!raw || typeof raw !== 'object') {
+    throw new Error('Pose catalog must be a JSON object');
+  }
+
+  const { schemaVersion, poses } = raw as { schemaVersion?: unknown; poses?: unknown };
+  if (schemaVersion !== POSE_CATALOG_SCHEMA_VERSION) {
+    throw new Error(
+      `Unsupported pose catalog schema version ${JSON.stringify(schemaVersion)} (expected ${POSE_CATALOG_SCHEMA_VERSION})`
+    );
+  }
+  if (!Array.isArray(poses)) {
+    throw new Error('Pose catalog is missing its "poses" array');
+  }
+
+  const errors: string[] = [];
+  const accepted: YogaPose[] = [];
+  const seenIds = new Set<number>();
+
+  poses.forEach((value: unknown, index: number) => {
+    if (!value || typeof value !== 'object') {
+      errors.push(`Pose at index ${index}: entry must be an object`);
+      return;
+    }
+
+    const entry = value as RawEntry;
+    const label = describeEntry(entry, index);
+    const problems: string[] = [];
+
+    if (typeof entry.id !== 'number' || !Number.isInteger(entry.id)) {
+      problems.push('missing numeric "id"');
+    } else if (seenIds.has(entry.id)) {
+      problems.push(`duplicate id ${entry.id}`);
+    }
+    if (!isNonEmptyString(entry.name)) problems.push('missing "name"');
+    if (!isNonEmptyString(entry.image)) {
+      problems.push('missing SVG "image" path');
+    } else if (!entry.image.toLowerCase().endsWith('.svg')) {
+      problems.push(`"image" must point to an .svg file (got "${entry.image}")`);
+    }
+
+    const category = parseCategory(entry.category);
+    if (category === undefined) {
+      problems.push(`unknown category ${JSON.stringify(entry.category)} (expected one of ${Object.keys(Category).join(', ')})`);
+    }
+
+    let subCategory: SubCategory | undefined;
+    if (entry.subCategory !== undefined) {
+      subCategory = parseSubCategory(entry.subCategory);
+      if (subCategory === undefined) {
+        problems.push(`unknown subCategory ${JSON.stringify(entry.subCategory)} (expected one of ${Object.keys(SubCategory).join(', ')})`);
+      }
+    }
+
+    let intensity: Intensity | undefined;
+    if (entry.intensity !== undefined) {
+      intensity = typeof entry.intensity === 'string' ? Intensity[entry.intensity as keyof typeof Intensity] : undefined;
+      if (intensity === undefined) {
+        problems.push(`unknown intensity ${JSON.stringify(entry.intensity)} (expected one of ${Object.keys(Intensity).join(', ')})`);
+      }
+    }
+    const bodyFocus = parseTagList(entry.bodyFocus, 'bodyFocus', BodyFocus, problems);
+    const families = parseTagList(entry.families, 'families', PoseFamily, problems);
+    const contraindications = parseTagList(entry.contraindications, 'contraindications', Contraindication, problems);
+    const cues = parseNotes(entry.cues, 'cues', problems);
+    const benefits = parseNotes(entry.benefits, 'benefits', problems);
+    const modifications = parseNotes(entry.modifications, 'modifications', problems);
+    const variations = parseVariations(entry.variations, problems);
+
+    const linked = entry.linked ?? [];
+    if (!Array.isArray(linked) || linked.some(id => typeof id !== 'number')) {
+      problems.push('"linked" must be an array of pose ids');
+    }
+
+    if (problems.length > 0) {
+      errors.push(`${label}: ${problems.join('; ')}`);
+      return;
+    }
+
+    seenIds.add(entry.id as number);
+    accepted.push({
+      id: entry.id as number,
+      name: (entry.name as string).trim(),
+      translation: isNonEmptyString(entry.translation) ? entry.translation : '',
+      indianName: isNonEmptyString(entry.indianName) ? entry.indianName : '',
+      image: entry.image as string,
+      thumbnail: isNonEmptyString(entry.thumbnail) ? entry.thumbnail : DEFAULT_POSE_THUMBNAIL,
+      category: category as Category,
+      subCategory,
+      linked: linked as number[],
+      intensity,
+      bodyFocus,
+      families,
+      contraindications,
+      cues,
+      benefits,
+      modifications,
+      variations,
+    });
+  });
+
+  // Dangling links can only be detected once every entry is known
+  return { schemaVersion, poses: dropDanglingLinks(accepted, errors), errors };
+}
+
+/**
+ * Check that every pose SVG can actually be fetched. The SPA rewrite serves index.html
+ * for unknown paths, so the content type is checked rather than just the status code.
+ */
+async function verifyPoseAssets(catalog: PoseCatalog): Promise<PoseCatalog> {
+  const svgExists = async (url: string) => {
+    try {
+      const response = await fetch(url, { method: 'HEAD' });
+      const contentType = response.headers.get('content-type') || '';
+      return response.ok && contentType.includes('svg');
+    } catch {
+      return false;
+    }
+  };
+
+  const results = await Promise.all(catalog.poses.map(async (pose) => ({
+    found: await svgExists(pose.image),
+    variations: await Promise.all(pose.variations.map(variation => svgExists(variation.image))),
+  })));
+
+  const errors = [...catalog.errors];
+  const poses = catalog.poses
+    .filter((pose, index) => {
+      if (results[index].found) return true;
+      errors.push(`${describeEntry(pose, index)}: SVG not found at "${pose.image}"`);
+      return false;
+    })
+    .map((pose) => {
+      const { variations: found } = results[catalog.poses.indexOf(pose)];
+      // A missing variation sketch only drops that variation, not the pose
+      const variations = pose.variations.filter((variation, index) => {
+        if (found[index]) return true;
+        errors.push(`${describeEntry(pose, 0)}: variation "${variation.id}" SVG not found at "${variation.image}"`);
+        return false;
+      });
+      return variations.length === pose.variations.length ? pose : { ...pose, variations };
+    });
+
+  // Poses dropped for a missing SVG may still be linked from others
+  return { ...catalog, poses: dropDanglingLinks(poses, errors), errors };
+}
+
+/**
+ * Fetch, validate and (optionally) asset-check the pose catalog
+ */
+export async function loadPoseCatalog(
+  url: string = POSE_CATALOG_URL,
+  options: { verifyAssets?: boolean } = {}
+): Promise<PoseCatalog> {
+  const { verifyAssets = true } = options;
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to load pose catalog from ${url}: ${response.status} ${response.statusText}`);
+  }
+
+  let raw: unknown;
+  try {
+    raw = await response.json();
+  } catch {
+    throw new Error(`Pose catalog at ${url} is not valid JSON`);
+  }
+
+  const catalog = parsePoseCatalog(raw);
+  return verifyAssets ? verifyPoseAssets(catalog) : catalog;
+}
@@ -0,0 +1,184 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import type { CanvasMutation } from '../types/canvas-sync';
+
+const USER_ID = 'user-1';
+
+const postgrestError = (code: string, message: string) => Object.assign(new Error(message), { code });
+
+// Fresh modules over an empty database and backend, so no queue state leaks between tests. The
+// queue replays against the localStorage stand-in for Supabase.
+const loadQueue = async () => {
+  vi.resetModules();
+  globalThis.indexedDB = new IDBFactory();
+  localStorage.clear();
+  const { LocalCanvasBackend } = await import('./localCanvasBackend');
+  vi.doMock('./canvasBackend', () => ({ canvasBackend: LocalCanvasBackend }));
+  const { SyncQueue } = await import('./syncQueue');
+  const { LocalCanvasStore } = await import('./localCanvasStore');
+  return { SyncQueue, LocalCanvasStore, LocalCanvasBackend };
+};
+
+type Modules = Awaited<ReturnType<typeof loadQueue>>;
+
+const newFolder = (id: string, name = 'Warm-ups') => ({ id, user_id: USER_ID, name });
+
+const createFolder = (id: string, name?: string): CanvasMutation =>
+  ({ type: 'create-folder', folder: newFolder(id, name), insertAtBeginning: false });
+
+const renameFolder = (id: string, name: string): CanvasMutation =>
+  ({ type: 'update-folder', id, updates: { name } });
+
+const retitleCanvas = (id: string, title: string): CanvasMutation =>
+  ({ type: 'update-canvas', id, updates: { title } });
+
+const setOnline = (isOnline: boolean) => vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(isOnline);
+
+describe('SyncQueue', () => {
+  let modules: Modules;
+
+  beforeEach(async () => {
+    modules = await loadQueue();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('keeps mutations queued while offline and replays them once back online', async () => {
+    const { SyncQueue, LocalCanvasStore, LocalCanvasBackend } = modules;
+    setOnline(false);
+    await SyncQueue.commit({ folders: [] }, createFolder('folder-1'));
+
+    await SyncQueue.flush();
+    expect(await LocalCanvasStore.countQueue()).toBe(1);
+    expect(SyncQueue.getStatus()).toMatchObject({ pending: 1, isOnline: false });
+
+    setOnline(true);
+    await SyncQueue.flush();
+    expect(await LocalCanvasStore.countQueue()).toBe(0);
+    expect(SyncQueue.getStatus()).toMatchObject({ pending: 0, isOnline: true, lastError: null });
+    expect((await LocalCanvasBackend.getUserFolders(USER_ID)).map(folder => folder.id)).toEqual(['folder-1']);
+  });
+
+  it('sends consecutive updates of the same row as one', async () => {
+    const { SyncQueue, LocalCanvasStore, LocalCanvasBackend } = modules;
+    const updateFolder = vi.spyOn(LocalCanvasBackend, 'updateFolder');
+    await LocalCanvasBackend.createFolder(newFolder('folder-1'));
+    await LocalCanvasBackend.createFolder(newFolder('folder-2'));
+
+    await SyncQueue.commit({}, renameFolder('folder-1', 'Standing'));
+    await SyncQueue.commit({}, { type: 'update-folder', id: 'folder-1', updates: { color: 'blue' } });
+    await SyncQueue.commit({}, renameFolder('folder-2', 'Seated'));
+    expect(await LocalCanvasStore.countQueue()).toBe(2);
+
+    await SyncQueue.flush();
+    expect(updateFolder).toHaveBeenCalledTimes(2);
+    const folders = await LocalCanvasBackend.getUserFolders(USER_ID);
+    expect(folders.find(folder => folder.id === 'folder-1')).toMatchObject({ name: 'Standing', color: 'blue' });
+    expect(folders.find(folder => folder.id === 'folder-2')).toMatchObject({ name: 'Seated' });
+  });
+
+  it('does not fold an update into one already on its way to the server', async () => {
+    const { SyncQueue, LocalCanvasStore, LocalCanvasBackend } = modules;
+    const updateCanvas = vi.spyOn(LocalCanvasBackend, 'updateCanvas');
+    await LocalCanvasBackend.createCanvas({ id: 'canvas-1', user_id: USER_ID, folder_id: 'folder-1' });
+
+    await SyncQueue.commit({}, retitleCanvas('canvas-1', 'Morning'));
+    const flushing = SyncQueue.flush();
+    await vi.waitFor(() => expect(updateCanvas).toHaveBeenCalled());
+    await SyncQueue.commit({}, retitleCanvas('canvas-1', 'Evening'));
+    expect(await LocalCanvasStore.countQueue()).toBe(2);
+
+    await flushing;
+    expect(updateCanvas).toHaveBeenCalledTimes(2);
+    expect((await LocalCanvasBackend.getCanvasWithFolder('canvas-1')).title).toBe('Evening');
+  });
+
+  it('sets a mutation aside after five rejections and moves on to the next', async () => {
+    const { SyncQueue, LocalCanvasStore, LocalCanvasBackend } = modules;
+    vi.spyOn(LocalCanvasBackend, 'updateFolder').mockRejectedValue(postgrestError('42501', 'permission denied'));
+    await SyncQueue.commit({}, renameFolder('folder-1', 'Standing'));
+    await SyncQueue.commit({}, createFolder('folder-2'));
+
+    for (let run = 1; run < 5; run++) {
+      await SyncQueue.flush();
+      expect(await LocalCanvasStore.getNextQueued()).toMatchObject({ attempts: run, mutation: { type: 'update-folder' } });
+    }
+    expect(SyncQueue.getStatus()).toMatchObject({ pending: 2, failed: 0, lastError: 'permission denied', isOnline: true });
+
+    await SyncQueue.flush();
+    expect(await LocalCanvasStore.countQueue()).toBe(0);
+    const failed = await LocalCanvasStore.getFailedMutations();
+    expect(failed).toHaveLength(1);
+    expect(failed[0]).toMatchObject({ attempts: 5, error: 'permission denied', mutation: { type: 'update-folder' } });
+    expect(SyncQueue.getStatus()).toMatchObject({ pending: 0, failed: 1 });
+    expect((await LocalCanvasBackend.getUserFolders(USER_ID)).map(folder => folder.id)).toEqual(['folder-2']);
+  });
+
+  it('replays failed mutations ahead of newer ones when they are retried', async () => {
+    const { SyncQueue, LocalCanvasStore, LocalCanvasBackend } = modules;
+    await LocalCanvasBackend.createFolder(newFolder('folder-1'));
+    const updateFolder = vi.spyOn(LocalCanvasBackend, 'updateFolder')
+      .mockRejectedValue(postgrestError('42501', 'permission denied'));
+    await SyncQueue.commit({}, renameFolder('folder-1', 'Standing'));
+    for (let run = 0; run < 5; run++) await SyncQueue.flush();
+    expect(await LocalCanvasStore.countFailed()).toBe(1);
+
+    updateFolder.mockRestore();
+    await SyncQueue.commit({}, renameFolder('folder-1', 'Seated'));
+    await SyncQueue.retryFailed();
+
+    expect(SyncQueue.getStatus()).toMatchObject({ pending: 0, failed: 0 });
+    expect((await LocalCanvasBackend.getUserFolders(USER_ID))[0].name).toBe('Seated');
+  });
+
+  it('drops failed mutations when they are discarded', async () => {
+    const { SyncQueue, LocalCanvasStore, LocalCanvasBackend } = modules;
+    const updateFolder = vi.spyOn(LocalCanvasBackend, 'updateFolder')
+      .mockRejectedValue(postgrestError('42501', 'permission denied'));
+    await SyncQueue.commit({}, renameFolder('folder-1', 'Standing'));
+    for (let run = 0; run < 5; run++) await SyncQueue.flush();
+
+    await SyncQueue.discardFailed();
+    await SyncQueue.flush();
+    expect(await LocalCanvasStore.getFailedMutations()).toEqual([]);
+    expect(SyncQueue.getStatus()).toMatchObject({ pending: 0, failed: 0 });
+    expect(updateFolder).toHaveBeenCalledTimes(5);
+  });
+
+  it('treats creates and deletes the server already has as done', async () => {
+    const { SyncQueue, LocalCanvasStore, LocalCanvasBackend } = modules;
+    await LocalCanvasBackend.createFolder(newFolder('folder-1'));
+
+    await SyncQueue.commit({}, createFolder('folder-1'));
+    await SyncQueue.commit({}, { type: 'delete-canvas', id: 'canvas-gone' });
+    await SyncQueue.commit({}, {
+      type: 'create-canvas-version',
+      version: { id: 'version-1', canvas_id: 'canvas-gone', user_id: USER_ID, data: {} },
+    });
+    await SyncQueue.flush();
+
+    expect(await LocalCanvasStore.countQueue()).toBe(0);
+    expect(await LocalCanvasStore.countFailed()).toBe(0);
+    expect(SyncQueue.getStatus().lastError).toBeNull();
+  });
+
+  it('only counts failures to reach the server as being offline', async () => {
+    const { SyncQueue, LocalCanvasStore, LocalCanvasBackend } = modules;
+    const updateFolder = vi.spyOn(LocalCanvasBackend, 'updateFolder')
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockRejectedValueOnce(new TypeError("Cannot read properties of undefined (reading 'id')"));
+    await SyncQueue.commit({}, renameFolder('folder-1', 'Standing'));
+
+    await SyncQueue.flush();
+    expect(SyncQueue.getStatus().isOnline).toBe(false);
+    expect(await LocalCanvasStore.getNextQueued()).toMatchObject({ attempts: 0 });
+
+    await SyncQueue.flush();
+    expect(updateFolder).toHaveBeenCalledTimes(2);
+    expect(SyncQueue.getStatus()).toMatchObject({ lastError: "Cannot read properties of undefined (reading 'id')" });
+    expect(await LocalCanvasStore.getNextQueued()).toMatchObject({ attempts: 1 });
+  });
+});
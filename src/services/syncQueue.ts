@@ -0,0 +1,254 @@
+import { canvasBackend, type CanvasBackend } from './canvasBackend';
+import { LocalCanvasStore, type LocalChangeSet } from './localCanvasStore';
+import type { NewCanvas, UpdateCanvas } from '../lib/supabase';
+import type { CanvasMutation, QueuedMutation, SyncStatus } from '../types/canvas-sync';
+import { CANVAS_CONFLICT } from '../utils/canvas-merge';
+
+const RETRY_INTERVAL_MS = 30 * 1000;
+const MAX_ATTEMPTS = 5; // Server rejections before a mutation is set aside as failed
+
+let status: SyncStatus = {
+  pending: 0,
+  failed: 0,
+  isSyncing: false,
+  isOnline: navigator.onLine,
+  lastError: null,
+};
+const listeners = new Set<() => void>();
+let isStarted = false;
+let flushPromise: Promise<void> | null = null;
+let inFlightSeq: number | null = null;
+// Settles a content save the server refused as conflicting; resolves to the mutation to retry in
+// its place, or null to drop it
+let conflictResolver: ((mutation: CanvasMutation) => Promise<CanvasMutation | null>) | null = null;
+
+const setStatus = (changes: Partial<SyncStatus>) => {
+  status = { ...status, ...changes };
+  listeners.forEach(listener => listener());
+};
+
+const refreshPending = async () => {
+  const [pending, failed] = await Promise.all([LocalCanvasStore.countQueue(), LocalCanvasStore.countFailed()]);
+  setStatus({ pending, failed });
+};
+
+const errorMessage = (error: unknown): string =>
+  (error as { message?: string } | null)?.message ?? String(error);
+
+// fetch rejects with a TypeError when the request never reaches the server, with one of these
+// messages (Chrome, Firefox, Safari); supabase-js passes it on. Any other error, including a
+// TypeError from a bug, is a rejection that counts towards MAX_ATTEMPTS.
+const FETCH_FAILURE = /Failed to fetch|NetworkError when attempting to fetch|Load failed/i;
+
+const isNetworkError = (error: unknown): boolean =>
+  !navigator.onLine || FETCH_FAILURE.test(errorMessage(error));
+
+// A create that reached the server before its response was lost, or a delete of a row that is
+// already gone, has nothing left to do
+const isAlreadyApplied = (mutation: CanvasMutation, error: unknown): boolean => {
+  const code = (error as { code?: string } | null)?.code;
+  switch (mutation.type) {
+    case 'create-folder':
+    case 'create-canvas':
+      return code === '23505';
+    case 'create-canvas-version':
+      // 23503: the canvas was deleted after the version was taken, so there is nothing to keep it for
+      return code === '23505' || code === '23503';
+    case 'delete-canvas':
+      return code === 'PGRST116';
+    default:
+      return false;
+  }
+};
+
+const isConflict = (error: unknown): boolean => (error as { code?: string } | null)?.code === CANVAS_CONFLICT;
+
+// Content saves apply only to the revision they were based on; each one that lands becomes the base of the next
+const replayCanvasUpdate = async (backend: CanvasBackend, id: string, updates: UpdateCanvas) => {
+  if (updates.data === undefined) return backend.updateCanvas(id, updates);
+
+  const base = await LocalCanvasStore.getCanvasBase(id);
+  const updated = await backend.updateCanvas(id, updates, base?.revision);
+  await LocalCanvasStore.apply({ canvasBases: [{ canvasId: id, revision: updated.revision ?? 0, data: updates.data }] });
+  return updated;
+};
+
+const replayCanvasCreate = async (backend: CanvasBackend, canvas: NewCanvas, insertAtBeginning: boolean) => {
+  const created = await backend.createCanvas(canvas, insertAtBeginning);
+  await LocalCanvasStore.apply({ canvasBases: [{ canvasId: created.id, revision: created.revision ?? 0, data: created.data }] });
+  return created;
+};
+
+const replay = (backend: CanvasBackend, mutation: CanvasMutation): Promise<unknown> => {
+  switch (mutation.type) {
+    case 'create-folder':
+      return backend.createFolder(mutation.folder, mutation.insertAtBeginning);
+    case 'update-folder':
+      return backend.updateFolder(mutation.id, mutation.updates);
+    case 'delete-folder':
+      return backend.deleteFolder(mutation.id);
+    case 'reorder-folders':
+      return backend.reorderFolders(mutation.userId, mutation.sourceId, mutation.targetId);
+    case 'create-canvas':
+      return replayCanvasCreate(backend, mutation.canvas, mutation.insertAtBeginning);
+    case 'update-canvas':
+      return replayCanvasUpdate(backend, mutation.id, mutation.updates);
+    case 'move-canvas':
+      return backend.moveCanvas(mutation.canvasId, mutation.folderId);
+    case 'reorder-canvases':
+      return backend.reorderCanvases(mutation.userId, mutation.sourceId, mutation.targetId);
+    case 'delete-canvas':
+      return backend.deleteCanvas(mutation.id);
+    case 'create-canvas-version':
+      return backend.createCanvasVersion(mutation.version);
+    case 'put-pose-sketches':
+      return backend.putPoseSketches(mutation.sketches);
+  }
+};
+
+// Consecutive updates of the same row are sent as one, unless the first is already on its way
+const coalesceWith = (mutation: CanvasMutation) => (last: QueuedMutation): QueuedMutation | null => {
+  if (last.seq === inFlightSeq) return null;
+  const previous = last.mutation;
+  if (mutation.type === 'update-canvas' && previous.type === 'update-canvas' && previous.id === mutation.id) {
+    return { ...last, mutation: { ...previous, updates: { ...previous.updates, ...mutation.updates } } };
+  }
+  if (mutation.type === 'update-folder' && previous.type === 'update-folder' && previous.id === mutation.id) {
+    return { ...last, mutation: { ...previous, updates: { ...previous.updates, ...mutation.updates } } };
+  }
+  return null;
+};
+
+/**
+ * Durable queue of folder and canvas writes. Writes land in IndexedDB together with their
+ * mutation and are replayed against the canvas backend in order, whenever the connection allows.
+ * A mutation the server keeps rejecting is set aside as failed until the user retries or
+ * discards it.
+ */
+export class SyncQueue {
+  static getStatus(): SyncStatus {
+    return status;
+  }
+
+  static setConflictResolver(resolver: (mutation: CanvasMutation) => Promise<CanvasMutation | null>): void {
+    conflictResolver = resolver;
+  }
+
+  static subscribe(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Start replaying: now, whenever the browser comes back online and periodically while
+   * mutations are pending. Mutations committed before this stay queued.
+   */
+  static start(): void {
+    if (isStarted) return;
+    isStarted = true;
+
+    window.addEventListener('online', () => {
+      setStatus({ isOnline: true });
+      void this.flush();
+    });
+    window.addEventListener('offline', () => setStatus({ isOnline: false }));
+    setInterval(() => {
+      if (status.pending > 0 && !flushPromise) void this.flush();
+    }, RETRY_INTERVAL_MS);
+
+    void this.flush();
+  }
+
+  /**
+   * Write changes locally and queue the mutation that makes the same change on the server
+   */
+  static async commit(changes: Omit<LocalChangeSet, 'enqueue'>, mutation: CanvasMutation): Promise<void> {
+    await LocalCanvasStore.apply({ ...changes, enqueue: { mutation, coalesce: coalesceWith(mutation) } });
+    await refreshPending();
+    if (isStarted) void this.flush();
+  }
+
+  /**
+   * Queue the failed mutations again, ahead of anything queued since, and replay them
+   */
+  static async retryFailed(): Promise<void> {
+    await LocalCanvasStore.requeueFailed();
+    await refreshPending();
+    await this.flush();
+  }
+
+  /**
+   * Give up on the failed mutations. The local rows they wrote are replaced by the server's copy
+   * on the next load.
+   */
+  static async discardFailed(): Promise<void> {
+    await LocalCanvasStore.discardFailed();
+    await refreshPending();
+  }
+
+  /**
+   * Replay queued mutations until the queue is empty or the server can't be reached. Resolves
+   * when this run ends; concurrent calls share the run in progress.
+   */
+  static flush(): Promise<void> {
+    flushPromise ??= this.drain().finally(() => {
+      flushPromise = null;
+    });
+    return flushPromise;
+  }
+
+  private static async drain(): Promise<void> {
+    setStatus({ isSyncing: true });
+    try {
+      for (;;) {
+        const next = await LocalCanvasStore.getNextQueued();
+        if (!next || next.seq === undefined) break;
+        inFlightSeq = next.seq;
+
+        try {
+          await replay(canvasBackend, next.mutation);
+          setStatus({ isOnline: true, lastError: null });
+        } catch (error) {
+          if (isConflict(error) && conflictResolver && next.attempts + 1 < MAX_ATTEMPTS) {
+            const resolved = await conflictResolver(next.mutation);
+            if (resolved) {
+              // Retry straight away in the same place; the attempt counts so a canvas that keeps
+              // changing elsewhere can't hold up the queue forever
+              await LocalCanvasStore.updateQueued({ ...next, mutation: resolved, attempts: next.attempts + 1 });
+              continue;
+            }
+          } else if (!isAlreadyApplied(next.mutation, error)) {
+            if (isNetworkError(error)) {
+              setStatus({ isOnline: false });
+              break;
+            }
+
+            const attempts = next.attempts + 1;
+            setStatus({ lastError: errorMessage(error) });
+            if (attempts < MAX_ATTEMPTS) {
+              // Keep the order: later mutations may depend on this one, so retry it on the next run
+              await LocalCanvasStore.updateQueued({ ...next, attempts });
+              break;
+            }
+            console.error(`Setting ${next.mutation.type} aside after ${attempts} failed attempts:`, next.mutation, error);
+            await LocalCanvasStore.failQueued({ ...next, seq: next.seq, attempts, error: errorMessage(error), failedAt: Date.now() });
+            await refreshPending();
+            continue;
+          }
+        } finally {
+          inFlightSeq = null;
+        }
+
+        await LocalCanvasStore.removeQueued(next.seq);
+        await refreshPending();
+      }
+    } catch (error) {
+      console.error('Error replaying the sync queue:', error);
+    } finally {
+      setStatus({ isSyncing: false });
+      await refreshPending();
+    }
+  }
+}
@@ -0,0 +1,13 @@
+import { YogaPoseSvgShapeUtil } from './yoga-pose-svg-shape';
+import { legacyPoseShapeMigrations } from './shape-schemas';
+import { FlowSectionFrameShapeUtil } from './flow-section-frame';
+import { PoseAnnotationShapeUtil } from './pose-annotation-shape';
+import { PoseAnnotationBindingUtil } from './pose-annotation-binding';
+
+// Shared by the editor and read-only renders of saved snapshots, such as version previews
+// FlowSectionFrameShapeUtil replaces tldraw's frame util
+export const customShapeUtils = [YogaPoseSvgShapeUtil, FlowSectionFrameShapeUtil, PoseAnnotationShapeUtil];
+// Annotations follow their pose through this binding
+export const customBindingUtils = [PoseAnnotationBindingUtil];
+// Turns poses saved as the legacy yoga-pose shape into yoga-pose-svg shapes
+export const customMigrations = [legacyPoseShapeMigrations];
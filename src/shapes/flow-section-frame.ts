@@ -0,0 +1,93 @@
+import React from 'react';
+import {
+  FrameShapeUtil,
+  HTMLContainer,
+  getDefaultColorTheme,
+  useEditor,
+  useValue,
+  type SvgExportContext,
+  type TLFrameShape,
+} from 'tldraw';
+import { getSectionSummary, getSectionTitle, getSectionType } from '../utils/flow-sections';
+import { formatClassTime } from '../utils/pose-timing';
+import type { FlowSectionType } from '../types/flow-section';
+
+const HEADER_HEIGHT = 24;
+
+const formatHeader = (sectionType: FlowSectionType, poseCount: number, totalSeconds: number) =>
+  [
+    getSectionTitle(sectionType),
+    `${poseCount} pose${poseCount === 1 ? '' : 's'}`,
+    ...(totalSeconds > 0 ? [formatClassTime(totalSeconds)] : []),
+  ].join(' · ');
+
+// Coloured strip along the top of a section; a component of its own so it follows the poses inside
+const FlowSectionHeader: React.FC<{ shape: TLFrameShape; sectionType: FlowSectionType }> = ({ shape, sectionType }) => {
+  const editor = useEditor();
+  const summary = useValue('section summary', () => getSectionSummary(editor, shape.id), [editor, shape.id]);
+  const isDarkMode = useValue('is dark mode', () => editor.user.getIsDarkMode(), [editor]);
+  const color = getDefaultColorTheme({ isDarkMode })[shape.props.color];
+
+  return React.createElement(HTMLContainer, {
+    style: {
+      width: shape.props.w,
+      height: HEADER_HEIGHT,
+      display: 'flex',
+      alignItems: 'center',
+      padding: '0 8px',
+      boxSizing: 'border-box',
+      fontSize: 12,
+      fontWeight: 600,
+      color: color.frame.text,
+      backgroundColor: color.frame.headingFill,
+      borderBottom: `1px solid ${color.frame.headingStroke}`,
+      overflow: 'hidden',
+      whiteSpace: 'nowrap',
+      pointerEvents: 'none',
+    },
+  }, formatHeader(sectionType, summary.poseCount, summary.totalSeconds));
+};
+
+/**
+ * Frames with a section type in `meta.sectionType` are flow sections (warm-up, peak, ...): they get a
+ * header with their pose count and duration. Plain frames render exactly as tldraw's.
+ */
+export class FlowSectionFrameShapeUtil extends FrameShapeUtil {
+  override component(shape: TLFrameShape) {
+    const frame = super.component(shape);
+    const sectionType = getSectionType(shape);
+    if (!sectionType) return frame;
+
+    return React.createElement(React.Fragment, null,
+      frame,
+      React.createElement(FlowSectionHeader, { shape, sectionType })
+    );
+  }
+
+  override toSvg(shape: TLFrameShape, ctx: SvgExportContext) {
+    const frame = super.toSvg(shape, ctx);
+    const sectionType = getSectionType(shape);
+    if (!sectionType) return frame;
+
+    const color = getDefaultColorTheme({ isDarkMode: ctx.isDarkMode })[shape.props.color];
+    const { poseCount, totalSeconds } = getSectionSummary(this.editor, shape.id);
+
+    return React.createElement('g', null,
+      frame,
+      React.createElement('rect', {
+        width: shape.props.w,
+        height: HEADER_HEIGHT,
+        fill: color.frame.headingFill,
+        stroke: color.frame.headingStroke,
+      }),
+      React.createElement('text', {
+        x: 8,
+        y: 16,
+        fontSize: 12,
+        fontWeight: 600,
+        fontFamily: 'sans-serif',
+        fill: color.frame.text,
+      }, formatHeader(sectionType, poseCount, totalSeconds))
+    );
+  }
+}
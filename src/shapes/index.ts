@@ -1,3 +1,8 @@
-export { YogaPoseShapeUtil, type YogaPoseShape } from './yoga-pose-shape';
 export { YogaPoseTool } from './yoga-pose-tool';
-export { YogaPoseSvgShapeUtil, type YogaPoseSvgShape } from './yoga-pose-svg-shape';
\ No newline at end of file
+export { YogaPoseSvgShapeUtil, type YogaPoseSvgShape } from './yoga-pose-svg-shape';
+export { legacyPoseShapeMigrations } from './shape-schemas';
+export { FlowSectionFrameShapeUtil } from './flow-section-frame';
+export { PoseAnnotationShapeUtil, type PoseAnnotationShape } from './pose-annotation-shape';
+export { PoseAnnotationBindingUtil, type PoseAnnotationBinding } from './pose-annotation-binding';
+export { PoseThemeStyle } from './pose-theme-style';
+export { customShapeUtils, customBindingUtils, customMigrations } from './custom-utils';
\ No newline at end of file
@@ -0,0 +1,57 @@
+import {
+  BindingUtil,
+  Vec,
+  type BindingOnShapeChangeOptions,
+  type BindingOnShapeDeleteOptions,
+  type TLBaseBinding,
+  type VecModel,
+} from 'tldraw';
+import { poseAnnotationBindingProps } from './shape-schemas';
+
+/* Declare the record type: the annotation is bound from, the pose is bound to */
+export type PoseAnnotationBinding = TLBaseBinding<
+  'pose-annotation',
+  {
+    // Where the annotation sits relative to the pose's top-left corner, in page space
+    offset: VecModel;
+  }
+>;
+
+/**
+ * Keeps an annotation beside its pose: moving the pose carries the annotation along, moving the
+ * annotation on its own just changes where it sits, and deleting the pose deletes its annotations.
+ */
+export class PoseAnnotationBindingUtil extends BindingUtil<PoseAnnotationBinding> {
+  static override type = 'pose-annotation' as const;
+  static override props = poseAnnotationBindingProps;
+
+  getDefaultProps(): PoseAnnotationBinding['props'] {
+    return { offset: { x: 0, y: 0 } };
+  }
+
+  // The pose moved: put the annotation back at its offset
+  override onAfterChangeToShape({ binding }: BindingOnShapeChangeOptions<PoseAnnotationBinding>) {
+    const annotation = this.editor.getShape(binding.fromId);
+    const posePoint = this.editor.getShapePageTransform(binding.toId)?.point();
+    if (!annotation || !posePoint) return;
+
+    const target = this.editor.getPointInParentSpace(annotation, Vec.Add(posePoint, binding.props.offset));
+    if (Vec.Equals(target, annotation)) return;
+    this.editor.updateShape({ id: annotation.id, type: annotation.type, x: target.x, y: target.y });
+  }
+
+  // The annotation moved: remember where it now sits
+  override onAfterChangeFromShape({ binding }: BindingOnShapeChangeOptions<PoseAnnotationBinding>) {
+    const annotationPoint = this.editor.getShapePageTransform(binding.fromId)?.point();
+    const posePoint = this.editor.getShapePageTransform(binding.toId)?.point();
+    if (!annotationPoint || !posePoint) return;
+
+    const offset = Vec.Sub(annotationPoint, posePoint);
+    if (Vec.Equals(offset, binding.props.offset)) return;
+    this.editor.updateBinding<PoseAnnotationBinding>({ id: binding.id, type: binding.type, props: { offset: offset.toJson() } });
+  }
+
+  override onBeforeDeleteToShape({ binding }: BindingOnShapeDeleteOptions<PoseAnnotationBinding>) {
+    this.editor.deleteShape(binding.fromId);
+  }
+}
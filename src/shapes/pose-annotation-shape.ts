@@ -0,0 +1,154 @@
+import React from 'react';
+import {
+  HTMLContainer,
+  ShapeUtil,
+  Rectangle2d,
+  getDefaultColorTheme,
+  useEditor,
+  useValue,
+  type TLBaseShape,
+  type TLDefaultColorStyle,
+  type SvgExportContext,
+} from 'tldraw';
+import { PoseAnnotationKind } from '../types/pose-annotation';
+import { poseAnnotationShapeProps } from './shape-schemas';
+
+const ANNOTATION_HEIGHT = 24;
+const CHAR_WIDTH = 7;
+const PADDING_X = 10;
+
+// Breath markers lead with an arrow: up for the inhale, down for the exhale
+const getAnnotationIcon = (kind: PoseAnnotationKind) =>
+  kind === PoseAnnotationKind.INHALE ? '↑' : kind === PoseAnnotationKind.EXHALE ? '↓' : kind === PoseAnnotationKind.TRANSITION ? '→' : '';
+
+export const formatAnnotationLabel = ({ kind, text }: PoseAnnotationShape['props']) =>
+  [getAnnotationIcon(kind), text || (kind === PoseAnnotationKind.CUE ? 'Cue' : '')].filter(Boolean).join(' ');
+
+const getAnnotationWidth = (props: PoseAnnotationShape['props']) =>
+  Math.max(40, formatAnnotationLabel(props).length * CHAR_WIDTH + PADDING_X * 2);
+
+/* Declare the record type */
+export type PoseAnnotationShape = TLBaseShape<
+  'pose-annotation',
+  {
+    kind: PoseAnnotationKind;
+    text: string;
+    color: TLDefaultColorStyle;
+  }
+>;
+
+// The pill on the canvas; swaps to a text field while the annotation is being edited
+const AnnotationLabel: React.FC<{ shape: PoseAnnotationShape }> = ({ shape }) => {
+  const editor = useEditor();
+  const isEditing = useValue('is editing annotation', () => editor.getEditingShapeId() === shape.id, [editor, shape.id]);
+  const isDarkMode = useValue('is dark mode', () => editor.user.getIsDarkMode(), [editor]);
+  const color = getDefaultColorTheme({ isDarkMode })[shape.props.color];
+  const isCue = shape.props.kind === PoseAnnotationKind.CUE;
+
+  const style: React.CSSProperties = {
+    width: getAnnotationWidth(shape.props),
+    height: ANNOTATION_HEIGHT,
+    display: 'flex',
+    alignItems: 'center',
+    padding: `0 ${PADDING_X}px`,
+    boxSizing: 'border-box',
+    borderRadius: ANNOTATION_HEIGHT / 2,
+    border: `1px solid ${color.solid}`,
+    backgroundColor: isCue ? 'var(--color-background)' : color.semi,
+    color: color.solid,
+    fontSize: 12,
+    fontStyle: isCue ? 'italic' : 'normal',
+    whiteSpace: 'nowrap',
+    overflow: 'hidden',
+  };
+
+  if (!isEditing) {
+    return React.createElement(HTMLContainer, { style }, formatAnnotationLabel(shape.props));
+  }
+
+  return React.createElement(HTMLContainer, { style: { ...style, pointerEvents: 'all' } },
+    getAnnotationIcon(shape.props.kind) && React.createElement('span', { style: { marginRight: 4 } }, getAnnotationIcon(shape.props.kind)),
+    React.createElement('input', {
+      autoFocus: true,
+      value: shape.props.text,
+      placeholder: 'Cue',
+      style: { flex: 1, minWidth: 0, border: 'none', outline: 'none', background: 'transparent', color: 'inherit', font: 'inherit' },
+      onPointerDown: (e: React.PointerEvent) => e.stopPropagation(),
+      onChange: (e: React.ChangeEvent<HTMLInputElement>) => {
+        editor.updateShape<PoseAnnotationShape>({ id: shape.id, type: 'pose-annotation', props: { text: e.target.value } });
+      },
+      onKeyDown: (e: React.KeyboardEvent) => {
+        if (e.key === 'Enter' || e.key === 'Escape') editor.setEditingShape(null);
+      },
+    })
+  );
+};
+
+/**
+ * A cue, breath marker or transition label attached to a pose. The pose-annotation binding keeps it
+ * next to its pose; on its own the shape is just a labelled pill.
+ */
+export class PoseAnnotationShapeUtil extends ShapeUtil<PoseAnnotationShape> {
+  static override type = 'pose-annotation' as const;
+  static override props = poseAnnotationShapeProps;
+
+  override canEdit = () => true;
+  override canResize = () => false;
+  override hideRotateHandle = () => true;
+
+  getDefaultProps(): PoseAnnotationShape['props'] {
+    return {
+      kind: PoseAnnotationKind.CUE,
+      text: '',
+      color: 'black',
+    };
+  }
+
+  /* Hit-testing & snapping geometry */
+  getGeometry({ props }: PoseAnnotationShape) {
+    return new Rectangle2d({ width: getAnnotationWidth(props), height: ANNOTATION_HEIGHT, isFilled: true });
+  }
+
+  override getText(shape: PoseAnnotationShape) {
+    return shape.props.text;
+  }
+
+  /* Indicator for selection */
+  indicator(shape: PoseAnnotationShape) {
+    return React.createElement('rect', {
+      width: getAnnotationWidth(shape.props),
+      height: ANNOTATION_HEIGHT,
+      rx: ANNOTATION_HEIGHT / 2,
+    });
+  }
+
+  component(shape: PoseAnnotationShape) {
+    return React.createElement(AnnotationLabel, { shape });
+  }
+
+  /* Export renderer - the same pill, drawn with SVG */
+  toSvg(shape: PoseAnnotationShape, ctx: SvgExportContext) {
+    const theme = getDefaultColorTheme({ isDarkMode: ctx.isDarkMode });
+    const color = theme[shape.props.color];
+    const isCue = shape.props.kind === PoseAnnotationKind.CUE;
+
+    return React.createElement('g', null,
+      React.createElement('rect', {
+        width: getAnnotationWidth(shape.props),
+        height: ANNOTATION_HEIGHT,
+        rx: ANNOTATION_HEIGHT / 2,
+        fill: isCue ? theme.background : color.semi,
+        stroke: color.solid,
+        strokeWidth: 1,
+      }),
+      React.createElement('text', {
+        x: PADDING_X,
+        y: 16,
+        fontSize: 12,
+        fontFamily: 'sans-serif',
+        fontStyle: isCue ? 'italic' : 'normal',
+        fill: color.solid,
+      }, formatAnnotationLabel(shape.props))
+    );
+  }
+}
@@ -0,0 +1,13 @@
+import { StyleProp } from '@tldraw/tlschema';
+import { BodyPart, PoseTheme } from '../types/pose-theme';
+
+// Colour theme of a pose sketch, shared through the style panel like tldraw's own styles
+export const PoseThemeStyle = StyleProp.defineEnum('yoga-planner:poseTheme', {
+  defaultValue: PoseTheme.PLAIN,
+  values: Object.values(PoseTheme),
+});
+
+const BODY_PART_GROUP = new RegExp(`<g\\b[^>]*\\bid=["'](${Object.values(BodyPart).join('|')})["']`);
+
+// Themes only colour body-part groups; a sketch without any looks the same under every theme
+export const hasBodyPartGroups = (svg: string) => BODY_PART_GROUP.test(svg);
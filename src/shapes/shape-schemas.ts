@@ -0,0 +1,217 @@
+// Props and migrations of the app's shapes and bindings. The editor's utils use them, and so does the
+// sync server, which has to know every migration a client may send. The server runs in Node, so
+// this file only imports tldraw's schema packages, never the editor or React.
+import { createMigrationSequence } from '@tldraw/store';
+import {
+  DefaultColorStyle,
+  DefaultFillStyle,
+  DefaultSizeStyle,
+  createShapePropsMigrationIds,
+  createShapePropsMigrationSequence,
+  vecModelValidator,
+  type RecordProps,
+  type TLShape,
+} from '@tldraw/tlschema';
+import { T } from '@tldraw/validate';
+import { PoseTheme } from '../types/pose-theme';
+import { PoseAnnotationKind } from '../types/pose-annotation';
+import { PoseThemeStyle } from './pose-theme-style';
+import type { YogaPoseSvgShape } from './yoga-pose-svg-shape';
+import type { PoseAnnotationShape } from './pose-annotation-shape';
+import type { PoseAnnotationBinding } from './pose-annotation-binding';
+
+const versions = createShapePropsMigrationIds('yoga-pose-svg', {
+  AddPoseIdentity: 1,
+  AddTiming: 2,
+  AddMirror: 3,
+  AddVariant: 4,
+  AddTheme: 5,
+  AddSize: 6,
+});
+
+// The legacy image-box pose shape. It only lives on in old saved canvases, which
+// legacyPoseShapeMigrations turns into yoga-pose-svg shapes as they load.
+interface LegacyYogaPoseProps {
+  w: number;
+  h: number;
+  poseId: number;
+  name: string;
+  translation: string;
+  category: number;
+  subCategory?: number;
+  svgPath: string;
+}
+
+// Marks a sketch that is still only linked from its file; usePoseIdentityRecovery inlines it
+export const LINKED_SKETCH_ATTRIBUTE = 'data-linked-sketch';
+
+export const yogaPoseSvgShapeProps: RecordProps<YogaPoseSvgShape> = {
+  svg: T.string,
+  w: T.number,
+  h: T.number,
+  color: DefaultColorStyle,
+  fill: DefaultFillStyle,
+  size: DefaultSizeStyle,
+  opacity: T.number,
+  poseId: T.string,
+  name: T.string,
+  indianName: T.string,
+  category: T.number.nullable(),
+  variant: T.string,
+  holdAmount: T.positiveNumber,
+  holdUnit: T.literalEnum('seconds', 'breaths'),
+  side: T.literalEnum('none', 'left', 'right'),
+  isMirrored: T.boolean,
+  theme: PoseThemeStyle,
+};
+
+export const defaultYogaPoseSvgProps: YogaPoseSvgShape['props'] = {
+  svg: '',
+  w: 255,
+  h: 255,
+  color: 'black',
+  fill: 'none',
+  size: 'm',
+  opacity: 1,
+  poseId: '',
+  name: '',
+  indianName: '',
+  category: null,
+  variant: '',
+  holdAmount: 0,
+  holdUnit: 'seconds',
+  side: 'none',
+  isMirrored: false,
+  theme: PoseTheme.PLAIN,
+};
+
+// Shapes saved before poses kept their identity start out unidentified;
+// usePoseIdentityRecovery fills them in by matching the SVG against the catalog
+export const yogaPoseSvgShapeMigrations = createShapePropsMigrationSequence({
+  sequence: [
+    {
+      id: versions.AddPoseIdentity,
+      up(props) {
+        props.poseId = '';
+        props.name = '';
+        props.indianName = '';
+        props.category = null;
+      },
+      down(props) {
+        delete props.poseId;
+        delete props.name;
+        delete props.indianName;
+        delete props.category;
+      },
+    },
+    {
+      id: versions.AddTiming,
+      up(props) {
+        props.holdAmount = 0;
+        props.holdUnit = 'seconds';
+        props.side = 'none';
+      },
+      down(props) {
+        delete props.holdAmount;
+        delete props.holdUnit;
+        delete props.side;
+      },
+    },
+    {
+      id: versions.AddMirror,
+      up(props) {
+        props.isMirrored = false;
+      },
+      down(props) {
+        delete props.isMirrored;
+      },
+    },
+    {
+      id: versions.AddVariant,
+      up(props) {
+        props.variant = '';
+      },
+      down(props) {
+        delete props.variant;
+      },
+    },
+    {
+      id: versions.AddTheme,
+      up(props) {
+        props.theme = PoseTheme.PLAIN;
+      },
+      down(props) {
+        delete props.theme;
+      },
+    },
+    {
+      id: versions.AddSize,
+      up(props) {
+        props.size = 'm';
+      },
+      down(props) {
+        delete props.size;
+      },
+    },
+  ],
+});
+
+/**
+ * Props migrations can't change a record's type, so the switch from `yoga-pose` to `yoga-pose-svg`
+ * is the last migration of the `yoga-pose` sequence, registered alongside the shape utils. It depends
+ * on the newest yoga-pose-svg migration (move it along when adding one) so it runs after all of them
+ * and writes props in their latest form.
+ */
+export const legacyPoseShapeMigrations = createMigrationSequence({
+  sequenceId: 'com.tldraw.shape.yoga-pose',
+  sequence: [
+    {
+      id: 'com.tldraw.shape.yoga-pose/1',
+      scope: 'record',
+      dependsOn: [versions.AddSize],
+      filter: (record) => record.typeName === 'shape' && (record as TLShape).type === 'yoga-pose',
+      up(record) {
+        const shape = record as unknown as { type: string; props: Record<string, unknown>; meta: Record<string, unknown> };
+        const legacy = shape.props as unknown as LegacyYogaPoseProps;
+        shape.type = 'yoga-pose-svg';
+        shape.props = {
+          ...defaultYogaPoseSvgProps,
+          w: legacy.w,
+          h: legacy.h,
+          svg: `<svg width="${legacy.w}" height="${legacy.h}" viewBox="0 0 ${legacy.w} ${legacy.h}" xmlns="http://www.w3.org/2000/svg">`
+            + `<image ${LINKED_SKETCH_ATTRIBUTE}="true" href="${legacy.svgPath}" width="${legacy.w}" height="${legacy.h}"/></svg>`,
+          poseId: legacy.poseId.toString(),
+          name: legacy.name,
+          category: legacy.category,
+        };
+        // Keep what the svg shape has no prop for
+        shape.meta = {
+          ...shape.meta,
+          translation: legacy.translation,
+          ...(legacy.subCategory !== undefined ? { subCategory: legacy.subCategory } : {}),
+        };
+      },
+    },
+  ],
+});
+
+export const poseAnnotationShapeProps: RecordProps<PoseAnnotationShape> = {
+  kind: T.literalEnum(...Object.values(PoseAnnotationKind)),
+  text: T.string,
+  color: DefaultColorStyle,
+};
+
+export const poseAnnotationBindingProps: RecordProps<PoseAnnotationBinding> = {
+  offset: vecModelValidator,
+};
+
+// In the form createTLSchema takes them. FlowSectionFrameShapeUtil keeps tldraw's frame props and
+// migrations, so the frame needs no entry.
+export const customShapeSchemas = {
+  'yoga-pose-svg': { props: yogaPoseSvgShapeProps, migrations: yogaPoseSvgShapeMigrations },
+  'pose-annotation': { props: poseAnnotationShapeProps },
+};
+
+export const customBindingSchemas = {
+  'pose-annotation': { props: poseAnnotationBindingProps },
+};
@@ -4,13 +4,84 @@ import {
   ShapeUtil,
   Rectangle2d,
   type TLBaseShape,
-  type RecordProps,
-  T,
-  DefaultColorStyle,
-  DefaultFillStyle,
   type TLDefaultColorStyle,
   type TLDefaultFillStyle,
+  type TLDefaultSizeStyle,
+  type SvgExportContext,
+  getDefaultColorTheme,
+  type TLDefaultColorTheme,
 } from 'tldraw';
+import { formatPoseTiming, type PoseHoldUnit, type PoseSide } from '../utils/pose-timing';
+import { POSE_STROKE_SCALES } from '../utils/pose-size';
+import { isPoseSketchRef } from '../utils/canvas-encoding';
+import { poseColorThemes } from '../assets/yoga-flows';
+import { PoseTheme } from '../types/pose-theme';
+import { defaultYogaPoseSvgProps, yogaPoseSvgShapeMigrations, yogaPoseSvgShapeProps } from './shape-schemas';
+
+// Stands in for a sketch that couldn't be loaded from storage; the shape keeps the reference
+const unloadedSketchSvg = (w: number, h: number) =>
+  `<svg viewBox="0 0 ${w} ${h}" xmlns="http://www.w3.org/2000/svg">`
+  + `<rect x="1" y="1" width="${w - 2}" height="${h - 2}" rx="8" fill="none" stroke="currentColor" stroke-dasharray="6 6" opacity="0.4"/>`
+  + `<text x="50%" y="50%" dominant-baseline="middle" text-anchor="middle" font-size="14" fill="currentColor" opacity="0.6">Sketch not loaded</text></svg>`;
+
+// Flip the sketch horizontally within its own viewBox so it stays in place
+const mirrorMarkup = (inner: string, viewBox: string) => {
+  const [x = 0, , width = 0] = viewBox.split(/\s+/).map(parseFloat);
+  return `<g transform="translate(${2 * x + width}, 0) scale(-1, 1)">${inner}</g>`;
+};
+
+// Recolour the body-part groups (<g id="left-leg">, ...) the pose theme names. Their own stroke and
+// fill colours are replaced, and the group's colour is set for anything drawn with currentColor.
+const colorBodyParts = (svgEl: Element, poseTheme: PoseTheme, theme: TLDefaultColorTheme) => {
+  const parts = poseColorThemes.find(entry => entry.theme === poseTheme)?.parts ?? {};
+  Object.entries(parts).forEach(([part, color]) => {
+    const solid = theme[color].solid;
+    svgEl.querySelectorAll(`g[id="${part}"]`).forEach((group) => {
+      group.setAttribute('color', solid);
+      [group, ...Array.from(group.querySelectorAll('*'))].forEach((el) => {
+        ['stroke', 'fill'].forEach((attr) => {
+          const value = el.getAttribute(attr);
+          if (value && value !== 'none' && !value.startsWith('url(')) {
+            el.setAttribute(attr, solid);
+          }
+        });
+      });
+    });
+  });
+};
+
+// Thicken or thin the sketch's lines for the size style, including lines drawn at the default width
+const weightStrokes = (svgEl: Element, size: TLDefaultSizeStyle) => {
+  const scale = POSE_STROKE_SCALES[size];
+  if (scale === 1) return;
+
+  svgEl.querySelectorAll('[stroke-width]').forEach((el) => {
+    el.setAttribute('stroke-width', (parseFloat(el.getAttribute('stroke-width')!) * scale).toString());
+  });
+  const group = svgEl.ownerDocument.createElementNS('http://www.w3.org/2000/svg', 'g');
+  group.setAttribute('stroke-width', scale.toString());
+  group.append(...Array.from(svgEl.childNodes));
+  svgEl.append(group);
+};
+
+// Small pill at the bottom of the pose frame showing hold time and side
+const renderTimingBadge = (props: YogaPoseSvgShape['props'], textColor: string, fillColor: string) => {
+  const label = formatPoseTiming(props);
+  if (!label) return null;
+
+  const width = label.length * 7 + 16;
+  return React.createElement('g', { transform: `translate(${props.w / 2 - width / 2}, ${props.h - 22})` },
+    React.createElement('rect', { width, height: 18, rx: 9, fill: fillColor, stroke: textColor, strokeWidth: 1, strokeOpacity: 0.3 }),
+    React.createElement('text', {
+      x: width / 2,
+      y: 13,
+      textAnchor: 'middle',
+      fontSize: 11,
+      fontFamily: 'sans-serif',
+      fill: textColor,
+    }, label)
+  );
+};
 
 /* Declare the record type */
 export type YogaPoseSvgShape = TLBaseShape<
@@ -21,28 +92,39 @@ export type YogaPoseSvgShape = TLBaseShape<
     h: number;
     color: TLDefaultColorStyle;
     fill: TLDefaultFillStyle;
+    // Line weight of the sketch
+    size: TLDefaultSizeStyle;
     opacity: number;
+    // Which pose this is: the catalog id as a string, `custom:<uuid>` for uploads, '' if unknown
+    poseId: string;
+    name: string;
+    indianName: string;
+    category: number | null;
+    // Catalog variation id (e.g. "block") when a prop variation is shown, '' for the base pose
+    variant: string;
+    // Hold time in `holdUnit`s; 0 means not timed yet
+    holdAmount: number;
+    holdUnit: PoseHoldUnit;
+    side: PoseSide;
+    // Render the pose flipped, for the other side of an asymmetric pose
+    isMirrored: boolean;
+    // Colour theme for the sketch's body-part groups
+    theme: PoseTheme;
   }
 >;
 
 /* Implement the util */
 export class YogaPoseSvgShapeUtil extends ShapeUtil<YogaPoseSvgShape> {
   static override type = 'yoga-pose-svg' as const;
-  static override props: RecordProps<YogaPoseSvgShape> = {
-    svg: T.string,
-    w: T.number,
-    h: T.number,
-    color: DefaultColorStyle,
-    fill: DefaultFillStyle,
-    opacity: T.number,
-  };
+  static override props = yogaPoseSvgShapeProps;
+  static override migrations = yogaPoseSvgShapeMigrations;
 
-  // Enable style panel for color, fill, and opacity
+  // Enable style panel for color, fill, size, and opacity
   static styles = {
     color: true,
     fill: true,
     dash: false,
-    size: false,
+    size: true,
     font: false,
     align: false,
     verticalAlign: false,
@@ -50,14 +132,7 @@ export class YogaPoseSvgShapeUtil extends ShapeUtil<YogaPoseSvgShape> {
   };
 
   getDefaultProps(): YogaPoseSvgShape['props'] {
-    return { 
-      svg: '', 
-      w: 255, 
-      h: 255,
-      color: 'black',
-      fill: 'none',
-      opacity: 1,
-    };
+    return { ...defaultYogaPoseSvgProps };
   }
 
   /* Hit-testing & snapping geometry */
@@ -78,8 +153,12 @@ export class YogaPoseSvgShapeUtil extends ShapeUtil<YogaPoseSvgShape> {
 
   /* React renderer – drop raw markup into the canvas */
   component({ props }: YogaPoseSvgShape) {
+    // Sketches drawn with currentColor (e.g. uploaded custom poses) follow the style panel colour
+    const theme = getDefaultColorTheme({ isDarkMode: this.editor.user.getIsDarkMode() });
+
+    const sketch = isPoseSketchRef(props.svg) ? unloadedSketchSvg(props.w, props.h) : props.svg;
     const parser = new DOMParser();
-    const doc = parser.parseFromString(props.svg, 'image/svg+xml');
+    const doc = parser.parseFromString(sketch, 'image/svg+xml');
     const svgEl = doc.querySelector('svg');
 
     let viewBox = `0 0 ${props.w} ${props.h}`;
@@ -109,9 +188,12 @@ export class YogaPoseSvgShapeUtil extends ShapeUtil<YogaPoseSvgShape> {
         }
       });
       toRemove.forEach((el) => el.remove());
+      colorBodyParts(svgEl, props.theme, theme);
+      weightStrokes(svgEl, props.size);
     }
 
-    const inner = svgEl ? svgEl.innerHTML : props.svg.replace(/^[\s\S]*?<svg[^>]*>/, '').replace(/<\/svg>[\s\S]*$/, '');
+    const markup = svgEl ? svgEl.innerHTML : sketch.replace(/^[\s\S]*?<svg[^>]*>/, '').replace(/<\/svg>[\s\S]*$/, '');
+    const inner = props.isMirrored ? mirrorMarkup(markup, viewBox) : markup;
 
     return React.createElement(SVGContainer, {}, 
       React.createElement('svg', {
@@ -122,6 +204,7 @@ export class YogaPoseSvgShapeUtil extends ShapeUtil<YogaPoseSvgShape> {
         xmlns: 'http://www.w3.org/2000/svg',
         style: { 
           opacity: props.opacity,
+          color: theme[props.color].solid,
           width: props.w, 
           height: props.h,
           overflow: 'hidden',
@@ -130,13 +213,21 @@ export class YogaPoseSvgShapeUtil extends ShapeUtil<YogaPoseSvgShape> {
           justifyContent: 'center',
         },
         dangerouslySetInnerHTML: { __html: inner },
-      })
+      }),
+      React.createElement('svg', {
+        width: props.w,
+        height: props.h,
+        style: { overflow: 'visible' },
+      }, renderTimingBadge(props, theme.text, theme.background))
     );
   }
 
   /* Export renderer - return a React SVG element as tldraw expects */
-  toSvg(shape: YogaPoseSvgShape) {
-    const { svg, w, h, opacity } = shape.props;
+  toSvg(shape: YogaPoseSvgShape, ctx: SvgExportContext) {
+    const { w, h, opacity, color } = shape.props;
+    const svg = isPoseSketchRef(shape.props.svg) ? unloadedSketchSvg(w, h) : shape.props.svg;
+    const theme = getDefaultColorTheme({ isDarkMode: ctx.isDarkMode });
+    const badge = renderTimingBadge(shape.props, theme.text, theme.background);
 
     const parser = new DOMParser();
     const doc = parser.parseFromString(svg, 'image/svg+xml');
@@ -169,16 +260,20 @@ export class YogaPoseSvgShapeUtil extends ShapeUtil<YogaPoseSvgShape> {
         }
       });
       toRemove.forEach((el) => el.remove());
+      colorBodyParts(svgEl, shape.props.theme, theme);
+      weightStrokes(svgEl, shape.props.size);
     }
 
-    const inner = svgEl ? svgEl.innerHTML : svg.replace(/^[\s\S]*?<svg[^>]*>/, '').replace(/<\/svg>[\s\S]*$/, '');
+    const markup = svgEl ? svgEl.innerHTML : svg.replace(/^[\s\S]*?<svg[^>]*>/, '').replace(/<\/svg>[\s\S]*$/, '');
+    const inner = shape.props.isMirrored ? mirrorMarkup(markup, viewBox) : markup;
 
-    return React.createElement('svg', {
+    const pose = React.createElement('svg', {
       width: w,
       height: h,
       viewBox: viewBox,
-      style: { opacity },
+      style: { opacity, color: theme[color].solid },
       dangerouslySetInnerHTML: { __html: inner },
     });
+    return badge ? React.createElement('g', {}, pose, badge) : pose;
   }
 } 
\ No newline at end of file
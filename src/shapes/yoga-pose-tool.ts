@@ -1,32 +1,146 @@
-import { StateNode, type TLShapeId } from 'tldraw';
-import type { TLEventHandlers } from 'tldraw';
+import { StateNode, atom, Vec, type TLEventHandlers } from 'tldraw';
+import { getSelectedPose } from '../utils/pose-state';
+import { createPoseFromSVG, fetchPoseSVG, type YogaPoseSVG } from '../utils/svg-pose-parser';
+import type { YogaPose } from '../types/yoga-pose';
 
+// Where the selected pose would land, in page space
+export interface PoseGhost {
+  svg: string;
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+// Smallest pose a drag can make, so a twitchy click doesn't leave a speck
+const MIN_STAMP_WIDTH = 40;
+
+const getSketchSize = (svg: string) => {
+  const viewBox = svg.match(/viewBox="([^"]*)"/)?.[1].split(/\s+/).map(parseFloat);
+  return viewBox && viewBox.length >= 4 ? { w: viewBox[2], h: viewBox[3] } : { w: 130, h: 130 };
+};
+
+/**
+ * Stamps the pose picked in the pose panel: a ghost follows the cursor, a click places the pose
+ * at its own size and a drag places it at the dragged size (keeping its proportions). The tool
+ * stays active for the next stamp until Escape or a right click.
+ */
 export class YogaPoseTool extends StateNode {
-  tempShapeId: TLShapeId | null = null;
   static override id = 'yoga-pose-tool';
-  
-  override onEnter = () => {
-    this.editor.setCursor({ type: 'default', rotation: 0 });
-  };
 
-  override onPointerDown: TLEventHandlers['onPointerDown'] = () => {
-    // Switch to select tool when clicking on canvas
-    this.editor.setCurrentTool('select');
+  // Read by PoseGhostPreview to draw the ghost
+  ghost = atom<PoseGhost | null>('pose ghost', null);
+
+  private sourcePose: YogaPose | YogaPoseSVG | undefined;
+  private preparedPose: YogaPoseSVG | null = null;
+  private dragOrigin: Vec | null = null;
+
+  override onEnter = () => {
+    this.editor.setCursor({ type: 'cross', rotation: 0 });
+    this.syncSelectedPose();
   };
 
   override onExit = () => {
-    // Clean up the temporary shape when exiting the tool
-    if (this.tempShapeId) {
-      this.editor.deleteShape(this.tempShapeId);
-      this.tempShapeId = null;
-    }
+    this.ghost.set(null);
+    this.dragOrigin = null;
   };
 
   override onPointerMove: TLEventHandlers['onPointerMove'] = () => {
-    // Keep the tool active while moving
+    this.syncSelectedPose();
+    this.updateGhost();
+  };
+
+  override onPointerDown: TLEventHandlers['onPointerDown'] = (info) => {
+    if (info.button === 2) {
+      this.editor.setCurrentTool('select');
+      return;
+    }
+    // Nothing picked in the panel: behave like clicking off the tool
+    if (!this.preparedPose) {
+      this.editor.setCurrentTool('select');
+      return;
+    }
+    this.dragOrigin = this.editor.inputs.currentPagePoint.clone();
   };
 
   override onPointerUp: TLEventHandlers['onPointerUp'] = () => {
-    // Keep the tool active
+    // A press that started before this tool was active, e.g. mid-drag when switching tools
+    if (!this.dragOrigin) return;
+
+    const ghost = this.ghost.get();
+    const pose = this.preparedPose;
+    this.dragOrigin = null;
+    if (!ghost || !pose) return;
+
+    this.editor.markHistoryStoppingPoint('place pose');
+    try {
+      createPoseFromSVG(this.editor, pose, ghost.x, ghost.y, { w: ghost.w, h: ghost.h });
+    } catch (error) {
+      console.error('Error placing pose:', error);
+      alert('Failed to place pose');
+    }
+    this.updateGhost();
+  };
+
+  override onCancel: TLEventHandlers['onCancel'] = () => {
+    this.editor.setCurrentTool('select');
   };
-}
\ No newline at end of file
+
+  override onInterrupt: TLEventHandlers['onInterrupt'] = () => {
+    this.dragOrigin = null;
+    this.updateGhost();
+  };
+
+  // Pick up a pose newly chosen in the panel, fetching catalog sketches once
+  private syncSelectedPose() {
+    const selectedPose = getSelectedPose(this.editor);
+    if (selectedPose === this.sourcePose) return;
+
+    this.sourcePose = selectedPose;
+    this.preparedPose = null;
+    this.ghost.set(null);
+    if (!selectedPose) return;
+
+    if ('svg' in selectedPose) {
+      this.preparedPose = selectedPose;
+      this.updateGhost();
+      return;
+    }
+    fetchPoseSVG(selectedPose).then((svgPose) => {
+      // Ignore a fetch that finished after another pose was picked
+      if (this.sourcePose !== selectedPose) return;
+      this.preparedPose = svgPose;
+      this.updateGhost();
+    });
+  }
+
+  private updateGhost() {
+    if (!this.preparedPose) {
+      this.ghost.set(null);
+      return;
+    }
+
+    const { svg } = this.preparedPose;
+    const natural = getSketchSize(svg);
+    const point = this.editor.inputs.currentPagePoint;
+
+    if (this.dragOrigin && this.editor.inputs.isDragging) {
+      // Fit the sketch's proportions to the dragged box, anchored at the drag start
+      const delta = Vec.Sub(point, this.dragOrigin);
+      const w = Math.max(MIN_STAMP_WIDTH, Math.abs(delta.x), Math.abs(delta.y) * (natural.w / natural.h));
+      const h = w * (natural.h / natural.w);
+      this.ghost.set({
+        svg,
+        x: delta.x < 0 ? this.dragOrigin.x - w : this.dragOrigin.x,
+        y: delta.y < 0 ? this.dragOrigin.y - h : this.dragOrigin.y,
+        w,
+        h,
+      });
+      return;
+    }
+
+    // Centre the pose on the cursor, or on where the click started
+    const anchor = this.dragOrigin ?? point;
+    this.ghost.set({ svg, x: anchor.x - natural.w / 2, y: anchor.y - natural.h / 2, ...natural });
+  }
+}
@@ -0,0 +1,2 @@
+// Tests run in jsdom, which has no IndexedDB; the local canvas store runs against an in-memory one
+import 'fake-indexeddb/auto';
@@ -0,0 +1,31 @@
+import type { Canvas } from '../lib/supabase';
+
+// How the user settles a canvas whose content changed on another device in ways that don't merge
+export const ConflictResolution = {
+  // Save this device's content over the other one
+  KEEP_MINE: 'keep-mine',
+  // Replace this device's content with the other one
+  TAKE_THEIRS: 'take-theirs',
+  // Keep this device's content as a new canvas and take the other one for the original
+  FORK: 'fork',
+} as const;
+
+export type ConflictResolution = typeof ConflictResolution[keyof typeof ConflictResolution];
+
+// A save the server refused because the canvas changed since this device last synced it
+export interface CanvasConflict {
+  canvasId: string;
+  // The server's copy when the conflict was found, data still encoded
+  remote: Canvas;
+  // Records changed differently on both sides
+  conflictingRecords: number;
+  detectedAt: number;
+}
+
+// How the content of a canvas changed underneath the editor
+export type CanvasContentChange =
+  // Changes from another device were merged in; `put` and `remove` are the records they touched
+  | { type: 'merged'; canvasId: string; put: unknown[]; remove: string[] }
+  // The content was replaced outright, by taking the other device's copy
+  | { type: 'replaced'; canvasId: string }
+  | { type: 'conflict'; canvasId: string };
@@ -0,0 +1,25 @@
+// How canvas data is stored, recorded in its `version` field
+export const CanvasEncoding = {
+  // The plain getSnapshot output, as canvases were saved before encodings existed
+  RAW: '1.0.0',
+  // Pose sketches replaced by pose_sketches references, the rest gzipped and base64 encoded
+  GZIP_POSE_REFS: 'gzip+pose-refs/1',
+} as const;
+
+export type CanvasEncoding = typeof CanvasEncoding[keyof typeof CanvasEncoding];
+
+export interface EncodedCanvasState {
+  version: typeof CanvasEncoding.GZIP_POSE_REFS;
+  timestamp: number;
+  encoded: string;
+  // Keys (`<pose id>#<hash>`) of the pose sketches the snapshot refers to
+  sketches: string[];
+}
+
+export const CanvasSizeStatus = {
+  OK: 'ok',
+  WARNING: 'warning',
+  OVER_LIMIT: 'over-limit',
+} as const;
+
+export type CanvasSizeStatus = typeof CanvasSizeStatus[keyof typeof CanvasSizeStatus];
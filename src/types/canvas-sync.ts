@@ -0,0 +1,47 @@
+import type { NewCanvas, NewCanvasVersion, NewFolder, NewPoseSketch, UpdateCanvas, UpdateFolder } from '../lib/supabase';
+
+// Folder and canvas writes waiting to be replayed against the CanvasService. Creates carry the
+// id generated on the client so later mutations in the queue can refer to the new row.
+export type CanvasMutation =
+  | { type: 'create-folder'; folder: NewFolder & { id: string }; insertAtBeginning: boolean }
+  | { type: 'update-folder'; id: string; updates: UpdateFolder }
+  | { type: 'delete-folder'; id: string }
+  | { type: 'reorder-folders'; userId: string; sourceId: string; targetId: string }
+  | { type: 'create-canvas'; canvas: NewCanvas & { id: string }; insertAtBeginning: boolean }
+  | { type: 'update-canvas'; id: string; updates: UpdateCanvas }
+  | { type: 'move-canvas'; canvasId: string; folderId: string | null }
+  | { type: 'reorder-canvases'; userId: string; sourceId: string; targetId: string }
+  | { type: 'delete-canvas'; id: string }
+  | { type: 'create-canvas-version'; version: NewCanvasVersion & { id: string } }
+  | { type: 'put-pose-sketches'; sketches: NewPoseSketch[] };
+
+export interface QueuedMutation {
+  seq?: number; // Assigned by IndexedDB, replay follows it
+  mutation: CanvasMutation;
+  attempts: number;
+  queuedAt: number;
+}
+
+// A mutation the server kept rejecting, set aside so the queue can move on. The local rows it
+// wrote are kept until it is retried or discarded.
+export interface FailedMutation extends QueuedMutation {
+  seq: number;
+  error: string;
+  failedAt: number;
+}
+
+export interface SyncStatus {
+  pending: number;
+  failed: number;
+  isSyncing: boolean;
+  isOnline: boolean;
+  lastError: string | null;
+}
+
+// The server's copy of a canvas's content as of the last sync: the revision a local save is
+// expected to apply to, and the common ancestor when merging with changes from elsewhere
+export interface CanvasBase {
+  canvasId: string;
+  revision: number;
+  data: unknown; // Encoded like the canvases row
+}
@@ -0,0 +1,9 @@
+// Why a canvas version was saved, stored in canvas_versions.reason
+export const CanvasVersionReason = {
+  AUTO: 'auto',
+  MANUAL: 'manual',
+  BEFORE_DELETE: 'before-delete',
+  BEFORE_RESTORE: 'before-restore',
+} as const;
+
+export type CanvasVersionReason = typeof CanvasVersionReason[keyof typeof CanvasVersionReason];
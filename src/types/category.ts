@@ -17,4 +17,58 @@ export const SubCategory = {
   TOTAL: 5,
 } as const;
 
-export type SubCategory = typeof SubCategory[keyof typeof SubCategory];
\ No newline at end of file
+export type SubCategory = typeof SubCategory[keyof typeof SubCategory];
+
+export const Intensity = {
+  GENTLE: 0,
+  MODERATE: 1,
+  STRONG: 2,
+} as const;
+
+export type Intensity = typeof Intensity[keyof typeof Intensity];
+
+export const BodyFocus = {
+  HIPS: 0,
+  HAMSTRINGS: 1,
+  SHOULDERS: 2,
+  SPINE: 3,
+  CORE: 4,
+  LEGS: 5,
+} as const;
+
+export type BodyFocus = typeof BodyFocus[keyof typeof BodyFocus];
+
+export const PoseFamily = {
+  BACKBEND: 0,
+  TWIST: 1,
+  FORWARD_FOLD: 2,
+  BALANCE: 3,
+  SIDE_BEND: 4,
+  INVERSION: 5,
+  NEUTRAL: 6,
+} as const;
+
+export type PoseFamily = typeof PoseFamily[keyof typeof PoseFamily];
+
+export const Contraindication = {
+  PREGNANCY: 0,
+  KNEE: 1,
+  WRIST: 2,
+  LOWER_BACK: 3,
+  NECK: 4,
+  HIGH_BLOOD_PRESSURE: 5,
+} as const;
+
+export type Contraindication = typeof Contraindication[keyof typeof Contraindication];
+
+
+export const PoseProp = {
+  BLOCK: 0,
+  STRAP: 1,
+  BOLSTER: 2,
+  BLANKET: 3,
+  CHAIR: 4,
+  WALL: 5,
+} as const;
+
+export type PoseProp = typeof PoseProp[keyof typeof PoseProp];
@@ -0,0 +1,11 @@
+export const FlowSectionType = {
+  CENTERING: 'centering',
+  WARM_UP: 'warm-up',
+  SUN_SALUTATION: 'sun-salutation',
+  STANDING: 'standing',
+  PEAK: 'peak',
+  COOL_DOWN: 'cool-down',
+  SAVASANA: 'savasana',
+} as const;
+
+export type FlowSectionType = typeof FlowSectionType[keyof typeof FlowSectionType];
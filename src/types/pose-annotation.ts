@@ -0,0 +1,8 @@
+export const PoseAnnotationKind = {
+  CUE: 'cue',
+  INHALE: 'inhale',
+  EXHALE: 'exhale',
+  TRANSITION: 'transition',
+} as const;
+
+export type PoseAnnotationKind = typeof PoseAnnotationKind[keyof typeof PoseAnnotationKind];
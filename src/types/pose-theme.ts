@@ -0,0 +1,21 @@
+// Group ids a pose sketch can use to mark its body parts, e.g. <g id="left-leg">
+export const BodyPart = {
+  HEAD: 'head',
+  SPINE: 'spine',
+  LEFT_ARM: 'left-arm',
+  RIGHT_ARM: 'right-arm',
+  LEFT_LEG: 'left-leg',
+  RIGHT_LEG: 'right-leg',
+} as const;
+
+export type BodyPart = typeof BodyPart[keyof typeof BodyPart];
+
+export const PoseTheme = {
+  PLAIN: 'plain',
+  WORKING_LEG: 'working-leg',
+  SPINE: 'spine',
+  LEFT_RIGHT: 'left-right',
+  BODY_MAP: 'body-map',
+} as const;
+
+export type PoseTheme = typeof PoseTheme[keyof typeof PoseTheme];
@@ -1,11 +1,32 @@
-import { Category, SubCategory } from './category';
+import { Category, SubCategory, Intensity, BodyFocus, PoseFamily, Contraindication, PoseProp } from './category';
 
-export interface YogaPose {
+// The same pose done with a prop, drawn as its own sketch
+export interface PoseVariation {
+  // Unique within the pose, e.g. "block"
   id: string;
   name: string;
+  prop: PoseProp;
+  image: string;
+}
+
+export interface YogaPose {
+  id: number;
+  name: string;
   translation: string;
+  indianName: string;
   image: string;
+  thumbnail: string;
   category: Category;
   subCategory?: SubCategory;
-  linked?: number[];
-}
\ No newline at end of file
+  linked: number[];
+  // Optional in the catalog; placeholder poses don't have them yet
+  intensity?: Intensity;
+  bodyFocus: BodyFocus[];
+  families: PoseFamily[];
+  contraindications: Contraindication[];
+  // Teaching notes for the detail card
+  cues: string[];
+  benefits: string[];
+  modifications: string[];
+  variations: PoseVariation[];
+}
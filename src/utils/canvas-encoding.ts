@@ -0,0 +1,173 @@
+import type { NewPoseSketch } from '../lib/supabase';
+import type { CanvasState } from '../hooks/useCanvasState';
+import { CanvasEncoding, CanvasSizeStatus, type EncodedCanvasState } from '../types/canvas-encoding';
+
+// Encoded canvas data is stored inline on the canvases row and sent whole on every save
+export const CANVAS_DATA_MAX_BYTES = 1024 * 1024;
+export const CANVAS_DATA_WARNING_BYTES = 768 * 1024;
+
+// Error code of a save refused for going over CANVAS_DATA_MAX_BYTES
+export const CANVAS_TOO_LARGE = 'CANVAS_TOO_LARGE';
+
+// Stands in for a pose shape's svg prop in an encoded snapshot
+const SKETCH_REF_PREFIX = 'pose-sketch:';
+
+// Sketch markup never changes once drawn, so each is hashed once per session
+const sketchHashes = new Map<string, string>();
+
+interface SnapshotRecord {
+  typeName?: string;
+  type?: string;
+  props?: { svg?: string; poseId?: string };
+}
+
+interface SnapshotWithRecords {
+  document?: { store?: Record<string, SnapshotRecord> };
+}
+
+export interface EncodedCanvas {
+  state: EncodedCanvasState;
+  sketches: NewPoseSketch[];
+}
+
+export const poseSketchKey = (sketch: Pick<NewPoseSketch, 'pose_id' | 'hash'>) => `${sketch.pose_id}#${sketch.hash}`;
+
+export function parsePoseSketchKey(key: string): { pose_id: string; hash: string } {
+  const separator = key.lastIndexOf('#');
+  return { pose_id: key.slice(0, separator), hash: key.slice(separator + 1) };
+}
+
+// A pose whose sketch couldn't be loaded keeps its reference in place of the svg, so saving the
+// canvas again doesn't lose the sketch
+export const isPoseSketchRef = (svg: string) => svg.startsWith(SKETCH_REF_PREFIX);
+
+export function isEncodedCanvasState(data: unknown): data is EncodedCanvasState {
+  return (data as EncodedCanvasState | null)?.version === CanvasEncoding.GZIP_POSE_REFS;
+}
+
+// A state straight from the editor rather than stored data
+export function isRawCanvasState(data: unknown): data is CanvasState {
+  return !!(data as CanvasState | null)?.snapshot && !isEncodedCanvasState(data);
+}
+
+export function canvasTooLargeError(bytes: number): Error {
+  return Object.assign(
+    new Error(`This flow is too large to save (${formatCanvasSize(bytes)}, the limit is ${formatCanvasSize(CANVAS_DATA_MAX_BYTES)})`),
+    { code: CANVAS_TOO_LARGE, bytes }
+  );
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+async function gzipToBase64(text: string): Promise<string> {
+  const stream = new Blob([text]).stream().pipeThrough(new CompressionStream('gzip'));
+  const bytes = new Uint8Array(await new Response(stream).arrayBuffer());
+  let binary = '';
+  // fromCharCode takes its arguments on the stack, so convert in chunks
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+async function gunzipFromBase64(base64: string): Promise<string> {
+  const bytes = Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('gzip'));
+  return new Response(stream).text();
+}
+
+const isPoseShape = (record: SnapshotRecord) => record.typeName === 'shape' && record.type === 'yoga-pose-svg';
+
+/**
+ * Encode a canvas state for storage: every pose sketch is swapped for a reference to a
+ * pose_sketches row, so repeated poses are stored once, and the rest is gzipped. Poses still
+ * holding a reference (their sketch wasn't loaded) keep it as it is.
+ */
+export async function encodeCanvasState(state: CanvasState): Promise<EncodedCanvas> {
+  const snapshot = state.snapshot as SnapshotWithRecords;
+  const records = snapshot.document?.store ?? {};
+  const sketches = new Map<string, NewPoseSketch>();
+  const unloadedKeys = new Set<string>();
+
+  const store: Record<string, SnapshotRecord> = {};
+  for (const [id, record] of Object.entries(records)) {
+    const svg = record.props?.svg;
+    if (!isPoseShape(record) || !svg) {
+      store[id] = record;
+      continue;
+    }
+    if (isPoseSketchRef(svg)) {
+      unloadedKeys.add(svg.slice(SKETCH_REF_PREFIX.length));
+      store[id] = record;
+      continue;
+    }
+
+    let hash = sketchHashes.get(svg);
+    if (!hash) {
+      hash = await sha256Hex(svg);
+      sketchHashes.set(svg, hash);
+    }
+    const sketch = { pose_id: record.props?.poseId ?? '', hash, svg };
+    sketches.set(poseSketchKey(sketch), sketch);
+    store[id] = { ...record, props: { ...record.props, svg: `${SKETCH_REF_PREFIX}${poseSketchKey(sketch)}` } };
+  }
+
+  const withRefs = { ...snapshot, document: { ...snapshot.document, store } };
+  return {
+    state: {
+      version: CanvasEncoding.GZIP_POSE_REFS,
+      timestamp: state.timestamp,
+      encoded: await gzipToBase64(JSON.stringify(withRefs)),
+      sketches: [...new Set([...sketches.keys(), ...unloadedKeys])],
+    },
+    sketches: [...sketches.values()],
+  };
+}
+
+/**
+ * Turn encoded canvas data back into a canvas state, putting the pose sketches back from
+ * `sketchSvgs` (keyed like EncodedCanvasState.sketches). A sketch that can't be found stays a
+ * reference, which the pose shows as not loaded and which is saved back unchanged.
+ */
+export async function decodeCanvasState(
+  state: EncodedCanvasState,
+  sketchSvgs: Map<string, string>
+): Promise<CanvasState> {
+  const snapshot = JSON.parse(await gunzipFromBase64(state.encoded)) as SnapshotWithRecords;
+  Object.values(snapshot.document?.store ?? {}).forEach((record) => {
+    const svg = record.props?.svg;
+    if (!isPoseShape(record) || !svg?.startsWith(SKETCH_REF_PREFIX)) return;
+
+    const key = svg.slice(SKETCH_REF_PREFIX.length);
+    const sketch = sketchSvgs.get(key);
+    if (sketch === undefined) {
+      console.warn('Missing pose sketch for canvas shape:', key);
+      return;
+    }
+    record.props!.svg = sketch;
+  });
+
+  return {
+    snapshot: snapshot as CanvasState['snapshot'],
+    timestamp: state.timestamp,
+    version: CanvasEncoding.RAW,
+  };
+}
+
+// Size of canvas data as it is sent to the server
+export function getCanvasDataSize(data: unknown): number {
+  return new Blob([JSON.stringify(data ?? {})]).size;
+}
+
+export function getCanvasSizeStatus(bytes: number): CanvasSizeStatus {
+  if (bytes > CANVAS_DATA_MAX_BYTES) return CanvasSizeStatus.OVER_LIMIT;
+  if (bytes > CANVAS_DATA_WARNING_BYTES) return CanvasSizeStatus.WARNING;
+  return CanvasSizeStatus.OK;
+}
+
+export function formatCanvasSize(bytes: number): string {
+  return bytes < 1024 * 1024 ? `${Math.round(bytes / 1024)} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { mergeCanvasStates } from './canvas-merge';
+import { CanvasEncoding } from '../types/canvas-encoding';
+import type { CanvasState } from '../hooks/useCanvasState';
+
+interface TestRecord {
+  id: string;
+  typeName: string;
+  x: number;
+  text?: string;
+}
+
+const shape = (id: string, x = 0, text?: string): TestRecord => ({ id, typeName: 'shape', x, ...(text ? { text } : {}) });
+
+const canvasState = (...records: TestRecord[]): CanvasState => ({
+  snapshot: {
+    document: { store: Object.fromEntries(records.map(record => [record.id, record])), schema: {} },
+    session: {},
+  } as unknown as CanvasState['snapshot'],
+  timestamp: 0,
+  version: CanvasEncoding.RAW,
+});
+
+const mergedStore = (state: CanvasState) =>
+  (state.snapshot as unknown as { document: { store: Record<string, TestRecord> } }).document.store;
+
+describe('mergeCanvasStates', () => {
+  it('keeps changes made only on this device', () => {
+    const base = canvasState(shape('shape:a'), shape('shape:b'));
+    const local = canvasState(shape('shape:a', 10), shape('shape:c'));
+
+    const merge = mergeCanvasStates(base, local, base);
+
+    expect(mergedStore(merge.state)).toEqual({ 'shape:a': shape('shape:a', 10), 'shape:c': shape('shape:c') });
+    expect(merge.conflicts).toEqual([]);
+    expect(merge.remoteChanges).toEqual({ put: [], remove: [] });
+  });
+
+  it('takes changes made only on the other device, and lists them for the editor', () => {
+    const base = canvasState(shape('shape:a'), shape('shape:b'));
+    const remote = canvasState(shape('shape:a', 20), shape('shape:c'));
+
+    const merge = mergeCanvasStates(base, base, remote);
+
+    expect(mergedStore(merge.state)).toEqual({ 'shape:a': shape('shape:a', 20), 'shape:c': shape('shape:c') });
+    expect(merge.conflicts).toEqual([]);
+    expect(merge.remoteChanges.put).toEqual([shape('shape:a', 20), shape('shape:c')]);
+    expect(merge.remoteChanges.remove).toEqual(['shape:b']);
+  });
+
+  it('combines changes to different records from both devices', () => {
+    const base = canvasState(shape('shape:a'), shape('shape:b'));
+    const local = canvasState(shape('shape:a', 10), shape('shape:b'));
+    const remote = canvasState(shape('shape:a'), shape('shape:b', 0, 'Inhale'));
+
+    const merge = mergeCanvasStates(base, local, remote);
+
+    expect(mergedStore(merge.state)).toEqual({ 'shape:a': shape('shape:a', 10), 'shape:b': shape('shape:b', 0, 'Inhale') });
+    expect(merge.conflicts).toEqual([]);
+  });
+
+  it('keeps a record changed the same way on both devices once, without a conflict', () => {
+    const base = canvasState(shape('shape:a'));
+    const edited = canvasState(shape('shape:a', 10));
+
+    const merge = mergeCanvasStates(base, edited, canvasState(shape('shape:a', 10)));
+
+    expect(mergedStore(merge.state)).toEqual({ 'shape:a': shape('shape:a', 10) });
+    expect(merge.conflicts).toEqual([]);
+    expect(merge.remoteChanges).toEqual({ put: [], remove: [] });
+  });
+
+  it('reports a record changed differently on both devices, keeping this device\'s change', () => {
+    const base = canvasState(shape('shape:a'), shape('shape:b'));
+    const local = canvasState(shape('shape:a', 10), shape('shape:b'));
+    const remote = canvasState(shape('shape:a', 20), shape('shape:b', 5));
+
+    const merge = mergeCanvasStates(base, local, remote);
+
+    expect(merge.conflicts).toEqual(['shape:a']);
+    expect(mergedStore(merge.state)).toEqual({ 'shape:a': shape('shape:a', 10), 'shape:b': shape('shape:b', 5) });
+  });
+
+  it('reports a record deleted on one device and edited on the other', () => {
+    const base = canvasState(shape('shape:a'), shape('shape:b'));
+    const local = canvasState(shape('shape:b', 10));
+    const remote = canvasState(shape('shape:a', 20));
+
+    const merge = mergeCanvasStates(base, local, remote);
+
+    expect(merge.conflicts.sort()).toEqual(['shape:a', 'shape:b']);
+    expect(mergedStore(merge.state)).toEqual({ 'shape:b': shape('shape:b', 10) });
+  });
+
+  it('treats a missing base as an empty canvas', () => {
+    const local = canvasState(shape('shape:a', 10), shape('shape:b'));
+    const remote = canvasState(shape('shape:a', 20), shape('shape:c'));
+
+    const merge = mergeCanvasStates(null, local, remote);
+
+    expect(merge.conflicts).toEqual(['shape:a']);
+    expect(mergedStore(merge.state)).toEqual({
+      'shape:a': shape('shape:a', 10),
+      'shape:b': shape('shape:b'),
+      'shape:c': shape('shape:c'),
+    });
+  });
+});
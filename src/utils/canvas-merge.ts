@@ -0,0 +1,73 @@
+import { isEqual } from 'tldraw';
+import type { CanvasState } from '../hooks/useCanvasState';
+
+// Error code of a save refused because the canvas has a newer revision on the server
+export const CANVAS_CONFLICT = 'CANVAS_CONFLICT';
+
+interface SnapshotWithRecords {
+  document?: { store?: Record<string, unknown>; schema?: unknown };
+}
+
+export interface CanvasMerge {
+  state: CanvasState;
+  // Ids of records changed differently on both sides; the merged state keeps the local side
+  conflicts: string[];
+  // What the merged state took from the remote side, to apply to an editor showing the local one
+  remoteChanges: { put: unknown[]; remove: string[] };
+}
+
+export function canvasConflictError(id: string): Error {
+  return Object.assign(new Error(`Canvas ${id} was changed on another device`), { code: CANVAS_CONFLICT });
+}
+
+const documentRecords = (state: CanvasState | null): Record<string, unknown> =>
+  (state?.snapshot as SnapshotWithRecords | undefined)?.document?.store ?? {};
+
+/**
+ * Three-way merge of canvas states, record by record: a record changed on one side only takes
+ * that side's change, one changed the same way on both sides is kept once, and one changed
+ * differently on both sides (including edited on one side and deleted on the other) is a conflict.
+ * A missing base or remote state counts as an empty canvas.
+ */
+export function mergeCanvasStates(
+  base: CanvasState | null,
+  local: CanvasState,
+  remote: CanvasState | null
+): CanvasMerge {
+  const baseRecords = documentRecords(base);
+  const localRecords = documentRecords(local);
+  const remoteRecords = documentRecords(remote);
+
+  const store: Record<string, unknown> = {};
+  const conflicts: string[] = [];
+  const remoteChanges: CanvasMerge['remoteChanges'] = { put: [], remove: [] };
+  const ids = new Set([...Object.keys(baseRecords), ...Object.keys(localRecords), ...Object.keys(remoteRecords)]);
+
+  ids.forEach((id) => {
+    const [baseRecord, localRecord, remoteRecord] = [baseRecords[id], localRecords[id], remoteRecords[id]];
+    let merged = localRecord;
+
+    if (!isEqual(localRecord, remoteRecord)) {
+      if (isEqual(localRecord, baseRecord)) {
+        merged = remoteRecord;
+        if (remoteRecord === undefined) remoteChanges.remove.push(id);
+        else remoteChanges.put.push(remoteRecord);
+      } else if (!isEqual(remoteRecord, baseRecord)) {
+        conflicts.push(id);
+      }
+    }
+
+    if (merged !== undefined) store[id] = merged;
+  });
+
+  const snapshot = local.snapshot as SnapshotWithRecords;
+  return {
+    state: {
+      ...local,
+      snapshot: { ...snapshot, document: { ...snapshot.document, store } } as CanvasState['snapshot'],
+      timestamp: Date.now(),
+    },
+    conflicts,
+    remoteChanges,
+  };
+}
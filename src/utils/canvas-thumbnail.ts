@@ -0,0 +1,50 @@
+import type { Editor } from 'tldraw';
+
+// Thumbnails are stored inline on the canvases row, so keep them small
+export const THUMBNAIL_MAX_BYTES = 32 * 1024;
+export const THUMBNAIL_WIDTH = 320;
+// Lower quality first, then shrink, until the image fits the budget
+const THUMBNAIL_QUALITIES = [0.8, 0.6, 0.4];
+const THUMBNAIL_MIN_WIDTH = 120;
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+/**
+ * Render the current page to a JPEG data URL no larger than `maxBytes`.
+ * Returns null for an empty page, or when even the smallest render is over budget.
+ */
+export async function renderCanvasThumbnail(
+  editor: Editor,
+  maxBytes: number = THUMBNAIL_MAX_BYTES
+): Promise<string | null> {
+  const shapeIds = [...editor.getCurrentPageShapeIds()];
+  const bounds = editor.getCurrentPageBounds();
+  if (shapeIds.length === 0 || !bounds || bounds.w === 0) return null;
+
+  for (let width = THUMBNAIL_WIDTH; width >= THUMBNAIL_MIN_WIDTH; width /= 2) {
+    // Never upscale a small flow past its real size
+    const scale = Math.min(1, width / bounds.w);
+    for (const quality of THUMBNAIL_QUALITIES) {
+      const { blob } = await editor.toImage(shapeIds, {
+        format: 'jpeg',
+        quality,
+        scale,
+        pixelRatio: 1,
+        background: true,
+        padding: 16,
+        darkMode: false,
+      });
+      const dataUrl = await blobToDataUrl(blob);
+      if (dataUrl.length <= maxBytes) return dataUrl;
+    }
+  }
+
+  console.warn(`Canvas thumbnail is over the ${Math.round(maxBytes / 1024)} KB budget, skipping it`);
+  return null;
+}
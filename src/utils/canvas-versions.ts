@@ -0,0 +1,31 @@
+import { CanvasVersionReason } from '../types/canvas-version';
+
+// Autosave runs after every edit; a version is kept at most this often per canvas
+export const VERSION_INTERVAL_MS = 10 * 60 * 1000;
+
+// Dropping to half the shapes or fewer looks like a delete-all, so the state before it is kept
+const LARGE_DROP_MIN_SHAPES = 3;
+
+export function isLargeShapeDrop(previousCount: number, nextCount: number): boolean {
+  return previousCount >= LARGE_DROP_MIN_SHAPES && nextCount <= previousCount / 2;
+}
+
+const REASON_LABELS: Record<string, string> = {
+  [CanvasVersionReason.AUTO]: 'Autosaved',
+  [CanvasVersionReason.MANUAL]: 'Saved manually',
+  [CanvasVersionReason.BEFORE_DELETE]: 'Before shapes were deleted',
+  [CanvasVersionReason.BEFORE_RESTORE]: 'Before a restore',
+};
+
+export function getVersionReasonLabel(reason: string): string {
+  return REASON_LABELS[reason] ?? reason;
+}
+
+export function formatVersionTime(createdAt: string): string {
+  return new Date(createdAt).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
@@ -0,0 +1,130 @@
+import { Box, type Editor, type TLFrameShape, type TLParentId, type TLShape, type TLShapePartial } from 'tldraw';
+import { isPoseShape, sortInReadingOrder } from './flow-sequence';
+import { getPoseBoundsWithLabels, getPoseLabels } from './pose-labels';
+
+// CustomGrid draws a dot every other grid step
+export const GRID_DOT_MULTIPLIER = 2;
+
+export interface FlowLayoutOptions {
+  // Space between poses, horizontally and between rows
+  gap: number;
+  // Rows wrap once they'd grow past this width (or the frame's width, if narrower)
+  rowWidth: number;
+}
+
+export const DEFAULT_FLOW_LAYOUT_OPTIONS: FlowLayoutOptions = {
+  gap: 40,
+  rowWidth: 1600,
+};
+
+const LAYOUT_SETTINGS_KEY = 'yoga_flow_layout_settings';
+// Room left inside a frame around its poses
+const FRAME_PADDING = 40;
+
+export function loadFlowLayoutOptions(): FlowLayoutOptions {
+  try {
+    const saved = localStorage.getItem(LAYOUT_SETTINGS_KEY);
+    return saved ? { ...DEFAULT_FLOW_LAYOUT_OPTIONS, ...JSON.parse(saved) } : DEFAULT_FLOW_LAYOUT_OPTIONS;
+  } catch {
+    return DEFAULT_FLOW_LAYOUT_OPTIONS;
+  }
+}
+
+export function saveFlowLayoutOptions(options: FlowLayoutOptions) {
+  localStorage.setItem(LAYOUT_SETTINGS_KEY, JSON.stringify(options));
+}
+
+export const getGridSpacing = (editor: Editor) => editor.getDocumentSettings().gridSize * GRID_DOT_MULTIPLIER;
+
+/**
+ * Arrange the selected poses (or every pose on the page when none are selected) into rows,
+ * keeping their reading order. Each pose's name labels move with it, and rows leave room for
+ * them. Poses inside a frame are laid out within that frame, which grows to fit; loose poses are
+ * laid out from the top-left of where they are now. Positions snap to the dot grid, and the whole
+ * change is a single undo step.
+ */
+export function tidyFlow(editor: Editor, options: FlowLayoutOptions = loadFlowLayoutOptions()): number {
+  const selectedPoses = editor.getSelectedShapes().filter(isPoseShape);
+  const poses = selectedPoses.length > 0
+    ? selectedPoses
+    : editor.getCurrentPageShapes().filter(isPoseShape);
+  if (poses.length === 0) return 0;
+
+  const grid = getGridSpacing(editor);
+  const snapUp = (value: number) => Math.ceil(value / grid) * grid;
+  const snap = (value: number) => Math.round(value / grid) * grid;
+
+  // Each frame is its own section; everything else is laid out together in page space
+  const sections = new Map<TLParentId, TLShape[]>();
+  poses.forEach((shape) => {
+    const parent = editor.getShape(shape.parentId);
+    // Poses inside groups keep their place in the group
+    if (parent && parent.type !== 'frame') return;
+    const key = parent ? parent.id : editor.getCurrentPageId();
+    sections.set(key, [...(sections.get(key) ?? []), shape]);
+  });
+
+  const updates: TLShapePartial[] = [];
+  const movedLabels = new Set<TLShape['id']>();
+  sections.forEach((shapes, parentId) => {
+    const frame = editor.getShape<TLFrameShape>(parentId);
+    const ordered = sortInReadingOrder(editor, shapes);
+
+    let originX: number;
+    let originY: number;
+    let rowWidth = options.rowWidth;
+    if (frame) {
+      // Children are positioned relative to their frame
+      originX = snapUp(FRAME_PADDING);
+      originY = snapUp(FRAME_PADDING);
+      rowWidth = Math.min(rowWidth, frame.props.w - FRAME_PADDING * 2);
+    } else {
+      const bounds = Box.Common(ordered.map(shape => editor.getShapePageBounds(shape)!));
+      originX = snap(bounds.minX);
+      originY = snap(bounds.minY);
+    }
+
+    let x = originX;
+    let y = originY;
+    let rowHeight = 0;
+    let contentRight = originX;
+    ordered.forEach((shape) => {
+      const { w } = editor.getShapeGeometry(shape).bounds;
+      // The pose and the labels under it
+      const poseBounds = editor.getShapePageBounds(shape)!;
+      const h = getPoseBoundsWithLabels(editor, shape)!.maxY - poseBounds.minY;
+      // Wrap, but never leave a row empty when a single pose is wider than the row
+      if (x > originX && x + w > originX + rowWidth) {
+        x = originX;
+        y = snapUp(y + rowHeight + options.gap);
+        rowHeight = 0;
+      }
+      updates.push({ id: shape.id, type: shape.type, x, y, rotation: 0 });
+      // Labels share the pose's parent, so they move by the same amount
+      getPoseLabels(editor, shape).forEach((label) => {
+        if (movedLabels.has(label.id)) return;
+        movedLabels.add(label.id);
+        updates.push({ id: label.id, type: label.type, x: label.x + x - shape.x, y: label.y + y - shape.y });
+      });
+      contentRight = Math.max(contentRight, x + w);
+      rowHeight = Math.max(rowHeight, h);
+      x = snapUp(x + w + options.gap);
+    });
+
+    if (frame) {
+      const contentBottom = y + rowHeight;
+      updates.push({
+        id: frame.id,
+        type: 'frame',
+        props: {
+          w: Math.max(frame.props.w, contentRight + FRAME_PADDING),
+          h: Math.max(frame.props.h, contentBottom + FRAME_PADDING),
+        },
+      });
+    }
+  });
+
+  editor.markHistoryStoppingPoint('tidy flow');
+  editor.updateShapes(updates);
+  return poses.length;
+}
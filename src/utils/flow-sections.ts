@@ -0,0 +1,121 @@
+import { Box, createShapeId, type Editor, type TLFrameShape, type TLPageId, type TLShape, type TLShapeId } from 'tldraw';
+import { flowSectionTypes } from '../assets/yoga-flows';
+import { FlowSectionType } from '../types/flow-section';
+import { deriveFlowSequence, isPoseShape, sortInReadingOrder, type FlowStep } from './flow-sequence';
+import { getPoseDurationSeconds } from './pose-timing';
+
+// Room around the poses when a section is created from a selection
+const SECTION_PADDING = 40;
+
+export interface FlowSection {
+  frameId: TLShapeId;
+  sectionType: FlowSectionType;
+  // Poses directly in the section rather than in a section nested in it, in the page's flow order
+  steps: FlowStep[];
+  // Hold time of every pose directly in the section
+  totalSeconds: number;
+}
+
+const SECTION_TYPES: string[] = Object.values(FlowSectionType);
+
+/**
+ * The section type of a flow section frame; undefined for any other shape, including plain frames
+ */
+export function getSectionType(shape: TLShape | undefined): FlowSectionType | undefined {
+  if (shape?.type !== 'frame') return undefined;
+  const { sectionType } = shape.meta;
+  return typeof sectionType === 'string' && SECTION_TYPES.includes(sectionType)
+    ? sectionType as FlowSectionType
+    : undefined;
+}
+
+export const getSectionTitle = (sectionType: FlowSectionType) =>
+  flowSectionTypes.find(entry => entry.sectionType === sectionType)?.title ?? sectionType;
+
+/**
+ * Pose count and summed hold time of the poses inside a frame, including nested frames
+ */
+export function getSectionSummary(editor: Editor, frameId: TLShapeId): { poseCount: number; totalSeconds: number } {
+  let poseCount = 0;
+  let totalSeconds = 0;
+  editor.getShapeAndDescendantIds([frameId]).forEach((id) => {
+    const shape = editor.getShape(id);
+    if (!shape || !isPoseShape(shape)) return;
+    poseCount++;
+    totalSeconds += getPoseDurationSeconds(shape.props);
+  });
+  return { poseCount, totalSeconds };
+}
+
+/**
+ * The class as ordered sections: section frames in reading order, each with its poses in flow order.
+ * A pose belongs only to its nearest enclosing section, so a section nested in another keeps its
+ * own poses and hold time. Poses outside every section aren't included.
+ */
+export function getFlowSections(editor: Editor, pageId: TLPageId = editor.getCurrentPageId()): FlowSection[] {
+  const pageShapes = Array.from(editor.getPageShapeIds(pageId))
+    .map(id => editor.getShape(id))
+    .filter((shape): shape is TLShape => shape !== undefined);
+  const frames = pageShapes.filter((shape): shape is TLFrameShape => getSectionType(shape) !== undefined);
+  const { steps } = deriveFlowSequence(editor, pageId);
+
+  const getSectionId = (shapeId: TLShapeId) =>
+    editor.findShapeAncestor(shapeId, ancestor => getSectionType(ancestor) !== undefined)?.id;
+
+  const secondsBySection = new Map<TLShapeId, number>();
+  pageShapes.filter(isPoseShape).forEach((pose) => {
+    const sectionId = getSectionId(pose.id);
+    if (!sectionId) return;
+    secondsBySection.set(sectionId, (secondsBySection.get(sectionId) ?? 0) + getPoseDurationSeconds(pose.props));
+  });
+
+  return sortInReadingOrder(editor, frames).map((frame) => ({
+    frameId: frame.id,
+    sectionType: getSectionType(frame)!,
+    steps: steps.filter(step => getSectionId(step.shapeId) === frame.id),
+    totalSeconds: secondsBySection.get(frame.id) ?? 0,
+  }));
+}
+
+/**
+ * Make a frame a flow section of the given type (taking the section's colour), or a plain frame again
+ */
+export function setSectionType(editor: Editor, frameIds: TLShapeId[], sectionType: FlowSectionType | null) {
+  const color = flowSectionTypes.find(entry => entry.sectionType === sectionType)?.color ?? 'black';
+  editor.markHistoryStoppingPoint('set section type');
+  editor.updateShapes(frameIds.map(id => ({
+    id,
+    type: 'frame' as const,
+    props: { color },
+    meta: { sectionType },
+  })));
+}
+
+/**
+ * Wrap the selected shapes in a new flow section frame sized to fit them
+ */
+export function createFlowSection(editor: Editor, sectionType: FlowSectionType): TLShapeId | undefined {
+  const shapes = editor.getSelectedShapes();
+  if (shapes.length === 0) return undefined;
+
+  const bounds = Box.Common(shapes.map(shape => editor.getShapePageBounds(shape)!)).expandBy(SECTION_PADDING);
+  const entry = flowSectionTypes.find(type => type.sectionType === sectionType)!;
+  const frameId = createShapeId();
+
+  editor.markHistoryStoppingPoint('create flow section');
+  editor.run(() => {
+    editor.createShape<TLFrameShape>({
+      id: frameId,
+      type: 'frame',
+      x: bounds.x,
+      y: bounds.y,
+      props: { w: bounds.w, h: bounds.h, name: entry.title, color: entry.color },
+      meta: { sectionType },
+    });
+    // Keep the frame behind the shapes it wraps
+    editor.sendToBack([frameId]);
+    editor.reparentShapes(shapes, frameId);
+    editor.select(frameId);
+  });
+  return frameId;
+}
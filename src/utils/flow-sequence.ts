@@ -0,0 +1,122 @@
+import { getArrowBindings, type Editor, type TLArrowShape, type TLPageId, type TLShape, type TLShapeId } from 'tldraw';
+import type { YogaPoseSvgShape } from '../shapes';
+import { getPoseIdFromShape } from './svg-pose-parser';
+
+export interface FlowStep {
+  shapeId: TLShapeId;
+  // Catalog pose id, if the shape has one (custom uploads don't)
+  poseId?: number;
+}
+
+export interface FlowBranch {
+  // Pose with more than one outgoing arrow
+  fromShapeId: TLShapeId;
+  // Arrow targets in the order they were sequenced; the first one continues the main run
+  toShapeIds: TLShapeId[];
+}
+
+export interface FlowSequence {
+  // 'arrows' when the page has arrows between poses, otherwise poses are read row by row
+  mode: 'arrows' | 'reading-order';
+  steps: FlowStep[];
+  branches: FlowBranch[];
+  // Poses left out of an arrow-connected flow because no arrow touches them
+  orphans: TLShapeId[];
+}
+
+export const EMPTY_FLOW_SEQUENCE: FlowSequence = { mode: 'reading-order', steps: [], branches: [], orphans: [] };
+
+export const isPoseShape = (shape: TLShape): shape is YogaPoseSvgShape => shape.type === 'yoga-pose-svg';
+
+/**
+ * Sort shapes the way a class plan is read: top row first, left to right within a row.
+ * Shapes whose vertical centres fall within half a pose height of a row's first shape share that row.
+ */
+export function sortInReadingOrder(editor: Editor, shapes: TLShape[]): TLShape[] {
+  const withBounds = shapes
+    .map(shape => ({ shape, bounds: editor.getShapePageBounds(shape) }))
+    .filter((entry): entry is { shape: TLShape; bounds: NonNullable<typeof entry.bounds> } => !!entry.bounds)
+    .sort((a, b) => a.bounds.midY - b.bounds.midY);
+
+  const rows: (typeof withBounds)[] = [];
+  withBounds.forEach((entry) => {
+    const row = rows[rows.length - 1];
+    if (row && Math.abs(entry.bounds.midY - row[0].bounds.midY) <= row[0].bounds.height / 2) {
+      row.push(entry);
+    } else {
+      rows.push([entry]);
+    }
+  });
+
+  return rows.flatMap(row => row.sort((a, b) => a.bounds.minX - b.bounds.minX).map(entry => entry.shape));
+}
+
+/**
+ * Derive the ordered pose sequence of a page. Arrows bound to two poses define the order when
+ * present; otherwise poses are taken in reading order.
+ */
+export function deriveFlowSequence(editor: Editor, pageId: TLPageId = editor.getCurrentPageId()): FlowSequence {
+  const pageShapes = Array.from(editor.getPageShapeIds(pageId))
+    .map(id => editor.getShape(id))
+    .filter((shape): shape is TLShape => shape !== undefined);
+
+  const poses = sortInReadingOrder(editor, pageShapes.filter(isPoseShape));
+  const toStep = (shape: TLShape): FlowStep => ({ shapeId: shape.id, poseId: getPoseIdFromShape(shape) });
+
+  // Reading position doubles as the tie-breaker when arrows leave the order ambiguous
+  const readingIndex = new Map(poses.map((shape, index) => [shape.id, index]));
+  const byReadingOrder = (a: TLShapeId, b: TLShapeId) => readingIndex.get(a)! - readingIndex.get(b)!;
+
+  // Collect pose → pose transitions from arrows bound at both ends
+  const outgoing = new Map<TLShapeId, TLShapeId[]>();
+  const incomingCount = new Map<TLShapeId, number>();
+  pageShapes
+    .filter((shape): shape is TLArrowShape => shape.type === 'arrow')
+    .forEach((arrow) => {
+      const { start, end } = getArrowBindings(editor, arrow);
+      if (!start || !end || start.toId === end.toId) return;
+      if (!readingIndex.has(start.toId) || !readingIndex.has(end.toId)) return;
+
+      // An arrow drawn with only a start arrowhead points backwards
+      const reversed = arrow.props.arrowheadStart !== 'none' && arrow.props.arrowheadEnd === 'none';
+      const from = reversed ? end.toId : start.toId;
+      const to = reversed ? start.toId : end.toId;
+
+      const targets = outgoing.get(from) ?? [];
+      if (targets.includes(to)) return;
+      outgoing.set(from, [...targets, to]);
+      incomingCount.set(to, (incomingCount.get(to) ?? 0) + 1);
+    });
+
+  if (outgoing.size === 0) {
+    return { mode: 'reading-order', steps: poses.map(toStep), branches: [], orphans: [] };
+  }
+
+  const connected = poses.filter(shape => outgoing.has(shape.id) || incomingCount.has(shape.id));
+  const orphans = poses.filter(shape => !outgoing.has(shape.id) && !incomingCount.has(shape.id)).map(shape => shape.id);
+
+  const visited = new Set<TLShapeId>();
+  const steps: FlowStep[] = [];
+  const branches: FlowBranch[] = [];
+
+  // Walk a chain, taking the earliest target in reading order at each branch
+  const walk = (startId: TLShapeId) => {
+    let current: TLShapeId | undefined = startId;
+    while (current && !visited.has(current)) {
+      visited.add(current);
+      steps.push(toStep(editor.getShape(current)!));
+
+      const targets = [...(outgoing.get(current) ?? [])].sort(byReadingOrder);
+      if (targets.length > 1) {
+        branches.push({ fromShapeId: current, toShapeIds: targets });
+      }
+      current = targets.find(id => !visited.has(id));
+    }
+  };
+
+  // Chains start at poses nothing points to; whatever is left (branch alternatives, cycles) follows
+  connected.filter(shape => !incomingCount.has(shape.id)).forEach(shape => walk(shape.id));
+  connected.forEach(shape => walk(shape.id));
+
+  return { mode: 'arrows', steps, branches, orphans };
+}
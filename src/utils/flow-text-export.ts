@@ -0,0 +1,47 @@
+import type { Editor, TLPageId } from 'tldraw';
+import { formatAnnotationLabel } from '../shapes/pose-annotation-shape';
+import { deriveFlowSequence, isPoseShape, type FlowStep } from './flow-sequence';
+import { getFlowSections, getSectionTitle } from './flow-sections';
+import { getPoseAnnotations } from './pose-annotations';
+import { formatClassTime, formatPoseTiming, getPageClassTime } from './pose-timing';
+
+const formatStep = (editor: Editor, step: FlowStep, index: number): string[] => {
+  const shape = editor.getShape(step.shapeId);
+  if (!shape || !isPoseShape(shape)) return [];
+
+  const name = shape.props.name || 'Untitled pose';
+  const timing = formatPoseTiming(shape.props);
+  const annotations = getPoseAnnotations(editor, step.shapeId).map(annotation => `   ${formatAnnotationLabel(annotation.props)}`);
+  return [`${index + 1}. ${name}${timing ? ` (${timing})` : ''}`, ...annotations];
+};
+
+/**
+ * The flow of a page as plain text for handouts and notes: poses in flow order with their hold
+ * times and annotations, grouped under their sections when the page has any
+ */
+export function formatFlowAsText(editor: Editor, pageId: TLPageId = editor.getCurrentPageId()): string {
+  const { steps } = deriveFlowSequence(editor, pageId);
+  const sections = getFlowSections(editor, pageId);
+  const { totalSeconds } = getPageClassTime(editor, pageId);
+
+  const lines = [editor.getPage(pageId)?.name ?? 'Flow'];
+  if (totalSeconds > 0) {
+    lines.push(`Class time: ${formatClassTime(totalSeconds)}`);
+  }
+
+  let index = 0;
+  sections.forEach((section) => {
+    lines.push('', `${getSectionTitle(section.sectionType)}${section.totalSeconds > 0 ? ` · ${formatClassTime(section.totalSeconds)}` : ''}`);
+    section.steps.forEach(step => lines.push(...formatStep(editor, step, index++)));
+  });
+
+  const inSection = new Set(sections.flatMap(section => section.steps.map(step => step.shapeId)));
+  const rest = steps.filter(step => !inSection.has(step.shapeId));
+  if (rest.length > 0) {
+    lines.push('');
+    if (sections.length > 0) lines.push('Other poses');
+    rest.forEach(step => lines.push(...formatStep(editor, step, index++)));
+  }
+
+  return lines.join('\n');
+}
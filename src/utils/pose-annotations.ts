@@ -0,0 +1,63 @@
+import { Vec, createShapeId, type Editor, type TLShapeId } from 'tldraw';
+import { poseAnnotationPresets } from '../assets/yoga-flows';
+import { PoseAnnotationKind } from '../types/pose-annotation';
+import type { PoseAnnotationBinding, PoseAnnotationShape } from '../shapes';
+import { getPoseBoundsWithLabels } from './pose-labels';
+
+// Space between a pose's labels and its first annotation, and between stacked annotations
+const ANNOTATION_GAP = 8;
+
+export type PoseAnnotationPreset = typeof poseAnnotationPresets[number];
+
+/**
+ * Annotations bound to a pose, top to bottom
+ */
+export function getPoseAnnotations(editor: Editor, poseId: TLShapeId): PoseAnnotationShape[] {
+  return editor.getBindingsToShape<PoseAnnotationBinding>(poseId, 'pose-annotation')
+    .sort((a, b) => a.props.offset.y - b.props.offset.y || a.props.offset.x - b.props.offset.x)
+    .map(binding => editor.getShape<PoseAnnotationShape>(binding.fromId))
+    .filter((shape): shape is PoseAnnotationShape => shape !== undefined);
+}
+
+/**
+ * Attach an annotation from a preset under a pose and its labels, below any it already has. A blank cue opens
+ * for typing straight away.
+ */
+export function addPoseAnnotation(editor: Editor, poseId: TLShapeId, preset: PoseAnnotationPreset): TLShapeId | undefined {
+  const pose = editor.getShape(poseId);
+  const poseBounds = editor.getShapePageBounds(poseId);
+  const posePoint = editor.getShapePageTransform(poseId)?.point();
+  if (!pose || !poseBounds || !posePoint) return undefined;
+
+  // Under the pose's name labels, then under its other annotations
+  const below = getPoseAnnotations(editor, poseId).reduce(
+    (maxY, shape) => Math.max(maxY, editor.getShapePageBounds(shape)?.maxY ?? maxY),
+    getPoseBoundsWithLabels(editor, pose)?.maxY ?? poseBounds.maxY
+  );
+  const pagePoint = new Vec(poseBounds.minX, below + ANNOTATION_GAP);
+  const point = editor.getPointInParentSpace(pose, pagePoint);
+  const annotationId = createShapeId();
+
+  editor.markHistoryStoppingPoint('add pose annotation');
+  editor.run(() => {
+    editor.createShape<PoseAnnotationShape>({
+      id: annotationId,
+      type: 'pose-annotation',
+      parentId: pose.parentId,
+      x: point.x,
+      y: point.y,
+      props: { kind: preset.kind, text: preset.text, color: preset.color },
+    });
+    editor.createBinding<PoseAnnotationBinding>({
+      type: 'pose-annotation',
+      fromId: annotationId,
+      toId: poseId,
+      props: { offset: Vec.Sub(pagePoint, posePoint).toJson() },
+    });
+    editor.select(annotationId);
+    if (preset.kind === PoseAnnotationKind.CUE && !preset.text) {
+      editor.setEditingShape(annotationId);
+    }
+  });
+  return annotationId;
+}
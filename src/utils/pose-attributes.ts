@@ -0,0 +1,34 @@
+import type { BodyFocus, Contraindication, Intensity, PoseFamily } from '../types/category';
+import type { YogaPose } from '../types/yoga-pose';
+
+// Filters on the taxonomy beyond category/subcategory; undefined means "any"
+export interface PoseAttributeFilters {
+  intensity?: Intensity;
+  bodyFocus?: BodyFocus;
+  family?: PoseFamily;
+  // Hide poses that aren't suitable for this condition
+  avoid?: Contraindication;
+}
+
+export const EMPTY_POSE_ATTRIBUTE_FILTERS: PoseAttributeFilters = {};
+
+export const hasAttributeFilters = (filters: PoseAttributeFilters): boolean =>
+  filters.intensity !== undefined ||
+  filters.bodyFocus !== undefined ||
+  filters.family !== undefined ||
+  filters.avoid !== undefined;
+
+/**
+ * Check a catalog pose against the attribute filters. Poses that haven't been classified
+ * (e.g. placeholders with no intensity) don't match any of them: with nothing listed, an
+ * avoid filter can't tell whether they are safe.
+ */
+export function matchesAttributeFilters(pose: YogaPose, filters: PoseAttributeFilters): boolean {
+  if (filters.intensity !== undefined && pose.intensity !== filters.intensity) return false;
+  if (filters.bodyFocus !== undefined && !pose.bodyFocus.includes(filters.bodyFocus)) return false;
+  if (filters.family !== undefined && !pose.families.includes(filters.family)) return false;
+  if (filters.avoid !== undefined && (pose.intensity === undefined || pose.contraindications.includes(filters.avoid))) {
+    return false;
+  }
+  return true;
+}
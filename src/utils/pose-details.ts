@@ -0,0 +1,40 @@
+import { atom, type Atom, type Editor, type TLShapeId } from 'tldraw';
+import type { YogaPoseSvgShape } from '../shapes';
+import type { PoseVariation, YogaPose } from '../types/yoga-pose';
+import { fetchPoseSVG } from './svg-pose-parser';
+
+// Which canvas shape has its detail card open, per editor
+const openDetailShapes = new WeakMap<Editor, Atom<TLShapeId | null>>();
+
+export function getOpenDetailShape(editor: Editor): Atom<TLShapeId | null> {
+  let openShape = openDetailShapes.get(editor);
+  if (!openShape) {
+    openShape = atom<TLShapeId | null>('pose detail card', null);
+    openDetailShapes.set(editor, openShape);
+  }
+  return openShape;
+}
+
+/**
+ * Replace a placed pose's sketch with one of its prop variations (or the base pose when
+ * no variation is given), keeping its position, size, mirroring and timing
+ */
+export async function swapPoseVariation(
+  editor: Editor,
+  shapeId: TLShapeId,
+  pose: YogaPose,
+  variation?: PoseVariation
+): Promise<void> {
+  const sketch = await fetchPoseSVG(pose, variation);
+
+  // The shape may have been deleted while the sketch was loading
+  const shape = editor.getShape<YogaPoseSvgShape>(shapeId);
+  if (!shape) return;
+
+  editor.markHistoryStoppingPoint('swap pose variation');
+  editor.updateShape<YogaPoseSvgShape>({
+    id: shapeId,
+    type: 'yoga-pose-svg',
+    props: { svg: sketch.svg, variant: variation?.id ?? '' },
+  });
+}
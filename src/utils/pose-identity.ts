@@ -0,0 +1,104 @@
+import type { Editor, TLShape, TLShapePartial } from 'tldraw';
+import type { YogaPoseSvgShape } from '../shapes/yoga-pose-svg-shape';
+import { LINKED_SKETCH_ATTRIBUTE } from '../shapes/shape-schemas';
+import type { YogaPose } from '../types/yoga-pose';
+import { fetchPoseSVG } from './svg-pose-parser';
+
+/**
+ * Identify a pose sketch by its drawing rather than its wrapper markup, which has
+ * changed between versions of the framing code
+ */
+export function poseFingerprint(svg: string): string {
+  const paths = Array.from(svg.matchAll(/\sd="([^"]+)"/g), match => match[1].replace(/\s+/g, ' ').trim());
+  return paths.join('|');
+}
+
+/**
+ * Fingerprint every catalog pose's sketch so saved shapes can be matched back to it
+ */
+export async function buildCatalogFingerprints(poses: YogaPose[]): Promise<Map<string, YogaPose>> {
+  const fingerprints = new Map<string, YogaPose>();
+  const sketches = await Promise.all(poses.map(pose => fetchPoseSVG(pose)));
+  sketches.forEach((sketch, index) => {
+    const fingerprint = poseFingerprint(sketch.svg);
+    // Placeholder sketches have no paths and can't be told apart
+    if (fingerprint && !fingerprints.has(fingerprint)) {
+      fingerprints.set(fingerprint, poses[index]);
+    }
+  });
+  return fingerprints;
+}
+
+export const isUnidentifiedPoseShape = (shape: TLShape): shape is YogaPoseSvgShape =>
+  shape.type === 'yoga-pose-svg' && !(shape as YogaPoseSvgShape).props.poseId;
+
+/**
+ * Fill in the pose identity of yoga-pose-svg shapes saved before shapes kept it.
+ * Returns the number of shapes that were identified.
+ */
+export function recoverPoseIdentities(
+  editor: Editor,
+  poses: YogaPose[],
+  fingerprints: Map<string, YogaPose>
+): number {
+  const posesById = new Map(poses.map(pose => [pose.id.toString(), pose]));
+
+  const updates: TLShapePartial<YogaPoseSvgShape>[] = [];
+  editor.store.query.records('shape').get().forEach((shape) => {
+    if (!isUnidentifiedPoseShape(shape)) return;
+
+    // Shapes placed from the suggestion strip briefly carried the id in meta
+    const metaId = typeof shape.meta.poseId === 'string' ? shape.meta.poseId : undefined;
+    const pose = (metaId && posesById.get(metaId)) || fingerprints.get(poseFingerprint(shape.props.svg));
+    if (!pose) return;
+
+    updates.push({
+      id: shape.id,
+      type: 'yoga-pose-svg',
+      props: {
+        poseId: pose.id.toString(),
+        name: pose.name,
+        indianName: pose.indianName,
+        category: pose.category,
+      },
+    });
+  });
+
+  if (updates.length > 0) {
+    // Not a user edit, so keep it out of the undo stack
+    editor.run(() => editor.updateShapes(updates), { history: 'ignore' });
+  }
+  return updates.length;
+}
+
+export const hasLinkedSketch = (shape: TLShape): shape is YogaPoseSvgShape =>
+  shape.type === 'yoga-pose-svg' && (shape as YogaPoseSvgShape).props.svg.includes(LINKED_SKETCH_ATTRIBUTE);
+
+/**
+ * Replace the linked sketch of poses migrated from the legacy yoga-pose shape with the catalog's
+ * inline sketch, so they take the style panel colour and export like any other pose.
+ * Returns the number of shapes that were updated.
+ */
+export async function inlineLinkedSketches(editor: Editor, poses: YogaPose[]): Promise<number> {
+  const posesById = new Map(poses.map(pose => [pose.id.toString(), pose]));
+  const linked = editor.store.query.records('shape').get().filter(hasLinkedSketch);
+  const poseIds = [...new Set(linked.map(shape => shape.props.poseId))].filter(poseId => posesById.has(poseId));
+  const sketches = new Map(await Promise.all(poseIds.map(async poseId => [poseId, await fetchPoseSVG(posesById.get(poseId)!)] as const)));
+
+  const updates: TLShapePartial<YogaPoseSvgShape>[] = [];
+  linked.forEach((shape) => {
+    const sketch = sketches.get(shape.props.poseId);
+    // The shape may have been deleted or changed while the sketches loaded
+    if (!sketch || !editor.getShape(shape.id)) return;
+    updates.push({
+      id: shape.id,
+      type: 'yoga-pose-svg',
+      props: { svg: sketch.svg, indianName: sketch.indianName },
+    });
+  });
+
+  if (updates.length > 0) {
+    editor.run(() => editor.updateShapes(updates), { history: 'ignore' });
+  }
+  return updates.length;
+}
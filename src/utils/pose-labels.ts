@@ -0,0 +1,47 @@
+import { Box, type Editor, type TLShape } from 'tldraw';
+
+// createPoseFromSVG puts a pose's name 12px and its Sanskrit name 62px under the sketch; this is
+// the room the two take up below it
+export const POSE_LABEL_BLOCK_HEIGHT = 100;
+
+/**
+ * The name and Sanskrit name text shapes placed under a pose. They aren't linked to the pose, so
+ * they're found by position: text in the same parent, centred over the pose and starting within
+ * the label block under it
+ */
+export function getPoseLabels(editor: Editor, pose: TLShape): TLShape[] {
+  const poseBounds = editor.getShapePageBounds(pose);
+  if (!poseBounds) return [];
+
+  return editor.getCurrentPageShapes().filter((shape) => {
+    if (shape.type !== 'text' || shape.parentId !== pose.parentId) return false;
+    const bounds = editor.getShapePageBounds(shape);
+    return !!bounds
+      && bounds.midX >= poseBounds.minX && bounds.midX <= poseBounds.maxX
+      && bounds.minY >= poseBounds.maxY && bounds.minY <= poseBounds.maxY + POSE_LABEL_BLOCK_HEIGHT;
+  });
+}
+
+/**
+ * Labels of all the given poses, each once, leaving out shapes already among the given ones
+ */
+export function getLabelsOfPoses(editor: Editor, poses: TLShape[]): TLShape[] {
+  const given = new Set(poses.map(shape => shape.id));
+  const labels = new Map<TLShape['id'], TLShape>();
+  poses.forEach(pose => getPoseLabels(editor, pose).forEach((label) => {
+    if (!given.has(label.id)) labels.set(label.id, label);
+  }));
+  return [...labels.values()];
+}
+
+/**
+ * Page bounds of a pose together with its labels
+ */
+export function getPoseBoundsWithLabels(editor: Editor, pose: TLShape): Box | undefined {
+  const poseBounds = editor.getShapePageBounds(pose);
+  if (!poseBounds) return undefined;
+  const labelBounds = getPoseLabels(editor, pose)
+    .map(label => editor.getShapePageBounds(label))
+    .filter((bounds): bounds is Box => !!bounds);
+  return Box.Common([poseBounds, ...labelBounds]);
+}
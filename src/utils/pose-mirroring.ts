@@ -0,0 +1,67 @@
+import { Box, type Editor, type TLShapeId } from 'tldraw';
+import type { YogaPoseSvgShape } from '../shapes';
+import type { PoseSide } from './pose-timing';
+import { getLabelsOfPoses } from './pose-labels';
+
+// Space between the originals and their mirrored copies
+const OTHER_SIDE_GAP = 40;
+
+const OPPOSITE_SIDE: Record<PoseSide, PoseSide> = { none: 'none', left: 'right', right: 'left' };
+
+const isSvgPose = (shape: { type: string }): shape is YogaPoseSvgShape => shape.type === 'yoga-pose-svg';
+
+/**
+ * Flip the given poses horizontally, swapping their left/right side flag to match
+ */
+export function toggleMirror(editor: Editor, ids: TLShapeId[]) {
+  const poses = ids.map(id => editor.getShape(id)).filter((shape): shape is YogaPoseSvgShape => !!shape && isSvgPose(shape));
+  if (poses.length === 0) return;
+
+  editor.markHistoryStoppingPoint('toggle pose mirror');
+  editor.updateShapes(poses.map(shape => ({
+    id: shape.id,
+    type: 'yoga-pose-svg' as const,
+    props: { isMirrored: !shape.props.isMirrored, side: OPPOSITE_SIDE[shape.props.side] },
+  })));
+}
+
+/**
+ * Duplicate the selected run of poses (with their labels and arrows) mirrored, directly to the
+ * right of the originals. Shapes already to the right in the same row shift over to make room.
+ */
+export function addOtherSide(editor: Editor) {
+  const selected = editor.getSelectedShapes();
+  if (!selected.some(isSvgPose)) return;
+
+  // The poses' names come along even when only the sketches are selected
+  const toCopy = [...selected, ...getLabelsOfPoses(editor, selected.filter(isSvgPose))];
+  const shapeBounds = toCopy.map(shape => editor.getShapePageBounds(shape)).filter((b): b is Box => !!b);
+  if (shapeBounds.length === 0) return;
+  const bounds = Box.Common(shapeBounds);
+
+  const offset = bounds.width + OTHER_SIDE_GAP;
+  const selectedIds = new Set(toCopy.map(shape => shape.id));
+
+  // Everything after the run in the same row moves along to keep the flow readable
+  const following = editor.getCurrentPageShapes().filter((shape) => {
+    if (selectedIds.has(shape.id) || shape.type === 'arrow' || shape.parentId !== selected[0].parentId) return false;
+    const shapeBounds = editor.getShapePageBounds(shape);
+    return !!shapeBounds && shapeBounds.minX >= bounds.maxX && shapeBounds.maxY > bounds.minY && shapeBounds.minY < bounds.maxY;
+  });
+
+  editor.markHistoryStoppingPoint('add other side');
+  editor.run(() => {
+    if (following.length > 0) {
+      editor.nudgeShapes(following, { x: offset, y: 0 });
+    }
+
+    editor.duplicateShapes(toCopy, { x: offset, y: 0 });
+    // duplicateShapes selects the copies
+    const copies = editor.getSelectedShapes().filter(isSvgPose);
+    editor.updateShapes(copies.map(shape => ({
+      id: shape.id,
+      type: 'yoga-pose-svg' as const,
+      props: { isMirrored: !shape.props.isMirrored, side: OPPOSITE_SIDE[shape.props.side] },
+    })));
+  });
+}
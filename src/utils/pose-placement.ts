@@ -1,47 +1,52 @@
-import { Editor, createShapeId } from 'tldraw';
-import type { YogaPoseShape } from '../shapes/yoga-pose-shape';
-import { yogaPoses } from '../assets/yoga-flows';
+import { Editor, createShapeId, type TLArrowBinding, type TLArrowShape, type TLShapeId } from 'tldraw';
+import type { YogaPose } from '../types/yoga-pose';
+import { createPoseFromSVG, fetchPoseSVG, POSE_FRAME_WIDTH } from './svg-pose-parser';
 
 let poseCounter = 0;
 
-export const placePoseOnCanvas = (editor: Editor, pose: typeof yogaPoses[0]) => {
-  const shapeId = createShapeId();
-  
+export const placePoseOnCanvas = async (editor: Editor, pose: YogaPose): Promise<TLShapeId> => {
   // Calculate position with 40px horizontal spacing
   const baseX = 100; // Starting position from left
   const baseY = 100; // Fixed Y position
-  const spacing = 120; // 80px pose width + 40px gap
+  const spacing = POSE_FRAME_WIDTH + 40; // pose width + 40px gap
   const x = baseX + (poseCounter * spacing);
-  
-  const yogaPoseShape: YogaPoseShape = {
-    id: shapeId,
-    type: 'yoga-pose',
-    x: x,
-    y: baseY,
-    rotation: 0,
-    index: editor.getHighestIndexForParent(editor.getCurrentPageId()),
-    parentId: editor.getCurrentPageId(),
-    typeName: 'shape',
-    isLocked: false,
-    opacity: 1,
-    meta: {},
-    props: {
-      w: 80,
-      h: 80,
-      poseId: pose.id,
-      name: pose.name,
-      translation: pose.translation,
-      category: pose.category,
-      subCategory: pose.subCategory,
-      svgPath: pose.image,
-    },
-  };
-  
-  editor.createShape(yogaPoseShape);
+
   poseCounter++;
-  
   // Reset counter after 10 poses to prevent going off screen
   if (poseCounter >= 10) {
     poseCounter = 0;
   }
-};
\ No newline at end of file
+
+  const svgPose = await fetchPoseSVG(pose);
+  return createPoseFromSVG(editor, svgPose, x, baseY);
+};
+
+/**
+ * Join two placed poses with an arrow bound to both, so it follows them when moved
+ */
+export const connectPosesWithArrow = (editor: Editor, fromId: TLShapeId, toId: TLShapeId) => {
+  const fromBounds = editor.getShapePageBounds(fromId);
+  const toBounds = editor.getShapePageBounds(toId);
+  if (!fromBounds || !toBounds) return;
+
+  const arrowId = createShapeId();
+  const start = { x: fromBounds.maxX, y: fromBounds.midY };
+  const end = { x: toBounds.minX, y: toBounds.midY };
+
+  editor.createShape<TLArrowShape>({
+    id: arrowId,
+    type: 'arrow',
+    x: start.x,
+    y: start.y,
+    props: {
+      start: { x: 0, y: 0 },
+      end: { x: end.x - start.x, y: end.y - start.y },
+    },
+  });
+
+  const bindingProps = { normalizedAnchor: { x: 0.5, y: 0.5 }, isExact: false, isPrecise: false, snap: 'none' as const };
+  editor.createBindings<TLArrowBinding>([
+    { type: 'arrow', fromId: arrowId, toId: fromId, props: { ...bindingProps, terminal: 'start' } },
+    { type: 'arrow', fromId: arrowId, toId: toId, props: { ...bindingProps, terminal: 'end' } },
+  ]);
+};
@@ -0,0 +1,116 @@
+import type { YogaPose } from '../types/yoga-pose';
+
+// Fold case and diacritics so "Adho Mukha Śvānāsana" and "adho mukha svanasana" compare equal
+export const normalizeSearchText = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+// Sanskrit is romanised inconsistently ("Shirshasana" / "Sirsasana", "Adho" / "Ado"),
+// so aspirated consonants are folded before comparing
+const foldAspirates = (word: string) => word.replace(/([bcdgjkpst])h/g, '$1');
+
+// Typos allowed for a query token of the given length
+const allowedTypos = (length: number) => (length <= 3 ? 0 : length <= 6 ? 1 : 2);
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent transpositions),
+ * giving up early once it exceeds `max`
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(prev[j] + 1, current[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, prevPrev[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    prevPrev = prev;
+    prev = current;
+  }
+  return prev[b.length];
+}
+
+/**
+ * Score a single query token against the words of a field. Lower is better;
+ * undefined means no match.
+ */
+function scoreToken(token: string, words: string[]): number | undefined {
+  let best: number | undefined;
+  const maxTypos = allowedTypos(token.length);
+
+  for (const word of words) {
+    let score: number | undefined;
+    if (word === token) {
+      score = 0;
+    } else if (word.startsWith(token)) {
+      score = 1;
+    } else if (word.includes(token) && token.length >= 3) {
+      score = 2;
+    } else if (maxTypos > 0) {
+      // Compare against the whole word and against its prefix so partially typed words still match
+      const distance = Math.min(
+        editDistance(token, word, maxTypos),
+        editDistance(token, word.slice(0, token.length), maxTypos)
+      );
+      if (distance <= maxTypos) score = 2 + distance * 2;
+    }
+    if (score !== undefined && (best === undefined || score < best)) best = score;
+  }
+
+  return best;
+}
+
+/**
+ * Fuzzy-rank items against a free-text query. Every query word has to match some word
+ * in one of the item's fields; earlier fields (e.g. the English name) rank higher.
+ */
+export function fuzzySearch<T>(items: T[], query: string, getFields: (item: T) => string[]): T[] {
+  const tokens = normalizeSearchText(query).split(' ').filter(Boolean).map(foldAspirates);
+  if (tokens.length === 0) return items;
+
+  const ranked: { item: T; score: number; index: number }[] = [];
+  items.forEach((item, index) => {
+    const fields = getFields(item).map(field => normalizeSearchText(field).split(' ').filter(Boolean).map(foldAspirates));
+    // Also match the field with spaces removed, so "adhomukha" finds "Adho Mukha"
+    const joined = fields.map(words => [words.join('')]);
+
+    let total = 0;
+    for (const token of tokens) {
+      let best: number | undefined;
+      fields.forEach((words, fieldIndex) => {
+        const score = scoreToken(token, words) ?? scoreToken(token, joined[fieldIndex]);
+        if (score !== undefined) {
+          const weighted = score + fieldIndex * 0.5;
+          if (best === undefined || weighted < best) best = weighted;
+        }
+      });
+      if (best === undefined) return;
+      total += best;
+    }
+    ranked.push({ item, score: total, index });
+  });
+
+  return ranked
+    .sort((a, b) => a.score - b.score || a.index - b.index)
+    .map(entry => entry.item);
+}
+
+/**
+ * Search catalog poses by English name, translation and Sanskrit name
+ */
+export const searchPoses = (poses: YogaPose[], query: string): YogaPose[] =>
+  fuzzySearch(poses, query, pose => [pose.name, pose.translation, pose.indianName]);
@@ -0,0 +1,29 @@
+import { DefaultSizeStyle, type Editor, type TLDefaultSizeStyle } from 'tldraw';
+import { isPoseShape } from './flow-sequence';
+
+// How much the size style thickens a sketch's lines, relative to the art as drawn
+export const POSE_STROKE_SCALES: Record<TLDefaultSizeStyle, number> = {
+  s: 0.6,
+  m: 1,
+  l: 1.5,
+  xl: 2.2,
+};
+
+/**
+ * The size picked in the style panel: shared by the selected shapes, otherwise the size for the next shape
+ */
+export function getActiveSize(editor: Editor): TLDefaultSizeStyle {
+  const shared = editor.getSharedStyles().get(DefaultSizeStyle);
+  return shared?.type === 'shared' ? shared.value : editor.getStyleForNextShape(DefaultSizeStyle);
+}
+
+/**
+ * Give every pose on the current page the same size, so a whole flow reads with one line weight
+ */
+export function setPoseSizeForPage(editor: Editor, size: TLDefaultSizeStyle) {
+  const poses = editor.getCurrentPageShapes().filter(isPoseShape).filter(shape => shape.props.size !== size);
+  if (poses.length === 0) return;
+
+  editor.markHistoryStoppingPoint('set pose size for page');
+  editor.updateShapes(poses.map(shape => ({ id: shape.id, type: shape.type, props: { size } })));
+}
@@ -1,12 +1,43 @@
-import { yogaPoses } from '../assets/yoga-flows';
+import { atom, type Atom, type Editor } from 'tldraw';
+import type { YogaPose } from '../types/yoga-pose';
 import type { YogaPoseSVG } from './svg-pose-parser';
 
-// Simple global state for selected pose
-let selectedPose: typeof yogaPoses[0] | YogaPoseSVG | undefined = undefined;
+type PanelPose = YogaPose | YogaPoseSVG;
 
-export const getPoseState = () => ({
-  selectedPose,
-  setSelectedPose: (pose: typeof yogaPoses[0] | YogaPoseSVG | undefined) => {
-    selectedPose = pose;
+export interface PoseState {
+  // The pose the Yoga Pose tool stamps
+  selectedPose?: PanelPose;
+  // Last pose picked in each category, restored when the panel comes back to that category
+  lastPoseByCategory: Partial<Record<number, PanelPose>>;
+}
+
+// One store per editor, so two canvases never share a selection
+const poseStates = new WeakMap<Editor, Atom<PoseState>>();
+
+export function getPoseState(editor: Editor): Atom<PoseState> {
+  let state = poseStates.get(editor);
+  if (!state) {
+    state = atom<PoseState>('pose state', { lastPoseByCategory: {} });
+    poseStates.set(editor, state);
   }
-});
\ No newline at end of file
+  return state;
+}
+
+export const getSelectedPose = (editor: Editor) => getPoseState(editor).get().selectedPose;
+
+export function setSelectedPose(editor: Editor, pose: PanelPose | undefined) {
+  getPoseState(editor).update(state => ({
+    selectedPose: pose,
+    lastPoseByCategory: pose?.category !== undefined
+      ? { ...state.lastPoseByCategory, [pose.category]: pose }
+      : state.lastPoseByCategory,
+  }));
+}
+
+/**
+ * Select the pose last picked in a category again, or clear the selection if there isn't one
+ */
+export function restoreLastPose(editor: Editor, category: number) {
+  const state = getPoseState(editor);
+  state.set({ ...state.get(), selectedPose: state.get().lastPoseByCategory[category] });
+}
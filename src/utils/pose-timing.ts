@@ -0,0 +1,70 @@
+import type { Editor, TLPageId } from 'tldraw';
+import type { YogaPoseSvgShape } from '../shapes';
+
+export type PoseHoldUnit = 'seconds' | 'breaths';
+export type PoseSide = 'none' | 'left' | 'right';
+
+// A slow ujjayi breath, used to turn breath counts into class time
+export const SECONDS_PER_BREATH = 5;
+
+type PoseTimingProps = Pick<YogaPoseSvgShape['props'], 'holdAmount' | 'holdUnit'>;
+
+export const getPoseDurationSeconds = ({ holdAmount, holdUnit }: PoseTimingProps): number =>
+  holdUnit === 'breaths' ? holdAmount * SECONDS_PER_BREATH : holdAmount;
+
+/**
+ * Short label for the badge under a pose, e.g. "30s", "5 breaths · L"; empty when nothing is set
+ */
+export function formatPoseTiming({ holdAmount, holdUnit, side }: PoseTimingProps & { side: PoseSide }): string {
+  const parts: string[] = [];
+  if (holdAmount > 0) {
+    parts.push(holdUnit === 'breaths' ? `${holdAmount} breath${holdAmount === 1 ? '' : 's'}` : `${holdAmount}s`);
+  }
+  if (side !== 'none') {
+    parts.push(side === 'left' ? 'L' : 'R');
+  }
+  return parts.join(' · ');
+}
+
+/**
+ * Format a number of seconds as m:ss, or h:mm:ss for long classes
+ */
+export function formatClassTime(totalSeconds: number): string {
+  const seconds = Math.round(totalSeconds);
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return h > 0 ? `${h}:${pad(m)}:${pad(s)}` : `${m}:${pad(s)}`;
+}
+
+export interface ClassTime {
+  totalSeconds: number;
+  poseCount: number;
+  // Poses without a hold time, so the total can be flagged as incomplete
+  untimedCount: number;
+}
+
+/**
+ * Sum the hold time of every pose on a page
+ */
+export function getPageClassTime(editor: Editor, pageId: TLPageId = editor.getCurrentPageId()): ClassTime {
+  let totalSeconds = 0;
+  let poseCount = 0;
+  let untimedCount = 0;
+
+  editor.getPageShapeIds(pageId).forEach((id) => {
+    const shape = editor.getShape(id);
+    if (shape?.type !== 'yoga-pose-svg') return;
+
+    const { props } = shape as YogaPoseSvgShape;
+    poseCount++;
+    if (props.holdAmount > 0) {
+      totalSeconds += getPoseDurationSeconds(props);
+    } else {
+      untimedCount++;
+    }
+  });
+
+  return { totalSeconds, poseCount, untimedCount };
+}
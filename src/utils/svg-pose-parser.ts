@@ -1,5 +1,6 @@
-import { createShapeId, type TLShape, type Editor } from 'tldraw';
+import { createShapeId, type TLShape, type TLShapeId, type Editor } from 'tldraw';
 import { toRichText } from '@tldraw/tlschema';
+import type { PoseVariation, YogaPose } from '../types/yoga-pose';
 
 /* eslint-disable @typescript-eslint/no-explicit-any */
 
@@ -9,14 +10,125 @@ export interface YogaPoseSVG {
   indianName: string;
   svg: string;
   thumbnail: string;
+  category?: number;
+  // Prop variation id, when placing a variation rather than the base pose
+  variant?: string;
 }
 
-export async function createPoseFromSVG(
+// Every pose sketch is framed into the same box so poses line up on the canvas
+export const POSE_FRAME_WIDTH = 352;
+export const POSE_FRAME_HEIGHT = 255;
+
+/**
+ * Fit arbitrary SVG markup into the standard pose frame, keeping the root
+ * fill/stroke defaults and centring the drawing
+ */
+export function normalizePoseSVG(svgText: string): string {
+  // Extract viewBox / width / height from the source SVG
+  const viewBoxMatch = svgText.match(/viewBox="([^"]+)"/);
+  let origW = 100;
+  let origH = 100;
+  if (viewBoxMatch) {
+    const parts = viewBoxMatch[1].split(/\s+/);
+    if (parts.length >= 4) {
+      origW = parseFloat(parts[2]);
+      origH = parseFloat(parts[3]);
+    }
+  } else {
+    const widthMatch = svgText.match(/width="(\d+(?:\.\d+)?)"/);
+    const heightMatch = svgText.match(/height="(\d+(?:\.\d+)?)"/);
+    if (widthMatch) origW = parseFloat(widthMatch[1]);
+    if (heightMatch) origH = parseFloat(heightMatch[1]);
+  }
+
+  // Normalize to a consistent target frame
+  const targetW = POSE_FRAME_WIDTH;
+  const targetH = POSE_FRAME_HEIGHT;
+  const scale = Math.min(targetW / origW, targetH / origH);
+  const offsetX = (targetW - origW * scale) / 2;
+  const offsetY = (targetH - origH * scale) / 2;
+
+  // Extract root <svg> attributes to preserve default fill/stroke from source
+  const rootAttrMatch = svgText.match(/<svg\s+([^>]+)>/);
+  let preservedAttrs = '';
+  if (rootAttrMatch) {
+    const raw = rootAttrMatch[1];
+    const keep = ['fill','stroke','stroke-width','stroke-linecap','stroke-linejoin','stroke-miterlimit','stroke-dasharray','stroke-dashoffset','color','style'];
+    const attrRegex = /(\w[\w-]*)\s*=\s*("[^"]*"|'[^']*')/g;
+    let m: RegExpExecArray | null;
+    const picked: string[] = [];
+    while ((m = attrRegex.exec(raw)) !== null) {
+      const key = m[1];
+      const val = m[2];
+      if (keep.includes(key)) picked.push(`${key}=${val}`);
+    }
+    preservedAttrs = picked.join(' ');
+  }
+
+  // Strip outer <svg> wrapper but keep inner content & defs
+  const inner = svgText.replace(/^[\s\S]*?<svg[^>]*>/, '').replace(/<\/svg>[\s\S]*$/, '');
+  return `\n<svg width="${targetW}" height="${targetH}" viewBox="0 0 ${targetW} ${targetH}" xmlns="http://www.w3.org/2000/svg">\n  <g transform="translate(${offsetX}, ${offsetY}) scale(${scale})">\n    <g${preservedAttrs ? ' ' + preservedAttrs : ''}>\n      ${inner}\n    </g>\n  </g>\n</svg>`;
+}
+
+// Pose names end up inside placeholder SVG markup
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Fetch a catalog pose's sketch (or one of its prop variations) and frame it for
+ * createPoseFromSVG (inline SVG content for export)
+ */
+export async function fetchPoseSVG(pose: YogaPose, variation?: PoseVariation): Promise<YogaPoseSVG> {
+  try {
+    const url = variation?.image ?? pose.image;
+    const res = await fetch(url);
+    // An error page, or the index.html the SPA rewrite serves for unknown paths, isn't a sketch
+    if (!res.ok || !(res.headers.get('content-type') || '').includes('svg')) {
+      throw new Error(`No pose SVG at ${url} (${res.status})`);
+    }
+    const svgText = await res.text();
+    
+    return {
+      id: pose.id.toString(),
+      name: pose.name,
+      indianName: pose.indianName,
+      svg: normalizePoseSVG(svgText),
+      thumbnail: pose.thumbnail,
+      category: pose.category,
+      variant: variation?.id,
+    };
+  } catch {
+    // Fallback to minimal placeholder if fetch fails
+    return {
+      id: pose.id.toString(),
+      name: pose.name,
+      indianName: pose.indianName,
+      svg: `<svg width="352" height="255" viewBox="0 0 352 255" xmlns="http://www.w3.org/2000/svg"><text x="50%" y="50%" dominant-baseline="middle" text-anchor="middle">${escapeXml(pose.name)}</text></svg>`,
+      thumbnail: pose.thumbnail,
+      category: pose.category,
+    };
+  }
+}
+
+/**
+ * Catalog pose id of a placed pose shape, if it has one (custom uploads don't)
+ */
+export function getPoseIdFromShape(shape: TLShape): number | undefined {
+  if (shape.type === 'yoga-pose-svg') {
+    const { poseId } = shape.props as { poseId: string };
+    return /^\d+$/.test(poseId) ? Number(poseId) : undefined;
+  }
+  return undefined;
+}
+
+export function createPoseFromSVG(
   editor: Editor,
   poseData: YogaPoseSVG, 
   targetX: number, 
-  targetY: number
-): Promise<void> {
+  targetY: number,
+  // Size on the canvas; defaults to the sketch's own viewBox size
+  size?: { w: number; h: number }
+): TLShapeId {
 
 
   // Get current style state from selected shapes or editor state
@@ -107,6 +219,10 @@ export async function createPoseFromSVG(
       height = parseInt(viewBoxParts[3]);
     }
   }
+  if (size) {
+    width = size.w;
+    height = size.h;
+  }
   
 
   
@@ -129,6 +245,12 @@ export async function createPoseFromSVG(
       color: currentColor,     // Use current color from style panel
       fill: currentFill,       // Use current fill from style panel
       opacity: currentOpacity, // Use current opacity from style panel
+      // Keep the pose identity so search, sequencing and statistics work on saved flows
+      poseId: poseData.id,
+      name: poseData.name,
+      indianName: poseData.indianName,
+      category: poseData.category ?? null,
+      variant: poseData.variant ?? '',
     },
   };
   
@@ -136,18 +258,22 @@ export async function createPoseFromSVG(
   
   // Create SVG shape first
   editor.createShape(svgShape);
+  // Creating it can move it (onto a timeline track), and the labels go under where it ended up
+  const placed = editor.getShape(svgShapeId);
+  const poseX = placed?.x ?? targetX;
+  const poseY = placed?.y ?? targetY;
 
   // Create editable tldraw text shapes with fixed width to prevent PNG wrapping
   const titleWidth = Math.min(330, Math.max(200, width));
   const subtitleWidth = titleWidth;
-  const titleX = targetX + (width / 2) - (titleWidth / 2);
-  const subtitleX = targetX + (width / 2) - (subtitleWidth / 2);
+  const titleX = poseX + (width / 2) - (titleWidth / 2);
+  const subtitleX = poseX + (width / 2) - (subtitleWidth / 2);
 
   const titleShape: TLShape = {
     id: createShapeId(),
     type: 'text',
     x: titleX,
-    y: targetY + height + 12,
+    y: poseY + height + 12,
     rotation: 0,
     index: 'a0' as any,
     parentId: 'page:page' as any,
@@ -170,7 +296,7 @@ export async function createPoseFromSVG(
     id: createShapeId(),
     type: 'text',
     x: subtitleX,
-    y: targetY + height + 62,
+    y: poseY + height + 62,
     rotation: 0,
     index: 'a0' as any,
     parentId: 'page:page' as any,
@@ -190,8 +316,8 @@ export async function createPoseFromSVG(
   };
 
   editor.createShapes([titleShape, subtitleShape]);
-  
-  
+
+  return svgShapeId;
 }
 
 // Keep the old function for backward compatibility but mark as deprecated
@@ -0,0 +1,86 @@
+import { normalizePoseSVG } from './svg-pose-parser';
+
+// Uploaded sketches are stored inline in every canvas that uses them, so keep them small
+export const MAX_CUSTOM_POSE_SVG_BYTES = 200 * 1024;
+
+// Elements that can run script, embed other documents or pull in remote content. Style sheets
+// would apply to the whole page once the sketch is inlined, and can @import remote URLs
+const FORBIDDEN_ELEMENTS = ['script', 'style', 'foreignObject', 'iframe', 'object', 'embed', 'audio', 'video', 'image', 'animate', 'set', 'animateTransform', 'animateMotion'];
+
+const COLOR_ATTRIBUTES = ['stroke', 'fill', 'color', 'stop-color'];
+
+const isBackgroundRect = (el: Element, vbW: number, vbH: number) => {
+  if (el.tagName.toLowerCase() !== 'rect') return false;
+  const fill = (el.getAttribute('fill') || '').toLowerCase();
+  const w = parseFloat(el.getAttribute('width') || '-1');
+  const h = parseFloat(el.getAttribute('height') || '-1');
+  return (fill === 'white' || fill === '#fff' || fill === '#ffffff') && Math.abs(w - vbW) < 0.01 && Math.abs(h - vbH) < 0.01;
+};
+
+// Concrete colours become currentColor so the style panel colour applies to the sketch
+const toCurrentColor = (value: string) => {
+  const normalized = value.trim().toLowerCase();
+  if (normalized === 'none' || normalized === 'currentcolor' || normalized === 'transparent' || normalized.startsWith('url(')) {
+    return value;
+  }
+  return 'currentColor';
+};
+
+/**
+ * Strip anything executable or external from an uploaded SVG, recolour it to currentColor
+ * and fit it into the standard pose frame. Throws with a readable message if the file
+ * can't be used as a pose.
+ */
+export function sanitizePoseSVG(svgText: string): string {
+  if (new Blob([svgText]).size > MAX_CUSTOM_POSE_SVG_BYTES) {
+    throw new Error(`SVG is too large (max ${Math.round(MAX_CUSTOM_POSE_SVG_BYTES / 1024)} KB)`);
+  }
+
+  const doc = new DOMParser().parseFromString(svgText, 'image/svg+xml');
+  if (doc.querySelector('parsererror')) {
+    throw new Error('File is not a valid SVG');
+  }
+
+  const svgEl = doc.documentElement;
+  if (svgEl.tagName.toLowerCase() !== 'svg') {
+    throw new Error('File is not a valid SVG');
+  }
+
+  FORBIDDEN_ELEMENTS.forEach((tag) => {
+    Array.from(svgEl.getElementsByTagName(tag)).forEach((el) => el.remove());
+  });
+
+  // Remove event handlers, external references and hard-coded colours
+  const elements = [svgEl, ...Array.from(svgEl.querySelectorAll('*'))];
+  elements.forEach((el) => {
+    Array.from(el.attributes).forEach((attr) => {
+      const name = attr.name.toLowerCase();
+      if (name.startsWith('on')) {
+        el.removeAttribute(attr.name);
+      } else if ((name === 'href' || name === 'xlink:href') && !attr.value.trim().startsWith('#')) {
+        el.removeAttribute(attr.name);
+      } else if (COLOR_ATTRIBUTES.includes(name)) {
+        el.setAttribute(attr.name, toCurrentColor(attr.value));
+      } else if (name === 'style') {
+        const style = attr.value
+          .replace(/url\(\s*['"]?(?!#)[^)]*\)/gi, 'none')
+          .replace(/(^|;)\s*(stroke|fill|color|stop-color)\s*:\s*([^;]+)/gi, (_match, sep, prop, value) => `${sep}${prop}: ${toCurrentColor(value)}`);
+        el.setAttribute(attr.name, style);
+      }
+    });
+  });
+
+  // Drop a full-size white background so the sketch sits on the canvas like built-in poses
+  const viewBox = (svgEl.getAttribute('viewBox') || '').split(/\s+/).map(parseFloat);
+  const vbW = viewBox.length >= 4 ? viewBox[2] : parseFloat(svgEl.getAttribute('width') || '-1');
+  const vbH = viewBox.length >= 4 ? viewBox[3] : parseFloat(svgEl.getAttribute('height') || '-1');
+  Array.from(svgEl.children).forEach((child) => {
+    if (isBackgroundRect(child, vbW, vbH)) child.remove();
+  });
+
+  if (!svgEl.querySelector('path, line, polyline, polygon, circle, ellipse, rect, text, use')) {
+    throw new Error('SVG does not contain any drawing');
+  }
+
+  return normalizePoseSVG(new XMLSerializer().serializeToString(svgEl));
+}
@@ -0,0 +1,145 @@
+import { react, unsafe__withoutCapture, type Editor, type TLPageId, type TLShape, type TLShapeId, type TLShapePartial } from 'tldraw';
+import { isPoseShape } from './flow-sequence';
+import { getPoseLabels } from './pose-labels';
+
+// Where the track sits on a page in timeline mode; y is the track's centre line
+export interface TimelineTrack {
+  x: number;
+  y: number;
+}
+
+export const TIMELINE_SLOT_GAP = 40;
+// How close (vertically, from pose centre to track) a dropped pose has to be to join the track
+export const TIMELINE_SNAP_DISTANCE = 160;
+
+export function getTimelineTrack(editor: Editor, pageId: TLPageId = editor.getCurrentPageId()): TimelineTrack | undefined {
+  const track = editor.getPage(pageId)?.meta.timeline as TimelineTrack | null | undefined;
+  return track ?? undefined;
+}
+
+export const isOnTimeline = (shape: TLShape) => shape.meta.onTimeline === true;
+
+/**
+ * Turn timeline mode on for the current page, with the track across the middle of the viewport,
+ * or off, which releases every pose from the track where it stands
+ */
+export function setTimelineMode(editor: Editor, enabled: boolean) {
+  const pageId = editor.getCurrentPageId();
+  const viewport = editor.getViewportPageBounds();
+
+  editor.markHistoryStoppingPoint('toggle timeline');
+  editor.run(() => {
+    editor.updatePage({
+      id: pageId,
+      meta: { timeline: enabled ? { x: Math.round(viewport.minX + TIMELINE_SLOT_GAP), y: Math.round(viewport.midY) } : null },
+    });
+    if (!enabled) {
+      editor.updateShapes(getTimelinePoses(editor).map(shape => ({ id: shape.id, type: shape.type, meta: { ...shape.meta, onTimeline: false } })));
+    }
+  });
+}
+
+/**
+ * Poses on the track of the current page, in track order
+ */
+export function getTimelinePoses(editor: Editor): TLShape[] {
+  return editor.getCurrentPageShapes()
+    .filter(shape => isPoseShape(shape) && isOnTimeline(shape))
+    .sort((a, b) => (editor.getShapePageBounds(a)?.midX ?? 0) - (editor.getShapePageBounds(b)?.midX ?? 0));
+}
+
+/**
+ * Decide which of the given poses are on the track after being dropped or placed, then pack the
+ * whole track into slots. Order comes from where poses sit horizontally, so a pose dropped between
+ * two others takes the slot between them and pushes the later ones right. A pose's name labels
+ * move with it.
+ */
+export function settleTimeline(editor: Editor, changedIds: TLShapeId[]) {
+  const track = getTimelineTrack(editor);
+  if (!track) return;
+
+  const pageId = editor.getCurrentPageId();
+  const updates: TLShapePartial[] = [];
+  const joined = new Set<TLShapeId>();
+  const left = new Set<TLShapeId>();
+
+  changedIds.forEach((id) => {
+    const shape = editor.getShape(id);
+    // Poses inside frames and groups keep to their container
+    if (!shape || !isPoseShape(shape) || shape.parentId !== pageId) return;
+    const bounds = editor.getShapePageBounds(shape);
+    if (!bounds) return;
+
+    const isNear = Math.abs(bounds.midY - track.y) <= TIMELINE_SNAP_DISTANCE && bounds.maxX >= track.x;
+    if (isNear) {
+      joined.add(id);
+    } else if (isOnTimeline(shape)) {
+      left.add(id);
+      updates.push({ id, type: shape.type, meta: { ...shape.meta, onTimeline: false } });
+    }
+  });
+
+  const onTrack = editor.getCurrentPageShapes()
+    .filter(shape => isPoseShape(shape) && shape.parentId === pageId && (joined.has(shape.id) || (isOnTimeline(shape) && !left.has(shape.id))))
+    .sort((a, b) => (editor.getShapePageBounds(a)?.midX ?? 0) - (editor.getShapePageBounds(b)?.midX ?? 0));
+
+  let x = track.x;
+  const movedLabels = new Set<TLShapeId>();
+  onTrack.forEach((shape) => {
+    const { w, h } = editor.getShapeGeometry(shape).bounds;
+    const y = track.y - h / 2;
+    if (shape.x !== x || shape.y !== y || shape.rotation !== 0 || !isOnTimeline(shape)) {
+      updates.push({ id: shape.id, type: shape.type, x, y, rotation: 0, meta: { ...shape.meta, onTimeline: true } });
+      getPoseLabels(editor, shape).forEach((label) => {
+        if (movedLabels.has(label.id)) return;
+        movedLabels.add(label.id);
+        updates.push({ id: label.id, type: label.type, x: label.x + x - shape.x, y: label.y + y - shape.y });
+      });
+    }
+    x += w + TIMELINE_SLOT_GAP;
+  });
+
+  if (updates.length > 0) {
+    editor.updateShapes(updates);
+  }
+}
+
+/**
+ * Keep the track settled as the user works: when a drag ends, when a pose is placed, and when one
+ * on the track is deleted. Remote changes are left alone; the collaborator's editor settles them.
+ *
+ * @returns a function that stops snapping
+ */
+export function registerTimelineSnapping(editor: Editor): () => void {
+  let draggedIds: TLShapeId[] = [];
+  const stopWatchingDrags = react('timeline drag end', () => {
+    const isTranslating = editor.isIn('select.translating');
+    if (isTranslating) {
+      draggedIds = editor.getSelectedShapeIds();
+    } else if (draggedIds.length > 0) {
+      const ids = draggedIds;
+      draggedIds = [];
+      // No history mark of its own, so undo takes back the drag and the snap together. Reading
+      // the shapes here mustn't make every later edit re-run this reaction.
+      unsafe__withoutCapture(() => settleTimeline(editor, ids));
+    }
+  });
+
+  const stopCreate = editor.sideEffects.registerAfterCreateHandler('shape', (shape, source) => {
+    // Alt-drag copies are settled with the rest of the drag
+    if (source !== 'user' || !isPoseShape(shape) || editor.isIn('select.translating')) return;
+    settleTimeline(editor, [shape.id]);
+  });
+
+  const stopDelete = editor.sideEffects.registerAfterDeleteHandler('shape', (shape, source) => {
+    if (source !== 'user' || !isOnTimeline(shape)) return;
+    // Close the gap the pose leaves behind
+    settleTimeline(editor, []);
+  });
+
+  return () => {
+    stopWatchingDrags();
+    stopCreate();
+    stopDelete();
+  };
+}
@@ -0,0 +1,37 @@
+import type { YogaPose } from '../types/yoga-pose';
+
+/**
+ * Directed graph of pose transitions. An edge A → B means B is a common
+ * next pose after A, as listed in A's `linked` field in the catalog.
+ */
+export interface TransitionGraph {
+  // Poses that commonly follow the given pose, in catalog order
+  getNextPoses: (poseId: number) => YogaPose[];
+  // Poses that commonly lead into the given pose
+  getPreviousPoses: (poseId: number) => YogaPose[];
+  hasTransition: (fromId: number, toId: number) => boolean;
+}
+
+export function buildTransitionGraph(poses: YogaPose[]): TransitionGraph {
+  const posesById = new Map(poses.map(pose => [pose.id, pose]));
+  const outgoing = new Map<number, number[]>();
+  const incoming = new Map<number, number[]>();
+
+  poses.forEach((pose) => {
+    // Ignore self-links and duplicates so the strip never suggests the same pose twice
+    const targets = Array.from(new Set(pose.linked)).filter(id => id !== pose.id && posesById.has(id));
+    outgoing.set(pose.id, targets);
+    targets.forEach((target) => {
+      incoming.set(target, [...(incoming.get(target) ?? []), pose.id]);
+    });
+  });
+
+  const resolve = (ids: number[] | undefined) =>
+    (ids ?? []).map(id => posesById.get(id)).filter((pose): pose is YogaPose => pose !== undefined);
+
+  return {
+    getNextPoses: (poseId) => resolve(outgoing.get(poseId)),
+    getPreviousPoses: (poseId) => resolve(incoming.get(poseId)),
+    hasTransition: (fromId, toId) => outgoing.get(fromId)?.includes(toId) ?? false,
+  };
+}
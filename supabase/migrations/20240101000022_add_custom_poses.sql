@@ -0,0 +1,40 @@
+-- Add custom_poses table for user-uploaded pose sketches
+CREATE TABLE IF NOT EXISTS public.custom_poses (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  indian_name TEXT,
+  category INTEGER NOT NULL,
+  sub_category INTEGER,
+  svg TEXT NOT NULL, -- Sanitized SVG normalized to the 352x255 pose frame
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE public.custom_poses ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_custom_poses_user_id ON public.custom_poses(user_id);
+
+DROP POLICY IF EXISTS "Users can view own custom poses" ON public.custom_poses;
+DROP POLICY IF EXISTS "Users can insert own custom poses" ON public.custom_poses;
+DROP POLICY IF EXISTS "Users can update own custom poses" ON public.custom_poses;
+DROP POLICY IF EXISTS "Users can delete own custom poses" ON public.custom_poses;
+
+CREATE POLICY "Users can view own custom poses" ON public.custom_poses
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own custom poses" ON public.custom_poses
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own custom poses" ON public.custom_poses
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own custom poses" ON public.custom_poses
+  FOR DELETE USING (auth.uid() = user_id);
+
+DROP TRIGGER IF EXISTS update_custom_poses_updated_at ON public.custom_poses;
+CREATE TRIGGER update_custom_poses_updated_at
+  BEFORE UPDATE ON public.custom_poses
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+COMMENT ON TABLE public.custom_poses IS 'Pose sketches uploaded by a user, shown next to the built-in pose catalog';
@@ -0,0 +1,65 @@
+-- Add canvas_versions table for snapshot history of canvas data
+CREATE TABLE IF NOT EXISTS public.canvas_versions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  canvas_id UUID REFERENCES public.canvases(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  data JSONB NOT NULL, -- tldraw snapshot data at the time of the version
+  shape_count INTEGER DEFAULT 0,
+  reason TEXT NOT NULL DEFAULT 'auto' CHECK (reason IN ('auto', 'manual', 'before-delete', 'before-restore')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE public.canvas_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_canvas_versions_canvas_created
+ON public.canvas_versions(canvas_id, created_at DESC);
+
+DROP POLICY IF EXISTS "Users can view own canvas versions" ON public.canvas_versions;
+DROP POLICY IF EXISTS "Users can insert own canvas versions" ON public.canvas_versions;
+DROP POLICY IF EXISTS "Users can delete own canvas versions" ON public.canvas_versions;
+
+CREATE POLICY "Users can view own canvas versions" ON public.canvas_versions
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Versions can only be added to the user's own canvases, since adding one prunes older ones
+CREATE POLICY "Users can insert own canvas versions" ON public.canvas_versions
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM public.canvases c WHERE c.id = canvas_id AND c.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can delete own canvas versions" ON public.canvas_versions
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Retention: keep the newest 30 automatic and 20 other versions of each canvas, none older than 90 days
+CREATE OR REPLACE FUNCTION public.prune_canvas_versions()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM public.canvas_versions
+  WHERE canvas_id = NEW.canvas_id
+    AND user_id = NEW.user_id
+    AND id IN (
+      SELECT id FROM (
+        SELECT
+          id,
+          created_at,
+          reason,
+          ROW_NUMBER() OVER (PARTITION BY (reason = 'auto') ORDER BY created_at DESC) AS position
+        FROM public.canvas_versions
+        WHERE canvas_id = NEW.canvas_id AND user_id = NEW.user_id
+      ) ranked
+      WHERE created_at < NOW() - INTERVAL '90 days'
+        OR (reason = 'auto' AND position > 30)
+        OR (reason <> 'auto' AND position > 20)
+    );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS prune_canvas_versions_after_insert ON public.canvas_versions;
+CREATE TRIGGER prune_canvas_versions_after_insert
+  AFTER INSERT ON public.canvas_versions
+  FOR EACH ROW EXECUTE FUNCTION public.prune_canvas_versions();
+
+COMMENT ON TABLE public.canvas_versions IS 'Snapshots of canvas data, taken periodically, on demand and before destructive changes';
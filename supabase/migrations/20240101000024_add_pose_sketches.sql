@@ -0,0 +1,27 @@
+-- Add pose_sketches table: pose SVG markup shared by every canvas that shows the pose. Encoded
+-- canvas snapshots refer to a sketch by pose id and the SHA-256 of its markup instead of
+-- embedding it in each pose shape.
+CREATE TABLE IF NOT EXISTS public.pose_sketches (
+  pose_id TEXT NOT NULL, -- Catalog id, `custom:<uuid>` for uploads, '' when unknown
+  hash TEXT NOT NULL, -- Hex SHA-256 of svg, so a key always names the same markup
+  svg TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (pose_id, hash),
+  CONSTRAINT pose_sketches_hash_matches_svg CHECK (hash = encode(sha256(convert_to(svg, 'UTF8')), 'hex'))
+);
+
+ALTER TABLE public.pose_sketches ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_pose_sketches_hash ON public.pose_sketches(hash);
+
+DROP POLICY IF EXISTS "Signed-in users can view pose sketches" ON public.pose_sketches;
+DROP POLICY IF EXISTS "Signed-in users can insert pose sketches" ON public.pose_sketches;
+
+-- Rows are immutable and checked against their hash, so they can be shared without owners
+CREATE POLICY "Signed-in users can view pose sketches" ON public.pose_sketches
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Signed-in users can insert pose sketches" ON public.pose_sketches
+  FOR INSERT WITH CHECK (auth.role() = 'authenticated');
+
+COMMENT ON TABLE public.pose_sketches IS 'Pose SVG markup referenced from encoded canvas snapshots, keyed by pose id and content hash';
@@ -0,0 +1,24 @@
+-- Add a revision counter to canvases for optimistic concurrency: a client saves content only
+-- while the row is still at the revision its copy is based on, and merges when it isn't
+ALTER TABLE public.canvases
+ADD COLUMN IF NOT EXISTS revision INTEGER NOT NULL DEFAULT 0;
+
+-- Every change of content counts, whichever client made it
+CREATE OR REPLACE FUNCTION public.bump_canvas_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.data IS DISTINCT FROM OLD.data THEN
+    NEW.revision = OLD.revision + 1;
+  ELSE
+    NEW.revision = OLD.revision;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS bump_canvas_revision ON public.canvases;
+CREATE TRIGGER bump_canvas_revision
+  BEFORE UPDATE ON public.canvases
+  FOR EACH ROW EXECUTE FUNCTION public.bump_canvas_revision();
+
+COMMENT ON COLUMN public.canvases.revision IS 'Incremented whenever data changes, compared by clients before saving';
@@ -34,14 +34,52 @@ CREATE TABLE IF NOT EXISTS public.canvases (
   is_public BOOLEAN DEFAULT FALSE, -- For future sharing features
   sort_order INTEGER DEFAULT 1,
   shape_count INTEGER DEFAULT 0, -- NEW: Track number of shapes on canvas
+  revision INTEGER NOT NULL DEFAULT 0, -- Bumped on every change of data, for optimistic concurrency
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Create custom_poses table (user-uploaded pose sketches)
+CREATE TABLE IF NOT EXISTS public.custom_poses (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  indian_name TEXT,
+  category INTEGER NOT NULL,
+  sub_category INTEGER,
+  svg TEXT NOT NULL, -- Sanitized SVG normalized to the 352x255 pose frame
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create canvas_versions table (snapshot history of canvas data)
+CREATE TABLE IF NOT EXISTS public.canvas_versions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  canvas_id UUID REFERENCES public.canvases(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.users(id) ON DELETE CASCADE NOT NULL,
+  data JSONB NOT NULL, -- tldraw snapshot data at the time of the version
+  shape_count INTEGER DEFAULT 0,
+  reason TEXT NOT NULL DEFAULT 'auto' CHECK (reason IN ('auto', 'manual', 'before-delete', 'before-restore')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create pose_sketches table (pose SVG markup shared by encoded canvas snapshots)
+CREATE TABLE IF NOT EXISTS public.pose_sketches (
+  pose_id TEXT NOT NULL, -- Catalog id, `custom:<uuid>` for uploads, '' when unknown
+  hash TEXT NOT NULL, -- Hex SHA-256 of svg, so a key always names the same markup
+  svg TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (pose_id, hash),
+  CONSTRAINT pose_sketches_hash_matches_svg CHECK (hash = encode(sha256(convert_to(svg, 'UTF8')), 'hex'))
+);
+
 -- Enable RLS on all tables
 ALTER TABLE public.users ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.folders ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.canvases ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.custom_poses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.canvas_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.pose_sketches ENABLE ROW LEVEL SECURITY;
 
 -- Create indexes for better performance
 CREATE INDEX IF NOT EXISTS idx_folders_user_id ON public.folders(user_id);
@@ -49,6 +87,9 @@ CREATE INDEX IF NOT EXISTS idx_folders_parent_id ON public.folders(parent_folder
 CREATE INDEX IF NOT EXISTS idx_canvases_user_id ON public.canvases(user_id);
 CREATE INDEX IF NOT EXISTS idx_canvases_folder_id ON public.canvases(folder_id);
 CREATE INDEX IF NOT EXISTS idx_canvases_updated_at ON public.canvases(updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_custom_poses_user_id ON public.custom_poses(user_id);
+CREATE INDEX IF NOT EXISTS idx_canvas_versions_canvas_created ON public.canvas_versions(canvas_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_pose_sketches_hash ON public.pose_sketches(hash);
 
 -- Create indexes for sort_order
 CREATE INDEX IF NOT EXISTS idx_canvases_sort_order ON public.canvases(sort_order);
@@ -97,6 +138,40 @@ CREATE POLICY "Users can update own canvases" ON public.canvases
 CREATE POLICY "Users can delete own canvases" ON public.canvases
   FOR DELETE USING (auth.uid() = user_id);
 
+-- RLS Policies for custom_poses table
+CREATE POLICY "Users can view own custom poses" ON public.custom_poses
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own custom poses" ON public.custom_poses
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own custom poses" ON public.custom_poses
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own custom poses" ON public.custom_poses
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- RLS Policies for canvas_versions table
+CREATE POLICY "Users can view own canvas versions" ON public.canvas_versions
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Versions can only be added to the user's own canvases, since adding one prunes older ones
+CREATE POLICY "Users can insert own canvas versions" ON public.canvas_versions
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM public.canvases c WHERE c.id = canvas_id AND c.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can delete own canvas versions" ON public.canvas_versions
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- RLS Policies for pose_sketches table (immutable rows checked against their hash, shared without owners)
+CREATE POLICY "Signed-in users can view pose sketches" ON public.pose_sketches
+  FOR SELECT USING (auth.role() = 'authenticated');
+
+CREATE POLICY "Signed-in users can insert pose sketches" ON public.pose_sketches
+  FOR INSERT WITH CHECK (auth.role() = 'authenticated');
+
 -- Function to handle user creation
 CREATE OR REPLACE FUNCTION public.handle_new_user()
 RETURNS TRIGGER AS $$
@@ -222,4 +297,55 @@ CREATE TRIGGER update_folders_updated_at
 
 CREATE TRIGGER update_canvases_updated_at
   BEFORE UPDATE ON public.canvases
-  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column(); 
\ No newline at end of file
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_custom_poses_updated_at
+  BEFORE UPDATE ON public.custom_poses
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Function to count changes of canvas content, whichever client made them
+CREATE OR REPLACE FUNCTION public.bump_canvas_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.data IS DISTINCT FROM OLD.data THEN
+    NEW.revision = OLD.revision + 1;
+  ELSE
+    NEW.revision = OLD.revision;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER bump_canvas_revision
+  BEFORE UPDATE ON public.canvases
+  FOR EACH ROW EXECUTE FUNCTION public.bump_canvas_revision();
+
+-- Retention: keep the newest 30 automatic and 20 other versions of each canvas, none older than 90 days
+CREATE OR REPLACE FUNCTION public.prune_canvas_versions()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM public.canvas_versions
+  WHERE canvas_id = NEW.canvas_id
+    AND user_id = NEW.user_id
+    AND id IN (
+      SELECT id FROM (
+        SELECT
+          id,
+          created_at,
+          reason,
+          ROW_NUMBER() OVER (PARTITION BY (reason = 'auto') ORDER BY created_at DESC) AS position
+        FROM public.canvas_versions
+        WHERE canvas_id = NEW.canvas_id AND user_id = NEW.user_id
+      ) ranked
+      WHERE created_at < NOW() - INTERVAL '90 days'
+        OR (reason = 'auto' AND position > 30)
+        OR (reason <> 'auto' AND position > 20)
+    );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER prune_canvas_versions_after_insert
+  AFTER INSERT ON public.canvas_versions
+  FOR EACH ROW EXECUTE FUNCTION public.prune_canvas_versions();
\ No newline at end of file
@@ -0,0 +1,76 @@
+// Starts a sync server on a free port and connects one client with the app's schema, as the planner
+// does when it joins a room. Fails if the server turns the client away.
+//
+//   npm run check:sync-server
+
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { randomUUID } from 'node:crypto';
+import { WebSocket } from 'ws';
+import { getTlsyncProtocolVersion } from '@tldraw/sync-core';
+import { createTLSchema, defaultBindingSchemas, defaultShapeSchemas } from '@tldraw/tlschema';
+import { customBindingSchemas, customShapeSchemas, legacyPoseShapeMigrations } from '../src/shapes/shape-schemas.ts';
+import { startSyncServer } from './server.js';
+
+const REPLY_TIMEOUT_MS = 10000;
+
+// What the editor's store is built from: tldraw's shapes plus the app's utils, which take their
+// props and migrations from shape-schemas
+const clientSchema = createTLSchema({
+  shapes: { ...defaultShapeSchemas, ...customShapeSchemas },
+  bindings: { ...defaultBindingSchemas, ...customBindingSchemas },
+  migrations: [legacyPoseShapeMigrations],
+});
+
+/**
+ * Send a connect request to a room. Resolves with the server's first message, or with the close
+ * code and reason if it shuts the socket instead.
+ */
+const connectClient = (port) => new Promise((resolve, reject) => {
+  const socket = new WebSocket(`ws://localhost:${port}/connect/sync-server-check?sessionId=${randomUUID()}`);
+  const timer = setTimeout(() => {
+    socket.terminate();
+    reject(new Error(`No reply from the sync server within ${REPLY_TIMEOUT_MS}ms`));
+  }, REPLY_TIMEOUT_MS);
+
+  socket.on('open', () => {
+    socket.send(JSON.stringify({
+      type: 'connect',
+      connectRequestId: randomUUID(),
+      schema: clientSchema.serialize(),
+      protocolVersion: getTlsyncProtocolVersion(),
+      lastServerClock: 0,
+    }));
+  });
+  socket.on('message', (data) => {
+    clearTimeout(timer);
+    socket.close();
+    resolve({ message: JSON.parse(data.toString()) });
+  });
+  socket.on('close', (code, reason) => {
+    clearTimeout(timer);
+    resolve({ closed: `${code} ${reason.toString()}` });
+  });
+  socket.on('error', (error) => {
+    clearTimeout(timer);
+    reject(error);
+  });
+});
+
+const dataDir = await mkdtemp(join(tmpdir(), 'sync-server-check-'));
+const server = await startSyncServer({ port: 0, dataDir });
+
+try {
+  const reply = await connectClient(server.port);
+  if (reply.message?.type !== 'connect') {
+    throw new Error(`The sync server turned the client away: ${reply.closed ?? JSON.stringify(reply.message)}`);
+  }
+  console.log('Sync server accepted a client with the app schema');
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+} finally {
+  await server.close();
+  await rm(dataDir, { recursive: true, force: true });
+}
@@ -0,0 +1,249 @@
+// Local tldraw sync server for development and tests. It speaks the same protocol as the
+// production worker: rooms at /connect/:roomId over WebSocket, asset uploads at POST /upload.
+// Rooms and uploads are kept in a data directory so they survive restarts.
+//
+//   npm run sync-server                  # listens on :8787, data in .sync-server/
+//   SYNC_SERVER_PORT=9000 npm run sync-server
+//   SYNC_SERVER_ALLOWED_ORIGIN=http://localhost:4173 npm run sync-server   # app served elsewhere
+//
+// Tests can start one in-process with startSyncServer({ port: 0, dataDir }) and close it after.
+
+import { createServer } from 'node:http';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
+import { randomUUID } from 'node:crypto';
+import { Readable } from 'node:stream';
+import { pathToFileURL } from 'node:url';
+import { WebSocketServer } from 'ws';
+import { TLSocketRoom } from '@tldraw/sync-core';
+import { createTLSchema, defaultBindingSchemas, defaultShapeSchemas } from '@tldraw/tlschema';
+import { customBindingSchemas, customShapeSchemas, legacyPoseShapeMigrations } from '../src/shapes/shape-schemas.ts';
+
+const DEFAULT_PORT = 8787;
+const PERSIST_DELAY_MS = 1000;
+// Vite's dev server, where the planner runs in development
+const DEFAULT_ALLOWED_ORIGIN = 'http://localhost:5173';
+// The editor refuses files over tldraw's default asset size (10mb) before uploading, so anything
+// bigger didn't come from the app. The form around the file gets a little room on top.
+const MAX_ASSET_BYTES = 10 * 1024 * 1024;
+const MAX_UPLOAD_BYTES = MAX_ASSET_BYTES + 64 * 1024;
+
+// The app's own shapes and bindings with the same props and migrations the clients use. A client
+// whose records carry a migration the server doesn't know is turned away as too old.
+const schema = createTLSchema({
+  shapes: { ...defaultShapeSchemas, ...customShapeSchemas },
+  bindings: { ...defaultBindingSchemas, ...customBindingSchemas },
+  migrations: [legacyPoseShapeMigrations],
+});
+
+// Room ids come from the URL, so only plain ids name files
+const isSafeId = (id) => /^[\w-]+$/.test(id);
+
+/**
+ * Start a sync server. Resolves once it is listening, with its port and a close function that
+ * saves every open room first. Only pages from allowedOrigin may call it from a browser.
+ */
+export async function startSyncServer({
+  port = DEFAULT_PORT,
+  dataDir = '.sync-server',
+  allowedOrigin = DEFAULT_ALLOWED_ORIGIN,
+} = {}) {
+  const corsHeaders = {
+    'Access-Control-Allow-Origin': allowedOrigin,
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+  };
+
+  const sendJson = (res, status, body) => {
+    res.writeHead(status, { ...corsHeaders, 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  };
+
+  const roomsDir = resolve(dataDir, 'rooms');
+  const uploadsDir = resolve(dataDir, 'uploads');
+  await mkdir(roomsDir, { recursive: true });
+  await mkdir(uploadsDir, { recursive: true });
+
+  // Rooms load asynchronously; sockets that arrive meanwhile wait on the same promise
+  const rooms = new Map();
+  const persistTimers = new Map();
+
+  const persistRoom = async (roomId, room) => {
+    clearTimeout(persistTimers.get(roomId));
+    persistTimers.delete(roomId);
+    await writeFile(join(roomsDir, `${roomId}.json`), JSON.stringify(room.getCurrentSnapshot()));
+  };
+
+  const openRoom = (roomId) => {
+    if (!rooms.has(roomId)) {
+      rooms.set(roomId, (async () => {
+        const saved = await readFile(join(roomsDir, `${roomId}.json`), 'utf8').catch(() => null);
+        const room = new TLSocketRoom({
+          schema,
+          initialSnapshot: saved ? JSON.parse(saved) : undefined,
+          onDataChange: () => {
+            clearTimeout(persistTimers.get(roomId));
+            persistTimers.set(roomId, setTimeout(() => {
+              persistRoom(roomId, room).catch(error => console.error(`Error saving room ${roomId}:`, error));
+            }, PERSIST_DELAY_MS));
+          },
+          // The last one out saves the room and closes it, unless someone joined while it saved
+          onSessionRemoved: (closedRoom, { numSessionsRemaining }) => {
+            if (numSessionsRemaining > 0) return;
+            persistRoom(roomId, closedRoom)
+              .catch(error => console.error(`Error saving room ${roomId}:`, error))
+              .finally(() => {
+                if (closedRoom.getNumActiveSessions() > 0) return;
+                rooms.delete(roomId);
+                closedRoom.close();
+              });
+          },
+        });
+        return room;
+      })());
+    }
+    return rooms.get(roomId);
+  };
+
+  // Too large to take; the connection is closed rather than reading the rest of the body
+  const rejectUpload = (res) => {
+    res.setHeader('Connection', 'close');
+    sendJson(res, 413, { error: `Uploads are limited to ${MAX_ASSET_BYTES / (1024 * 1024)}mb` });
+  };
+
+  const handleUpload = async (req, res) => {
+    if (Number(req.headers['content-length']) > MAX_UPLOAD_BYTES) {
+      rejectUpload(res);
+      return;
+    }
+
+    // Without a declared length, stop reading once the body goes over the limit
+    let received = 0;
+    let tooLarge = false;
+    const body = Readable.from((async function* () {
+      for await (const chunk of req) {
+        received += chunk.length;
+        if (received > MAX_UPLOAD_BYTES) {
+          tooLarge = true;
+          throw new Error('Upload too large');
+        }
+        yield chunk;
+      }
+    })());
+
+    const request = new Request(`http://localhost${req.url}`, {
+      method: 'POST',
+      headers: req.headers,
+      body: Readable.toWeb(body),
+      duplex: 'half',
+    });
+    const form = await request.formData().catch((error) => {
+      if (tooLarge) return null;
+      throw error;
+    });
+    if (!form) {
+      rejectUpload(res);
+      return;
+    }
+
+    const file = form.get('file');
+    if (!file || typeof file === 'string') {
+      sendJson(res, 400, { error: 'Expected a file' });
+      return;
+    }
+
+    const id = randomUUID();
+    await writeFile(join(uploadsDir, id), Buffer.from(await file.arrayBuffer()));
+    await writeFile(join(uploadsDir, `${id}.type`), file.type || 'application/octet-stream');
+    sendJson(res, 200, { url: `http://${req.headers.host}/uploads/${id}` });
+  };
+
+  const handleDownload = async (id, res) => {
+    const [body, type] = await Promise.all([
+      readFile(join(uploadsDir, id)),
+      readFile(join(uploadsDir, `${id}.type`), 'utf8'),
+    ]).catch(() => []);
+    if (!body) {
+      sendJson(res, 404, { error: 'Not found' });
+      return;
+    }
+    res.writeHead(200, { ...corsHeaders, 'Content-Type': type });
+    res.end(body);
+  };
+
+  const server = createServer((req, res) => {
+    const { pathname } = new URL(req.url, 'http://localhost');
+    const download = pathname.match(/^\/uploads\/([\w-]+)$/);
+
+    let handled;
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, corsHeaders);
+      res.end();
+      return;
+    } else if (req.method === 'POST' && pathname === '/upload') {
+      handled = handleUpload(req, res);
+    } else if (req.method === 'GET' && download) {
+      handled = handleDownload(download[1], res);
+    } else {
+      sendJson(res, 404, { error: 'Not found' });
+      return;
+    }
+
+    handled.catch((error) => {
+      console.error(`Error handling ${req.method} ${pathname}:`, error);
+      if (!res.headersSent) sendJson(res, 500, { error: 'Internal error' });
+    });
+  });
+
+  const sockets = new WebSocketServer({ noServer: true });
+  server.on('upgrade', (req, socket, head) => {
+    const url = new URL(req.url, 'http://localhost');
+    const roomId = url.pathname.match(/^\/connect\/([^/]+)$/)?.[1];
+    const sessionId = url.searchParams.get('sessionId');
+    if (!roomId || !isSafeId(roomId) || !sessionId) {
+      socket.destroy();
+      return;
+    }
+
+    sockets.handleUpgrade(req, socket, head, async (ws) => {
+      // Hold messages that arrive while the room loads, then hand them over in order
+      const early = [];
+      const holdMessage = (event) => early.push(event);
+      ws.addEventListener('message', holdMessage);
+
+      try {
+        const room = await openRoom(roomId);
+        ws.removeEventListener('message', holdMessage);
+        room.handleSocketConnect({ sessionId, socket: ws });
+        early.forEach(event => room.handleSocketMessage(sessionId, event.data));
+      } catch (error) {
+        console.error(`Error opening room ${roomId}:`, error);
+        ws.close();
+      }
+    });
+  });
+
+  await new Promise((resolveListen) => server.listen(port, resolveListen));
+
+  return {
+    port: server.address().port,
+    async close() {
+      sockets.clients.forEach(client => client.terminate());
+      const open = await Promise.all(rooms.values());
+      await Promise.all([...rooms.keys()].map((roomId, index) => persistRoom(roomId, open[index])));
+      open.forEach(room => room.close());
+      rooms.clear();
+      await new Promise(resolveClose => server.close(resolveClose));
+    },
+  };
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(resolve(process.argv[1])).href) {
+  const port = Number(process.env.SYNC_SERVER_PORT) || DEFAULT_PORT;
+  const { port: listening } = await startSyncServer({
+    port,
+    dataDir: process.env.SYNC_SERVER_DATA_DIR,
+    allowedOrigin: process.env.SYNC_SERVER_ALLOWED_ORIGIN,
+  });
+  console.log(`Sync server listening on http://localhost:${listening}`);
+}